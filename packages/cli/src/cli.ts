@@ -54,6 +54,23 @@ program
     "--actions-output-dir <path>",
     "Directory for action JSON when using --generate-actions (default: actions)"
   )
+  .option("--no-cache", "Re-analyze every file instead of replaying unchanged files from the scan cache")
+  .option(
+    "--cache-dir <path>",
+    "Scan cache directory (default: .api-surface/cache under the scanned root)"
+  )
+  .option(
+    "--concurrency <n>",
+    "Worker threads used to analyze files (default: number of CPUs; 1 disables parallel scanning)"
+  )
+  .option(
+    "--workspaces",
+    "Scan each package of an npm / pnpm / Yarn workspace with its own tsconfig and config, and attribute calls to packages"
+  )
+  .option(
+    "--watch",
+    "Keep running: rescan changed files and their dependents, rewrite the output and print endpoint changes"
+  )
   .action(async (directory: string, options: ScanOptions) => {
     await handleScan(directory, options);
   });
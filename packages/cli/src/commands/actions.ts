@@ -5,6 +5,7 @@
  */
 
 import Anthropic from "@anthropic-ai/sdk";
+import { SERVER_ACTION_METHOD } from "@api-surface/core";
 import { config as loadEnv } from "dotenv";
 import * as fs from "fs/promises";
 import OpenAI from "openai";
@@ -100,9 +101,16 @@ function buildUserPrompt(
   serviceKey: string,
   defaultDatabaseUrl?: string
 ): string {
+  const isServerAction = payload.method === SERVER_ACTION_METHOD;
   const parts = [
     `Convert this Next.js API route handler into the action JSON format.`,
     ``,
+    ...(isServerAction
+      ? [
+          `This handler is a Next.js Server Action (a "use server" function components call directly): its arguments (FormData or plain values) → payload; use httpMethod POST.`,
+          ``,
+        ]
+      : []),
     `The functionCode in your output MUST be an executeAction function, NOT the raw handler:`,
     `  async function executeAction(payload, context) { ... }`,
     ``,
@@ -132,6 +140,11 @@ function buildUserPrompt(
   return parts.join("\n");
 }
 
+/** Server actions are invoked with POST requests */
+function toHttpMethod(method: string): string {
+  return method === SERVER_ACTION_METHOD ? "POST" : method;
+}
+
 function slugifyActionName(method: string, url: string): string {
   const pathPart = url
     .replace(/^https?:\/\//i, "")
@@ -262,7 +275,7 @@ async function convertWithOpenAI(
       if (!parsed.actionName || !parsed.httpMethod) {
         parsed.actionName =
           parsed.actionName || slugifyActionName(payload.method, payload.url);
-        parsed.httpMethod = parsed.httpMethod || payload.method;
+        parsed.httpMethod = parsed.httpMethod || toHttpMethod(payload.method);
       }
       if (!parsed.functionCode && payload.functionCode) {
         parsed.functionCode = payload.functionCode;
@@ -351,7 +364,7 @@ async function convertWithClaude(
       if (!parsed.actionName || !parsed.httpMethod) {
         parsed.actionName =
           parsed.actionName || slugifyActionName(payload.method, payload.url);
-        parsed.httpMethod = parsed.httpMethod || payload.method;
+        parsed.httpMethod = parsed.httpMethod || toHttpMethod(payload.method);
       }
       if (!parsed.functionCode && payload.functionCode) {
         parsed.functionCode = payload.functionCode;
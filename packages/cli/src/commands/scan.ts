@@ -3,8 +3,8 @@
  */
 
 import { config as loadEnv } from "dotenv";
-import { ScanResult } from "@api-surface/types";
-import { ApiScanner } from "@api-surface/core";
+import { ScanConfig, ScanResult, RequiredSystemParam } from "@api-surface/types";
+import { ApiScanner, WorkspaceScanner } from "@api-surface/core";
 // @ts-ignore - loadConfig export exists but dist needs rebuild
 import {
   loadConfig,
@@ -12,6 +12,7 @@ import {
   writeFunctionCodePerEndpoint,
   formatSummary,
   extractSystemParamsFromApiCalls,
+  DEFAULT_CACHE_DIR,
 } from "@api-surface/core";
 import * as fs from "fs/promises";
 import * as path from "path";
@@ -21,6 +22,7 @@ import {
   resolveDiscoveredPath,
 } from "./discover-api-dependencies";
 import { handleActions } from "./actions";
+import { watchAndRescan } from "./watch";
 
 export interface ScanOptions {
   root?: string;
@@ -35,6 +37,16 @@ export interface ScanOptions {
   generateActions?: boolean;
   /** Directory to write action JSON files when --generate-actions is set (default: actions). */
   actionsOutputDir?: string;
+  /** false with --no-cache: analyze every file instead of replaying unchanged files */
+  cache?: boolean;
+  /** Scan cache directory (default: .api-surface/cache under the root) */
+  cacheDir?: string;
+  /** Worker threads for detection (default: CPU count) */
+  concurrency?: string;
+  /** Keep running and rescan changed files (and their dependents) on every change */
+  watch?: boolean;
+  /** Scan each workspace package separately and attribute calls to packages */
+  workspaces?: boolean;
 }
 
 export async function handleScan(
@@ -80,10 +92,33 @@ export async function handleScan(
       config.apiRoutesDir = options.apiRoutesDir.trim() || undefined;
     }
 
+    // Scan cache overrides (--no-cache / --cache-dir)
+    if (options.cache === false) {
+      config.cache = false;
+    }
+    if (options.cacheDir) {
+      config.cacheDir = path.resolve(process.cwd(), options.cacheDir);
+    }
+
+    // Override worker thread count if provided via CLI
+    if (options.concurrency !== undefined) {
+      const concurrency = Number.parseInt(options.concurrency, 10);
+      if (!Number.isInteger(concurrency) || concurrency < 1) {
+        console.error(`Error: --concurrency must be a positive integer`);
+        process.exit(1);
+      }
+      config.concurrency = concurrency;
+    }
+
+    if (options.workspaces) {
+      config.workspaces = true;
+    }
+
     console.log(`Using config from: ${options.config || "defaults"}`);
 
     // When API routes dir is set, optionally use AI to discover more dependencies so we don't miss any
-    if (config.apiRoutesDir?.trim()) {
+    // (not for workspaces: apiRoutesDir is relative to each package there)
+    if (config.apiRoutesDir?.trim() && !config.workspaces) {
       loadEnv();
       const anthropicKey = process.env.ANTHROPIC_API_KEY;
       const openaiKey = process.env.OPENAI_API_KEY;
@@ -121,76 +156,39 @@ export async function handleScan(
 
     // Perform scan
     console.log(`Scanning ${rootDir}...`);
-    const scanner = new ApiScanner(config);
+    const scanner = config.workspaces
+      ? new WorkspaceScanner(config)
+      : new ApiScanner(config);
     const result: ScanResult = await scanner.scan();
 
-    // Extract required system params from function code and optionally add AI descriptions
-    const systemParamsWithContext = extractSystemParamsFromApiCalls(
-      result.apiCalls,
-    );
-    if (systemParamsWithContext.length > 0) {
-      loadEnv();
-      try {
-        result.requiredSystemParams = await describeSystemParamsWithAi(
-          systemParamsWithContext,
-          {
-            anthropicKey: process.env.ANTHROPIC_API_KEY,
-            openaiKey: process.env.OPENAI_API_KEY,
-          },
-        );
-        if (
-          result.requiredSystemParams.some((p) => p.description) &&
-          options.output
-        ) {
-          console.log(
-            `\n✓ Described ${result.requiredSystemParams.filter((p) => p.description).length} system parameter(s) (AI).`,
-          );
-        }
-      } catch (e) {
-        // Fallback: include param names without descriptions
-        result.requiredSystemParams = systemParamsWithContext.map((p) => ({
-          name: p.name,
-        }));
-        if (options.output) {
-          console.warn(
-            `  ⚠ Could not get AI descriptions for system params: ${e instanceof Error ? e.message : String(e)}`,
-          );
-        }
-      }
-    }
+    // Workspaces: API function output is filtered by the API routes dir of every package
+    const apiRoutesRoots =
+      scanner instanceof WorkspaceScanner
+        ? (await scanner.getPackageConfigs())
+            .filter((packageConfig) => packageConfig.apiRoutesDir?.trim())
+            .map((packageConfig) =>
+              path.resolve(packageConfig.rootDir, packageConfig.apiRoutesDir!.trim()),
+            )
+        : undefined;
+
+    await addRequiredSystemParams(result, options);
 
     // Output results
+    const summary = formatSummary(result);
+    console.log(summary);
+    const functionFiles = await writeScanOutput(result, config, options, {
+      apiRoutesRoots,
+    });
     if (options.output) {
-      // Write normalized JSON output
-      const outputPath = path.resolve(process.cwd(), options.output);
-      await writeResults(result, {
-        outputPath,
-        includeRaw: false,
-        pretty: true,
-      });
-
-      // Display summary
-      const summary = formatSummary(result);
-      console.log(summary);
-      console.log(`\n✓ Results saved to ${outputPath}`);
-    } else {
-      // Display summary only
-      const summary = formatSummary(result);
-      console.log(summary);
+      console.log(`\n✓ Results saved to ${path.resolve(process.cwd(), options.output)}`);
     }
 
-    // If functionCodeOutputDir is set, write one JSON file per endpoint (API function only when apiRoutesDir is set)
+    // If functionCodeOutputDir is set, one JSON file per endpoint was written (API function only when apiRoutesDir is set)
     if (config.functionCodeOutputDir) {
       const functionCodeDir = path.resolve(
         process.cwd(),
         config.functionCodeOutputDir,
       );
-      await writeFunctionCodePerEndpoint(result.apiCalls, functionCodeDir, {
-        pretty: true,
-        apiFunctionOnly: !!config.apiRoutesDir,
-        apiRoutesDir: config.apiRoutesDir,
-        rootDir: config.rootDir,
-      });
       console.log(`\n✓ Function code per endpoint saved to ${functionCodeDir}`);
 
       // Optionally generate action JSON directly from the scan (includes inner routes)
@@ -206,6 +204,30 @@ export async function handleScan(
         console.log(`\n✓ Action JSON saved to ${actionsDir}`);
       }
     }
+
+    if (options.watch) {
+      // Rescans reuse the scanner (its cache and parsed project) and skip the AI steps
+      await watchAndRescan({
+        rootDir,
+        scanner,
+        initialResult: result,
+        initialFunctionFiles: functionFiles,
+        ignoredPaths: [
+          ...(options.output ? [path.resolve(process.cwd(), options.output)] : []),
+          ...(config.functionCodeOutputDir
+            ? [path.resolve(process.cwd(), config.functionCodeOutputDir)]
+            : []),
+          path.resolve(rootDir, config.cacheDir?.trim() || DEFAULT_CACHE_DIR),
+        ],
+        onResult: async (next, previous, previousFunctionFiles) => {
+          await addRequiredSystemParams(next, options, previous.requiredSystemParams ?? []);
+          return writeScanOutput(next, config, options, {
+            apiRoutesRoots,
+            previousFunctionFiles,
+          });
+        },
+      });
+    }
   } catch (error) {
     console.error(
       "Error during scan:",
@@ -214,3 +236,113 @@ export async function handleScan(
     process.exit(1);
   }
 }
+
+/**
+ * Extract required system params from function code and add descriptions: from the AI, or
+ * from `previousParams` by name when given (watch rescans do not call the AI again)
+ */
+async function addRequiredSystemParams(
+  result: ScanResult,
+  options: ScanOptions,
+  previousParams?: RequiredSystemParam[],
+): Promise<void> {
+  const systemParamsWithContext = extractSystemParamsFromApiCalls(
+    result.apiCalls,
+  );
+  if (systemParamsWithContext.length === 0) {
+    return;
+  }
+
+  if (previousParams) {
+    const descriptions = new Map(
+      previousParams.map((p) => [p.name, p.description]),
+    );
+    result.requiredSystemParams = systemParamsWithContext.map((p) => ({
+      name: p.name,
+      ...(descriptions.get(p.name) ? { description: descriptions.get(p.name) } : {}),
+    }));
+    return;
+  }
+
+  loadEnv();
+  try {
+    result.requiredSystemParams = await describeSystemParamsWithAi(
+      systemParamsWithContext,
+      {
+        anthropicKey: process.env.ANTHROPIC_API_KEY,
+        openaiKey: process.env.OPENAI_API_KEY,
+      },
+    );
+    if (
+      result.requiredSystemParams.some((p) => p.description) &&
+      options.output
+    ) {
+      console.log(
+        `\n✓ Described ${result.requiredSystemParams.filter((p) => p.description).length} system parameter(s) (AI).`,
+      );
+    }
+  } catch (e) {
+    // Fallback: include param names without descriptions
+    result.requiredSystemParams = systemParamsWithContext.map((p) => ({
+      name: p.name,
+    }));
+    if (options.output) {
+      console.warn(
+        `  ⚠ Could not get AI descriptions for system params: ${e instanceof Error ? e.message : String(e)}`,
+      );
+    }
+  }
+}
+
+/**
+ * Write the normalized results (-o) and one JSON file per endpoint (functionCodeOutputDir).
+ * Returns the function JSON filenames; files of `previousFunctionFiles` that were not written
+ * again belong to endpoints that no longer exist and are removed.
+ */
+async function writeScanOutput(
+  result: ScanResult,
+  config: ScanConfig,
+  options: ScanOptions,
+  output: {
+    /** API route directories of all workspace packages (workspace scans) */
+    apiRoutesRoots?: string[];
+    previousFunctionFiles?: string[];
+  } = {},
+): Promise<string[]> {
+  if (options.output) {
+    await writeResults(result, {
+      outputPath: path.resolve(process.cwd(), options.output),
+      includeRaw: false,
+      pretty: true,
+    });
+  }
+
+  if (!config.functionCodeOutputDir) {
+    return [];
+  }
+  const functionCodeDir = path.resolve(
+    process.cwd(),
+    config.functionCodeOutputDir,
+  );
+  const written = await writeFunctionCodePerEndpoint(
+    result.apiCalls,
+    functionCodeDir,
+    {
+      pretty: true,
+      apiFunctionOnly: output.apiRoutesRoots
+        ? output.apiRoutesRoots.length > 0
+        : !!config.apiRoutesDir,
+      apiRoutesDir: config.apiRoutesDir,
+      rootDir: config.rootDir,
+      apiRoutesRoots: output.apiRoutesRoots,
+      routes: result.routes,
+    },
+  );
+  const current = new Set(written);
+  for (const file of output.previousFunctionFiles ?? []) {
+    if (!current.has(file)) {
+      await fs.rm(path.join(functionCodeDir, file), { force: true });
+    }
+  }
+  return written;
+}
@@ -0,0 +1,269 @@
+/**
+ * Watch mode for scan - rescan on source changes and keep the scan output up to date
+ */
+
+import { ScanResult } from "@api-surface/types";
+import { normalizeResults } from "@api-surface/core";
+import * as fs from "fs";
+import * as path from "path";
+
+/** Wait for this long after the last change before rescanning (editors save in bursts) */
+const DEBOUNCE_MS = 300;
+
+/** Only changes to these files trigger a rescan */
+const WATCHED_EXTENSIONS = new Set([
+  ".ts",
+  ".tsx",
+  ".js",
+  ".jsx",
+  ".mjs",
+  ".cjs",
+  ".vue",
+  ".svelte",
+  ".astro",
+  ".json",
+]);
+
+/** Directory names whose contents never trigger a rescan */
+const IGNORED_DIRS = new Set([
+  "node_modules",
+  ".git",
+  ".next",
+  ".api-surface",
+  "dist",
+  "build",
+  "coverage",
+]);
+
+export interface WatchOptions {
+  rootDir: string;
+  /** Scanner of the initial scan; its cache makes rescans analyze only changed files and their dependents */
+  scanner: { scan(): Promise<ScanResult> };
+  initialResult: ScanResult;
+  /** Function JSON filenames written by the initial scan */
+  initialFunctionFiles: string[];
+  /** Files / directories written by the scan itself (results file, function code dir, cache) */
+  ignoredPaths: string[];
+  /** Write the output of a rescan; returns the function JSON filenames written */
+  onResult: (
+    result: ScanResult,
+    previous: ScanResult,
+    previousFunctionFiles: string[],
+  ) => Promise<string[]>;
+}
+
+/**
+ * Watch rootDir and rescan after changes until SIGINT / SIGTERM. Rescans run one at a time;
+ * changes during a rescan are picked up by the next one. Prints the added / removed endpoints.
+ */
+export async function watchAndRescan(options: WatchOptions): Promise<void> {
+  const { rootDir, scanner } = options;
+  let previous = options.initialResult;
+  let previousFunctionFiles = options.initialFunctionFiles;
+  const changedFiles = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+  let running = false;
+
+  const rescan = async (): Promise<void> => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      while (changedFiles.size > 0) {
+        const changed = Array.from(changedFiles);
+        changedFiles.clear();
+        console.log(
+          `\nChange detected: ${changed.map((file) => path.relative(rootDir, file)).join(", ")}`,
+        );
+        try {
+          const result = await scanner.scan();
+          previousFunctionFiles = await options.onResult(
+            result,
+            previous,
+            previousFunctionFiles,
+          );
+          printEndpointDelta(previous, result);
+          previous = result;
+        } catch (error) {
+          console.error(
+            "Error during rescan:",
+            error instanceof Error ? error.message : String(error),
+          );
+        }
+      }
+    } finally {
+      running = false;
+    }
+    console.log("\nWatching for changes... (Ctrl+C to stop)");
+  };
+
+  const onChange = (filePath: string): void => {
+    if (!isWatchedFile(filePath, rootDir, options.ignoredPaths)) return;
+    changedFiles.add(filePath);
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => void rescan(), DEBOUNCE_MS);
+  };
+
+  await new Promise<void>((resolve) => {
+    let closeWatcher = (): void => {};
+    const stop = () => {
+      if (timer) clearTimeout(timer);
+      closeWatcher();
+      resolve();
+    };
+    closeWatcher = watchTree(rootDir, options.ignoredPaths, onChange, (error) => {
+      console.error("Watcher failed:", error.message);
+      stop();
+    });
+    process.once("SIGINT", stop);
+    process.once("SIGTERM", stop);
+    console.log("\nWatching for changes... (Ctrl+C to stop)");
+  });
+}
+
+/**
+ * Watch rootDir recursively; returns a function that stops watching. Where recursive fs.watch is
+ * unavailable (Linux before Node 20) every directory gets its own watcher, and directories
+ * created later are watched as they appear.
+ */
+function watchTree(
+  rootDir: string,
+  ignoredPaths: string[],
+  onChange: (filePath: string) => void,
+  onError: (error: Error) => void,
+): () => void {
+  try {
+    const watcher = fs.watch(rootDir, { recursive: true }, (_event, filename) => {
+      if (filename) onChange(path.resolve(rootDir, filename.toString()));
+    });
+    watcher.on("error", onError);
+    return () => watcher.close();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ERR_FEATURE_UNAVAILABLE_ON_PLATFORM") {
+      throw error;
+    }
+  }
+
+  const watchers = new Map<string, fs.FSWatcher>();
+  const watchDirectory = (dir: string): void => {
+    if (watchers.has(dir) || isIgnoredDirectory(dir, rootDir, ignoredPaths)) return;
+    let watcher: fs.FSWatcher;
+    try {
+      watcher = fs.watch(dir, (_event, filename) => {
+        if (!filename) return;
+        const filePath = path.join(dir, filename.toString());
+        if (isDirectory(filePath)) {
+          watchDirectory(filePath);
+        } else {
+          onChange(filePath);
+        }
+      });
+    } catch {
+      // Removed or unreadable meanwhile
+      return;
+    }
+    watcher.on("error", () => {
+      // The directory was removed: drop its watcher, keep the others
+      watcher.close();
+      watchers.delete(dir);
+    });
+    watchers.set(dir, watcher);
+    let entries: fs.Dirent[] = [];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      // Unreadable directory: only its own changes are seen
+    }
+    for (const entry of entries) {
+      if (entry.isDirectory()) watchDirectory(path.join(dir, entry.name));
+    }
+  };
+
+  watchDirectory(rootDir);
+  if (!watchers.has(rootDir)) {
+    onError(new Error(`Cannot watch ${rootDir}`));
+  }
+  return () => {
+    for (const watcher of watchers.values()) watcher.close();
+    watchers.clear();
+  };
+}
+
+function isIgnoredDirectory(
+  dir: string,
+  rootDir: string,
+  ignoredPaths: string[],
+): boolean {
+  return (
+    ignoredPaths.some(
+      (ignored) => dir === ignored || dir.startsWith(ignored + path.sep),
+    ) ||
+    path
+      .relative(rootDir, dir)
+      .split(path.sep)
+      .some((segment) => IGNORED_DIRS.has(segment))
+  );
+}
+
+function isDirectory(filePath: string): boolean {
+  try {
+    return fs.statSync(filePath).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+function isWatchedFile(
+  filePath: string,
+  rootDir: string,
+  ignoredPaths: string[],
+): boolean {
+  if (!WATCHED_EXTENSIONS.has(path.extname(filePath))) {
+    return false;
+  }
+  if (
+    ignoredPaths.some(
+      (ignored) =>
+        filePath === ignored || filePath.startsWith(ignored + path.sep),
+    )
+  ) {
+    return false;
+  }
+  return !path
+    .relative(rootDir, filePath)
+    .split(path.sep)
+    .some((segment) => IGNORED_DIRS.has(segment));
+}
+
+/**
+ * Print endpoints added / removed since the previous scan (+ POST /api/users)
+ */
+function printEndpointDelta(previous: ScanResult, current: ScanResult): void {
+  const before = getEndpointLabels(previous);
+  const after = getEndpointLabels(current);
+  const added = Array.from(after).filter((label) => !before.has(label));
+  const removed = Array.from(before).filter((label) => !after.has(label));
+
+  if (added.length === 0 && removed.length === 0) {
+    console.log(`No endpoint changes (${after.size} endpoint(s))`);
+    return;
+  }
+  console.log(
+    `Endpoints: ${added.length} added, ${removed.length} removed (${after.size} total)`,
+  );
+  added.forEach((label) => console.log(`  + ${label}`));
+  removed.forEach((label) => console.log(`  - ${label}`));
+}
+
+function getEndpointLabels(result: ScanResult): Set<string> {
+  return new Set(
+    normalizeResults(result.apiCalls).endpoints.map(
+      (endpoint) =>
+        `${endpoint.method} ${endpoint.baseUrl ?? ""}${endpoint.url}` +
+        (endpoint.graphql?.operationName
+          ? ` (${endpoint.graphql.operationName})`
+          : ""),
+    ),
+  );
+}
@@ -4,6 +4,7 @@
 
 import { spawn, type ChildProcess } from "child_process";
 import { config as loadEnv } from "dotenv";
+import { watchFile, unwatchFile } from "fs";
 import * as fs from "fs/promises";
 import * as http from "http";
 import open from "open";
@@ -133,6 +134,30 @@ export async function startDashboardServer(
         return;
       }
 
+      // Server-sent events: "scan" whenever the results file is rewritten (e.g. by scan --watch)
+      if (pathname === "/api/scan-result/events") {
+        const filePath = resolvePath(
+          cwd,
+          query.path || "results/restoinspect.json",
+        );
+        res.writeHead(200, {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          Connection: "keep-alive",
+        });
+        res.write(": subscribed\n\n");
+        const onChange = (curr: { mtimeMs: number }) => {
+          if (curr.mtimeMs > 0 && !res.writableEnded) {
+            res.write(
+              `event: scan\ndata: ${JSON.stringify({ mtime: curr.mtimeMs })}\n\n`,
+            );
+          }
+        };
+        watchFile(filePath, { interval: 1000 }, onChange);
+        req.on("close", () => unwatchFile(filePath, onChange));
+        return;
+      }
+
       if (pathname === "/api/functions/list") {
         const dir = resolvePath(cwd, query.dir || "functions/");
         try {
@@ -1924,7 +1949,19 @@ const DASHBOARD_HTML = `<!DOCTYPE html>
       try { return JSON.parse(text); } catch { return text; }
     }
 
+    // Reload the scan result and function list when the results file changes (scan --watch)
+    let scanEvents = null;
+    let scanEventsPath = null;
+    function subscribeScanUpdates() {
+      if (typeof EventSource === 'undefined' || scanEventsPath === scanOutputPath()) return;
+      if (scanEvents) scanEvents.close();
+      scanEventsPath = scanOutputPath();
+      scanEvents = new EventSource('/api/scan-result/events?path=' + encodeURIComponent(scanEventsPath));
+      scanEvents.addEventListener('scan', () => { loadScan(); loadFunctions(); });
+    }
+
     async function loadScan() {
+      subscribeScanUpdates();
       const el = document.getElementById('scanBody');
       try {
         const data = await api('/api/scan-result?path=' + encodeURIComponent(scanOutputPath()));
@@ -0,0 +1,173 @@
+/**
+ * Component scripts - Vue single-file components, Svelte components and Astro pages hold their
+ * code in <script> blocks (and Astro in its `---` frontmatter). Each component is parsed through a
+ * virtual TypeScript file next to it (App.vue -> App.vue.ts) that keeps the script blocks at their
+ * original offsets and blanks out everything else, so line / column positions in the virtual file
+ * are positions in the component. Contexts and API calls use the component's own path.
+ */
+
+import * as fs from "fs";
+import { Project, SourceFile } from "ts-morph";
+
+/** File extensions whose script blocks are scanned */
+export const COMPONENT_FILE_EXTENSIONS = [".vue", ".svelte", ".astro"];
+
+/** Virtual file extensions: .tsx when a block is lang="tsx" / "jsx", .ts otherwise */
+const VIRTUAL_EXTENSIONS = [".ts", ".tsx"];
+
+const SCRIPT_BLOCK_RE = /<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi;
+
+/** Astro frontmatter: a `---` fence on the first line, closed by the next `---` line */
+const ASTRO_FRONTMATTER_RE = /^(\s*---[^\S\r\n]*\r?\n)([\s\S]*?)(\r?\n---)[^\S\r\n]*(?:\r?\n|$)/;
+
+/** <script type="..."> values that hold code (anything else, e.g. application/ld+json, is data) */
+const SCRIPT_TYPES = new Set([
+  "",
+  "module",
+  "text/javascript",
+  "application/javascript",
+  "text/typescript",
+  "application/typescript",
+]);
+
+export interface ComponentScript {
+  /** Path of the virtual source file (component path + .ts / .tsx) */
+  virtualPath: string;
+  /** Component text with everything outside script code replaced by whitespace */
+  text: string;
+}
+
+/**
+ * Check if a file is a Vue / Svelte / Astro component
+ */
+export function isComponentFile(filePath: string): boolean {
+  const lower = filePath.toLowerCase();
+  return COMPONENT_FILE_EXTENSIONS.some((extension) => lower.endsWith(extension));
+}
+
+/**
+ * The component of a virtual script file path (App.vue.ts -> App.vue), undefined for other paths
+ */
+export function getComponentFilePath(virtualPath: string): string | undefined {
+  for (const extension of VIRTUAL_EXTENSIONS) {
+    if (virtualPath.endsWith(extension)) {
+      const componentPath = virtualPath.slice(0, -extension.length);
+      if (isComponentFile(componentPath)) {
+        return componentPath;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Extract the script code of a component: Vue <script> / <script setup>, Svelte <script> /
+ * <script context="module">, Astro frontmatter and <script> tags. Offsets, lines and columns are
+ * unchanged; a `;` replaces the first character of each closing tag / fence so blocks stay
+ * separate statements.
+ */
+export function extractComponentScript(filePath: string, content: string): ComponentScript {
+  const chars = content.replace(/[^\r\n]/g, " ").split("");
+  let jsx = false;
+
+  // Copy content[start, end) and put a `;` on the closing tag / fence at `close`
+  const keep = (start: number, end: number, close: number) => {
+    for (let i = start; i < end; i++) {
+      chars[i] = content[i];
+    }
+    chars[close] = ";";
+  };
+
+  if (filePath.toLowerCase().endsWith(".astro")) {
+    const frontmatter = ASTRO_FRONTMATTER_RE.exec(content);
+    if (frontmatter) {
+      const start = frontmatter[1].length;
+      const end = start + frontmatter[2].length;
+      keep(start, end, end + frontmatter[3].indexOf("-"));
+    }
+  }
+
+  SCRIPT_BLOCK_RE.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = SCRIPT_BLOCK_RE.exec(content)) !== null) {
+    const attributes = match[1];
+    const type = getAttribute(attributes, "type")?.toLowerCase() ?? "";
+    if (!SCRIPT_TYPES.has(type) || getAttribute(attributes, "src") !== undefined) {
+      continue;
+    }
+    const lang = getAttribute(attributes, "lang")?.toLowerCase();
+    if (lang === "tsx" || lang === "jsx") {
+      jsx = true;
+    }
+    const start = match.index + match[0].indexOf(">") + 1;
+    const end = start + match[2].length;
+    keep(start, end, end);
+  }
+
+  return {
+    virtualPath: filePath + (jsx ? ".tsx" : ".ts"),
+    text: chars.join(""),
+  };
+}
+
+/**
+ * The project's source file for filePath (for a component, its virtual script file);
+ * undefined when it is not in the project
+ */
+export function getProjectSourceFile(project: Project, filePath: string): SourceFile | undefined {
+  if (!isComponentFile(filePath)) {
+    return project.getSourceFile(filePath);
+  }
+  for (const extension of VIRTUAL_EXTENSIONS) {
+    const sourceFile = project.getSourceFile(filePath + extension);
+    if (sourceFile) {
+      return sourceFile;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Add filePath to the project (a component is added as its virtual script file). Throws when
+ * the file cannot be read.
+ */
+export function addProjectSourceFile(project: Project, filePath: string): SourceFile {
+  if (!isComponentFile(filePath)) {
+    return project.addSourceFileAtPath(filePath);
+  }
+  const script = extractComponentScript(filePath, fs.readFileSync(filePath, "utf-8"));
+  return project.createSourceFile(script.virtualPath, script.text, { overwrite: true });
+}
+
+/**
+ * Re-extract a component's virtual script file after the component changed on disk.
+ * Throws when the component was deleted.
+ */
+export function refreshComponentSourceFile(
+  project: Project,
+  sourceFile: SourceFile,
+  componentPath: string,
+): void {
+  const script = extractComponentScript(componentPath, fs.readFileSync(componentPath, "utf-8"));
+  if (script.virtualPath !== sourceFile.getFilePath()) {
+    // lang changed between ts and tsx: recreate under the other extension
+    project.removeSourceFile(sourceFile);
+    project.createSourceFile(script.virtualPath, script.text, { overwrite: true });
+  } else if (sourceFile.getFullText() !== script.text) {
+    sourceFile.replaceWithText(script.text);
+  }
+}
+
+/**
+ * Value of an attribute of a start tag ("" for a bare attribute like `setup`), undefined when absent
+ */
+function getAttribute(attributes: string, name: string): string | undefined {
+  const match = new RegExp(
+    `(?:^|\\s)${name}(?=[\\s=/]|$)(?:\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"'>]+)))?`,
+    "i",
+  ).exec(attributes);
+  if (!match) {
+    return undefined;
+  }
+  return match[1] ?? match[2] ?? match[3] ?? "";
+}
@@ -4,11 +4,14 @@
 
 import { SourceFile, ImportDeclaration, ImportSpecifier, Project, Node } from 'ts-morph';
 import * as path from 'path';
+import { getModuleResolver } from './module-resolver';
 
 export interface ImportInfo {
   moduleSpecifier: string;
   defaultImport?: string;
   namedImports: string[];
+  /** Local name -> exported name of each named import (import { useQuery as useTQ } -> useTQ: useQuery) */
+  namedImportNames: Record<string, string>;
   namespaceImport?: string;
   isTypeOnly: boolean;
   line: number;
@@ -45,11 +48,13 @@ export class AstContext {
 
       // Get named imports
       const namedImports: string[] = [];
+      const namedImportNames: Record<string, string> = {};
       const namedImportsNode = importDecl.getNamedImports();
       for (const namedImport of namedImportsNode) {
         const name = namedImport.getName();
         const alias = namedImport.getAliasNode()?.getText();
         namedImports.push(alias || name);
+        namedImportNames[alias || name] = name;
       }
 
       // Get position
@@ -59,6 +64,7 @@ export class AstContext {
         moduleSpecifier,
         defaultImport,
         namedImports,
+        namedImportNames,
         namespaceImport,
         isTypeOnly,
         line,
@@ -92,36 +98,10 @@ export class AstContext {
   }
 
   /**
-   * Get the resolved path of an import
+   * Get the resolved path of an import (tsconfig paths / baseUrl, package.json imports and exports)
    */
   resolveImportPath(moduleSpecifier: string): string | null {
-    try {
-      // Try to resolve using TypeScript's compiler API
-      const ts = require('typescript');
-      const compilerOptions = this.project.getCompilerOptions();
-      const moduleResolutionHost = {
-        fileExists: (fileName: string) => {
-          const sourceFile = this.project.getSourceFile(fileName);
-          return sourceFile !== undefined;
-        },
-        readFile: (fileName: string) => {
-          const sourceFile = this.project.getSourceFile(fileName);
-          return sourceFile?.getFullText() || undefined;
-        },
-        getCurrentDirectory: () => this.getDirectoryPath(),
-      };
-
-      const resolved = ts.resolveModuleName(
-        moduleSpecifier,
-        this.filePath,
-        compilerOptions,
-        moduleResolutionHost
-      );
-
-      return resolved.resolvedModule?.resolvedFileName || null;
-    } catch {
-      return null;
-    }
+    return getModuleResolver(this.project).resolve(moduleSpecifier, this.filePath);
   }
 
   /**
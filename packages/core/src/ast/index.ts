@@ -2,6 +2,8 @@
  * AST module exports
  */
 
+export * from './component-script';
 export * from './context';
+export * from './module-resolver';
 export * from './parser';
 export * from './visitor';
@@ -0,0 +1,446 @@
+/**
+ * Module resolver - resolves import specifiers to files on disk the way the project's
+ * bundler / TypeScript would: relative paths, tsconfig `paths` and `baseUrl` (the compiler
+ * options already include `extends` chains), package.json `imports` (#server/*) and the
+ * `exports` / `main` of packages in node_modules (symlinked workspace packages resolve to
+ * their source directory). Shared by related-file discovery, detectors, function extraction
+ * and the scan cache's dependency graph.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { Project, ResolutionHostFactory, ts } from "ts-morph";
+
+/** Extensions tried for extensionless specifiers, in order */
+const RESOLVE_EXTENSIONS = [".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"];
+
+/** Emitted extension -> source extensions (import "./user.js" from user.ts) */
+const SOURCE_EXTENSIONS: Record<string, string[]> = {
+  ".js": [".ts", ".tsx"],
+  ".jsx": [".tsx"],
+  ".mjs": [".mts"],
+  ".cjs": [".cts"],
+};
+
+/** Conditions of package.json `exports` / `imports`, in order of preference (source before build output) */
+const EXPORT_CONDITIONS = ["types", "source", "import", "module", "require", "node", "default"];
+
+/** Zero-config aliases used when tsconfig `paths` do not match: @/x and ~/x -> <rootDir>/x or <rootDir>/src/x */
+const ROOT_ALIASES = ["@/", "~/"];
+
+const resolversByProject = new WeakMap<Project, ModuleResolver>();
+
+/**
+ * The resolver of a ts-morph project (created on first use from the project's compiler options).
+ * rootDir is the scan root, used for the @/ and ~/ fallback; the first caller that passes it wins.
+ */
+export function getModuleResolver(project: Project, rootDir?: string): ModuleResolver {
+  let resolver = resolversByProject.get(project);
+  if (!resolver) {
+    resolver = new ModuleResolver(project.getCompilerOptions(), rootDir);
+    resolversByProject.set(project, resolver);
+  }
+  return resolver;
+}
+
+/**
+ * Use `resolver` for a project (the one its resolution host was created with)
+ */
+export function registerModuleResolver(project: Project, resolver: ModuleResolver): void {
+  resolversByProject.set(project, resolver);
+}
+
+/**
+ * ts-morph resolution host: TypeScript's own module resolution, then the ModuleResolver for
+ * specifiers TypeScript does not resolve (package.json `imports` under moduleResolution "node",
+ * the @/ and ~/ fallback), so that symbols imported through them are followed by the type checker
+ */
+export function createResolutionHost(
+  getResolver: (compilerOptions: ts.CompilerOptions) => ModuleResolver,
+): ResolutionHostFactory {
+  return (moduleResolutionHost, getCompilerOptions) => ({
+    resolveModuleNames(moduleNames, containingFile) {
+      const compilerOptions = getCompilerOptions();
+      return moduleNames.map((moduleName) => {
+        const { resolvedModule } = ts.resolveModuleName(
+          moduleName,
+          containingFile,
+          compilerOptions,
+          moduleResolutionHost,
+        );
+        if (resolvedModule) {
+          return resolvedModule;
+        }
+        const resolved = getResolver(compilerOptions).resolve(moduleName, containingFile);
+        const extension = resolved ? getTsExtension(resolved) : undefined;
+        return resolved && extension
+          ? { resolvedFileName: resolved, extension, isExternalLibraryImport: false }
+          : undefined;
+      });
+    },
+  });
+}
+
+/**
+ * Resolves module specifiers to absolute file paths (null for unresolvable / built-in modules)
+ */
+export class ModuleResolver {
+  private resolved = new Map<string, string | null>();
+  private packageJsons = new Map<string, Record<string, any> | null>();
+  private pathsBase: string | undefined;
+
+  constructor(
+    private compilerOptions: ts.CompilerOptions,
+    private rootDir?: string,
+  ) {
+    // Without baseUrl, paths are relative to the tsconfig that declares them (set by the config parser)
+    this.pathsBase =
+      compilerOptions.baseUrl ??
+      (compilerOptions.pathsBasePath as string | undefined) ??
+      (compilerOptions.configFilePath
+        ? path.dirname(compilerOptions.configFilePath as string)
+        : rootDir);
+  }
+
+  /**
+   * Resolve `specifier` imported from `fromFile`
+   */
+  resolve(specifier: string, fromFile: string): string | null {
+    const cacheKey = `${path.dirname(fromFile)}\0${specifier}`;
+    if (this.resolved.has(cacheKey)) {
+      return this.resolved.get(cacheKey)!;
+    }
+    const resolved = this.resolveUncached(specifier, fromFile);
+    this.resolved.set(cacheKey, resolved);
+    return resolved;
+  }
+
+  /**
+   * Forget resolutions (files may have been added or removed since)
+   */
+  clearCache(): void {
+    this.resolved.clear();
+    this.packageJsons.clear();
+  }
+
+  private resolveUncached(specifier: string, fromFile: string): string | null {
+    if (specifier.startsWith(".") || path.isAbsolute(specifier)) {
+      return this.resolveFile(path.resolve(path.dirname(fromFile), specifier));
+    }
+    if (specifier.startsWith("#")) {
+      return this.resolvePackageImports(specifier, fromFile);
+    }
+
+    const fromPaths = this.resolveTsconfigPaths(specifier);
+    if (fromPaths) {
+      return fromPaths;
+    }
+    if (this.compilerOptions.baseUrl) {
+      const fromBaseUrl = this.resolveFile(path.resolve(this.compilerOptions.baseUrl, specifier));
+      if (fromBaseUrl) {
+        return fromBaseUrl;
+      }
+    }
+
+    const fromPackage = this.resolvePackage(specifier, fromFile);
+    if (fromPackage) {
+      return fromPackage;
+    }
+
+    const alias = ROOT_ALIASES.find((prefix) => specifier.startsWith(prefix));
+    if (alias && this.rootDir) {
+      const rest = specifier.slice(alias.length);
+      return (
+        this.resolveFile(path.join(this.rootDir, rest)) ??
+        this.resolveFile(path.join(this.rootDir, "src", rest))
+      );
+    }
+    return null;
+  }
+
+  /**
+   * compilerOptions.paths: exact keys, then the wildcard pattern with the longest prefix;
+   * every target of the matching pattern is tried in order
+   */
+  private resolveTsconfigPaths(specifier: string): string | null {
+    const paths = this.compilerOptions.paths;
+    if (!paths || !this.pathsBase) {
+      return null;
+    }
+
+    let best: { pattern: string; captured: string } | undefined;
+    for (const pattern of Object.keys(paths)) {
+      if (pattern === specifier) {
+        best = { pattern, captured: "" };
+        break;
+      }
+      const captured = matchWildcard(pattern, specifier);
+      if (captured !== null && (!best || pattern.indexOf("*") > best.pattern.indexOf("*"))) {
+        best = { pattern, captured };
+      }
+    }
+    if (!best) {
+      return null;
+    }
+
+    for (const target of paths[best.pattern]) {
+      const resolved = this.resolveFile(
+        path.resolve(this.pathsBase, target.replace("*", best.captured)),
+      );
+      if (resolved) {
+        return resolved;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * package.json `imports` of the nearest package (import "#server/db")
+   */
+  private resolvePackageImports(specifier: string, fromFile: string): string | null {
+    const packageDir = this.findPackageDir(path.dirname(fromFile));
+    const imports = packageDir ? this.readPackageJson(packageDir)?.imports : undefined;
+    const target = imports ? matchSubpathMap(imports, specifier) : null;
+    return target && packageDir ? this.resolveTarget(packageDir, target) : null;
+  }
+
+  /**
+   * A package from node_modules (walking up from the importing file): `exports`, then `main`,
+   * then the package directory / subpath. Symlinked workspace packages resolve to their real path.
+   */
+  private resolvePackage(specifier: string, fromFile: string): string | null {
+    const parts = specifier.split("/");
+    const packageName = specifier.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0];
+    const subpath = specifier.slice(packageName.length);
+    if (!packageName) {
+      return null;
+    }
+
+    let dir = path.dirname(fromFile);
+    while (true) {
+      const candidate = path.join(dir, "node_modules", packageName);
+      if (fs.existsSync(candidate)) {
+        const packageDir = realpath(candidate);
+        const packageJson = this.readPackageJson(packageDir);
+        if (packageJson?.exports !== undefined) {
+          const target = matchSubpathMap(normalizeExports(packageJson.exports), `.${subpath}`);
+          return target ? this.resolveTarget(packageDir, target) : null;
+        }
+        if (!subpath && typeof packageJson?.main === "string") {
+          return (
+            this.resolveFile(path.resolve(packageDir, packageJson.main)) ??
+            this.resolveFile(packageDir)
+          );
+        }
+        return this.resolveFile(path.join(packageDir, subpath));
+      }
+      const parent = path.dirname(dir);
+      if (parent === dir) {
+        return null;
+      }
+      dir = parent;
+    }
+  }
+
+  /**
+   * A file for an `exports` / `imports` target (./dist/index.js also tries ./dist/index.ts)
+   */
+  private resolveTarget(packageDir: string, target: string): string | null {
+    return this.resolveFile(path.resolve(packageDir, target));
+  }
+
+  /**
+   * The file itself, its TypeScript source for an emitted extension, the path with an extension,
+   * or the directory's package.json main / index file
+   */
+  private resolveFile(candidate: string): string | null {
+    if (isFile(candidate)) {
+      return candidate;
+    }
+
+    const ext = path.extname(candidate);
+    for (const sourceExt of SOURCE_EXTENSIONS[ext] ?? []) {
+      const source = candidate.slice(0, -ext.length) + sourceExt;
+      if (isFile(source)) {
+        return source;
+      }
+    }
+
+    for (const extension of RESOLVE_EXTENSIONS) {
+      if (isFile(candidate + extension)) {
+        return candidate + extension;
+      }
+    }
+
+    if (isDirectory(candidate)) {
+      const main = this.readPackageJson(candidate)?.main;
+      if (typeof main === "string" && path.resolve(candidate, main) !== candidate) {
+        const resolvedMain = this.resolveFile(path.resolve(candidate, main));
+        if (resolvedMain) {
+          return resolvedMain;
+        }
+      }
+      for (const extension of RESOLVE_EXTENSIONS) {
+        const indexFile = path.join(candidate, `index${extension}`);
+        if (isFile(indexFile)) {
+          return indexFile;
+        }
+      }
+    }
+    return null;
+  }
+
+  private findPackageDir(startDir: string): string | null {
+    let dir = startDir;
+    while (true) {
+      if (this.readPackageJson(dir)) {
+        return dir;
+      }
+      const parent = path.dirname(dir);
+      if (parent === dir || path.basename(dir) === "node_modules") {
+        return null;
+      }
+      dir = parent;
+    }
+  }
+
+  private readPackageJson(dir: string): Record<string, any> | null {
+    if (!this.packageJsons.has(dir)) {
+      let packageJson: Record<string, any> | null = null;
+      try {
+        packageJson = JSON.parse(fs.readFileSync(path.join(dir, "package.json"), "utf-8"));
+      } catch {
+        // No (readable) package.json
+      }
+      this.packageJsons.set(dir, packageJson);
+    }
+    return this.packageJsons.get(dir)!;
+  }
+}
+
+/**
+ * `exports` as a subpath map: a string / array / conditions object is the "." entry
+ */
+function normalizeExports(exportsField: unknown): Record<string, unknown> {
+  if (
+    exportsField &&
+    typeof exportsField === "object" &&
+    !Array.isArray(exportsField) &&
+    Object.keys(exportsField).some((key) => key.startsWith("."))
+  ) {
+    return exportsField as Record<string, unknown>;
+  }
+  return { ".": exportsField };
+}
+
+/**
+ * Target path for a subpath in an `exports` / `imports` map: exact key, or the wildcard
+ * key with the longest prefix ("./utils/*", "#server/*")
+ */
+function matchSubpathMap(map: Record<string, unknown>, subpath: string): string | null {
+  if (subpath in map) {
+    return pickTarget(map[subpath], "");
+  }
+  let best: { key: string; captured: string } | undefined;
+  for (const key of Object.keys(map)) {
+    const captured = matchWildcard(key, subpath);
+    if (captured !== null && (!best || key.indexOf("*") > best.key.indexOf("*"))) {
+      best = { key, captured };
+    }
+  }
+  return best ? pickTarget(map[best.key], best.captured) : null;
+}
+
+/**
+ * First usable target: a string, the first match of an array, or the preferred condition
+ */
+function pickTarget(target: unknown, captured: string): string | null {
+  if (typeof target === "string") {
+    return target.replace(/\*/g, captured);
+  }
+  if (Array.isArray(target)) {
+    for (const item of target) {
+      const picked = pickTarget(item, captured);
+      if (picked) return picked;
+    }
+    return null;
+  }
+  if (target && typeof target === "object") {
+    const conditions = target as Record<string, unknown>;
+    for (const condition of EXPORT_CONDITIONS) {
+      if (condition in conditions) {
+        const picked = pickTarget(conditions[condition], captured);
+        // "types" may point at a .d.ts next to the source; prefer a real module when there is one
+        if (picked && !(condition === "types" && picked.endsWith(".d.ts"))) {
+          return picked;
+        }
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Text matched by the `*` of a pattern ("@lib/*" against "@lib/http" -> "http"), null when no match
+ */
+function matchWildcard(pattern: string, value: string): string | null {
+  const star = pattern.indexOf("*");
+  if (star === -1) {
+    return null;
+  }
+  const prefix = pattern.slice(0, star);
+  const suffix = pattern.slice(star + 1);
+  if (
+    value.length < prefix.length + suffix.length ||
+    !value.startsWith(prefix) ||
+    !value.endsWith(suffix)
+  ) {
+    return null;
+  }
+  return value.slice(prefix.length, value.length - suffix.length);
+}
+
+/**
+ * TypeScript extension of a resolved file (undefined for files the compiler does not load)
+ */
+function getTsExtension(filePath: string): ts.Extension | undefined {
+  if (filePath.endsWith(".d.ts")) {
+    return ts.Extension.Dts;
+  }
+  const extensions: Record<string, ts.Extension> = {
+    ".ts": ts.Extension.Ts,
+    ".tsx": ts.Extension.Tsx,
+    ".mts": ts.Extension.Mts,
+    ".cts": ts.Extension.Cts,
+    ".js": ts.Extension.Js,
+    ".jsx": ts.Extension.Jsx,
+    ".mjs": ts.Extension.Mjs,
+    ".cjs": ts.Extension.Cjs,
+    ".json": ts.Extension.Json,
+  };
+  return extensions[path.extname(filePath)];
+}
+
+function isFile(filePath: string): boolean {
+  try {
+    return fs.statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+}
+
+function isDirectory(filePath: string): boolean {
+  try {
+    return fs.statSync(filePath).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+function realpath(filePath: string): string {
+  try {
+    return fs.realpathSync(filePath);
+  } catch {
+    return filePath;
+  }
+}
@@ -5,6 +5,18 @@
 import { Project, SourceFile, CompilerOptions } from 'ts-morph';
 import * as path from 'path';
 import { AstContext } from './context';
+import {
+  createResolutionHost,
+  getModuleResolver,
+  ModuleResolver,
+  registerModuleResolver,
+} from './module-resolver';
+import {
+  addProjectSourceFile,
+  getComponentFilePath,
+  getProjectSourceFile,
+  refreshComponentSourceFile,
+} from './component-script';
 
 export interface AstParserOptions {
   rootDir: string;
@@ -67,7 +79,18 @@ export class AstParser {
       };
     }
 
-    return new Project(projectOptions);
+    // Import resolution for the project (also behind its type checker); @/ and ~/ fall back to
+    // rootDir when tsconfig has no paths
+    let resolver: ModuleResolver | undefined;
+    projectOptions.resolutionHost = createResolutionHost(
+      (options) => (resolver ??= new ModuleResolver(options, rootDir)),
+    );
+    const project = new Project(projectOptions);
+    registerModuleResolver(
+      project,
+      (resolver ??= new ModuleResolver(project.getCompilerOptions(), rootDir)),
+    );
+    return project;
   }
 
   /**
@@ -97,12 +120,12 @@ export class AstParser {
         ? filePath 
         : path.resolve(this.options.rootDir, filePath);
 
-      // Check if file is already in project
-      let sourceFile = this.project.getSourceFile(absolutePath);
+      // Check if file is already in project (.vue / .svelte / .astro: their virtual script file)
+      let sourceFile = getProjectSourceFile(this.project, absolutePath);
 
       // If not, add it to the project
       if (!sourceFile) {
-        sourceFile = this.project.addSourceFileAtPath(absolutePath);
+        sourceFile = addProjectSourceFile(this.project, absolutePath);
       }
 
       if (!sourceFile) {
@@ -139,6 +162,25 @@ export class AstParser {
     return this.project;
   }
 
+  /**
+   * Re-read source files that changed on disk since they were parsed (deleted files are removed)
+   */
+  refresh(): void {
+    getModuleResolver(this.project).clearCache();
+    for (const sourceFile of this.project.getSourceFiles()) {
+      try {
+        const componentPath = getComponentFilePath(sourceFile.getFilePath());
+        if (componentPath) {
+          refreshComponentSourceFile(this.project, sourceFile, componentPath);
+        } else {
+          sourceFile.refreshFromFileSystemSync();
+        }
+      } catch {
+        this.project.removeSourceFile(sourceFile);
+      }
+    }
+  }
+
   /**
    * Clear all source files from the project
    */
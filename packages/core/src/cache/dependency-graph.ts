@@ -0,0 +1,127 @@
+/**
+ * File dependency graph for the scan cache - content hashes and resolved local imports,
+ * read with a lightweight import scan (no ts-morph parsing).
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { ModuleResolver } from "../ast/module-resolver";
+
+/** import x from "m" / export { x } from "m" / import "m" / require("m") / import("m") */
+const IMPORT_SPECIFIER_RE =
+  /(?:\bfrom\s*|\bimport\s*|\brequire\s*\(\s*|\bimport\s*\(\s*)["']([^"'\n]+)["']/g;
+
+/**
+ * Content hashes and local import edges between project files
+ */
+export class FileDependencyGraph {
+  private hashes = new Map<string, string>();
+  private imports = new Map<string, string[]>();
+  private importers: Map<string, Set<string>> | undefined;
+
+  /**
+   * @param files - Files of the scan (used to find importers)
+   * @param resolver - The project's module resolver (tsconfig paths, package imports / exports)
+   */
+  constructor(
+    private files: string[],
+    private resolver: ModuleResolver,
+  ) {}
+
+  /**
+   * Register a file listing (the route files under apiRoutesDir) as a dependency named `key`:
+   * its hash changes when a file is added or removed, not when one is edited
+   */
+  addListing(key: string, files: string[]): void {
+    this.hashes.set(key, crypto.createHash("sha1").update(files.join("\n")).digest("hex"));
+    this.imports.set(key, []);
+  }
+
+  /**
+   * SHA-1 of the file content ("" when the file cannot be read, e.g. deleted)
+   */
+  getHash(filePath: string): string {
+    this.read(filePath);
+    return this.hashes.get(filePath)!;
+  }
+
+  /**
+   * Project files imported by the file (node_modules and declaration files excluded)
+   */
+  getImports(filePath: string): string[] {
+    this.read(filePath);
+    return this.imports.get(filePath)!;
+  }
+
+  /**
+   * The file and everything it imports, transitively
+   */
+  getImportClosure(filePath: string): string[] {
+    return this.walk(filePath, (file) => this.getImports(file));
+  }
+
+  /**
+   * The file and every scanned file that imports it, transitively
+   */
+  getImporterClosure(filePath: string): string[] {
+    if (!this.importers) {
+      this.importers = new Map();
+      for (const file of this.files) {
+        for (const imported of this.getImports(file)) {
+          if (!this.importers.has(imported)) {
+            this.importers.set(imported, new Set());
+          }
+          this.importers.get(imported)!.add(file);
+        }
+      }
+    }
+    return this.walk(filePath, (file) => Array.from(this.importers!.get(file) ?? []));
+  }
+
+  private walk(start: string, next: (file: string) => string[]): string[] {
+    const seen = new Set<string>([start]);
+    const queue = [start];
+    while (queue.length > 0) {
+      for (const file of next(queue.shift()!)) {
+        if (!seen.has(file)) {
+          seen.add(file);
+          queue.push(file);
+        }
+      }
+    }
+    return Array.from(seen);
+  }
+
+  private read(filePath: string): void {
+    if (this.hashes.has(filePath)) {
+      return;
+    }
+
+    let content: string;
+    try {
+      content = fs.readFileSync(filePath, "utf-8");
+    } catch {
+      this.hashes.set(filePath, "");
+      this.imports.set(filePath, []);
+      return;
+    }
+
+    this.hashes.set(filePath, crypto.createHash("sha1").update(content).digest("hex"));
+
+    const resolved = new Set<string>();
+    IMPORT_SPECIFIER_RE.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = IMPORT_SPECIFIER_RE.exec(content)) !== null) {
+      const resolvedFile = this.resolver.resolve(match[1], filePath);
+      if (
+        resolvedFile &&
+        !resolvedFile.endsWith(".d.ts") &&
+        !resolvedFile.includes(`${path.sep}node_modules${path.sep}`)
+      ) {
+        resolved.add(resolvedFile);
+      }
+    }
+    this.imports.set(filePath, Array.from(resolved));
+  }
+}
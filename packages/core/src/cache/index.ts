@@ -0,0 +1,6 @@
+/**
+ * Cache module exports
+ */
+
+export * from "./scan-cache";
+export * from "./dependency-graph";
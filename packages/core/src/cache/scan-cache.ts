@@ -0,0 +1,192 @@
+/**
+ * Scan cache - persists per-file scan results (detected API calls plus extraction fields)
+ * so unchanged files are replayed instead of parsed and analyzed again.
+ *
+ * An entry is valid when the scan fingerprint (cache format, core version, detector versions,
+ * relevant config) matches and every file it depends on still has the recorded content hash:
+ * the file itself, the files it imports (URL constants, client wrappers), and for files with
+ * API calls also the files importing it (response usage) and the route handler / function files
+ * its calls were extracted from. Files calling API routes also depend on the listing of route
+ * files under apiRoutesDir, so adding a handler re-resolves its callers.
+ */
+
+import * as crypto from "crypto";
+import * as fsSync from "fs";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { ApiCall } from "@api-surface/types";
+import { FileDependencyGraph } from "./dependency-graph";
+
+/** Bump when the cache file layout or the meaning of stored fields changes */
+const CACHE_FORMAT_VERSION = 3;
+
+const CACHE_FILE_NAME = "scan-cache.json";
+
+/** Default cache directory, relative to the scanned root */
+export const DEFAULT_CACHE_DIR = ".api-surface/cache";
+
+interface CacheEntry {
+  /** File path -> content hash of every file this entry's results depend on */
+  dependencies: Record<string, string>;
+  apiCalls: ApiCall[];
+}
+
+interface CacheFile {
+  version: number;
+  fingerprint: string;
+  entries: Record<string, CacheEntry>;
+}
+
+/**
+ * Persistent per-file scan results
+ */
+export class ScanCache {
+  private constructor(
+    /** undefined for an in-memory cache (not persisted) */
+    private cacheFilePath: string | undefined,
+    readonly fingerprint: string,
+    private entries: Map<string, CacheEntry>,
+  ) {}
+
+  /**
+   * Cache that only lives as long as the scanner (repeated scans in watch mode with the disk cache off)
+   */
+  static inMemory(fingerprint: string): ScanCache {
+    return new ScanCache(undefined, fingerprint, new Map());
+  }
+
+  /**
+   * Open the cache in cacheDir; entries written with another fingerprint are dropped
+   */
+  static async open(cacheDir: string, fingerprint: string): Promise<ScanCache> {
+    const cacheFilePath = path.join(cacheDir, CACHE_FILE_NAME);
+    let entries = new Map<string, CacheEntry>();
+    try {
+      const data = JSON.parse(await fs.readFile(cacheFilePath, "utf-8")) as CacheFile;
+      if (data.version === CACHE_FORMAT_VERSION && data.fingerprint === fingerprint) {
+        entries = new Map(Object.entries(data.entries));
+      }
+    } catch {
+      // No cache yet or unreadable - start empty
+    }
+    return new ScanCache(cacheFilePath, fingerprint, entries);
+  }
+
+  /**
+   * Files of this scan whose cached results can be replayed. A changed or new file also
+   * invalidates cached files with API calls that it imports (their response usage may differ).
+   */
+  getValidFiles(files: string[], graph: FileDependencyGraph): Set<string> {
+    const valid = new Set(files.filter((file) => this.isEntryValid(file, graph)));
+    if (this.entries.size === 0) {
+      return valid;
+    }
+    for (const file of files) {
+      if (valid.has(file)) continue;
+      for (const imported of graph.getImportClosure(file)) {
+        if (this.entries.get(imported)?.apiCalls.length) {
+          valid.delete(imported);
+        }
+      }
+    }
+    return valid;
+  }
+
+  /**
+   * Cached API calls of a file (call getValidFiles first)
+   */
+  get(filePath: string): ApiCall[] | undefined {
+    return this.entries.get(filePath)?.apiCalls;
+  }
+
+  /**
+   * Store a file's final API calls with the hashes of the files they depend on, plus
+   * extraDependencies (listings registered on the graph)
+   */
+  set(
+    filePath: string,
+    apiCalls: ApiCall[],
+    graph: FileDependencyGraph,
+    extraDependencies: string[] = [],
+  ): void {
+    const dependencies = new Set([...graph.getImportClosure(filePath), ...extraDependencies]);
+    if (apiCalls.length > 0) {
+      graph.getImporterClosure(filePath).forEach((file) => dependencies.add(file));
+      for (const call of apiCalls) {
+        if (call.functionFile) {
+          graph.getImportClosure(call.functionFile).forEach((file) => dependencies.add(file));
+        }
+      }
+    }
+
+    this.entries.set(filePath, {
+      dependencies: Object.fromEntries(
+        Array.from(dependencies).map((file) => [file, graph.getHash(file)]),
+      ),
+      apiCalls,
+    });
+  }
+
+  /**
+   * Drop entries of files that are no longer part of the scan
+   */
+  prune(files: string[]): void {
+    const scanned = new Set(files);
+    for (const filePath of this.entries.keys()) {
+      if (!scanned.has(filePath)) {
+        this.entries.delete(filePath);
+      }
+    }
+  }
+
+  /**
+   * Write the cache file (temp file + rename, so an interrupted write never leaves a torn cache)
+   */
+  async save(): Promise<void> {
+    if (!this.cacheFilePath) {
+      return;
+    }
+    const data: CacheFile = {
+      version: CACHE_FORMAT_VERSION,
+      fingerprint: this.fingerprint,
+      entries: Object.fromEntries(this.entries),
+    };
+    await fs.mkdir(path.dirname(this.cacheFilePath), { recursive: true });
+    const tempPath = `${this.cacheFilePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data), "utf-8");
+    await fs.rename(tempPath, this.cacheFilePath);
+  }
+
+  private isEntryValid(filePath: string, graph: FileDependencyGraph): boolean {
+    const entry = this.entries.get(filePath);
+    if (!entry || !(filePath in entry.dependencies)) {
+      return false;
+    }
+    return Object.entries(entry.dependencies).every(([file, hash]) => graph.getHash(file) === hash);
+  }
+}
+
+/**
+ * Content hashes of files outside the scan that affect its results (plugin modules)
+ */
+export function hashFiles(files: string[]): Record<string, string> {
+  const hashes: Record<string, string> = {};
+  for (const file of files) {
+    try {
+      hashes[file] = crypto.createHash("sha1").update(fsSync.readFileSync(file)).digest("hex");
+    } catch {
+      hashes[file] = "";
+    }
+  }
+  return hashes;
+}
+
+/**
+ * Fingerprint of everything besides file contents that affects scan results
+ */
+export function createCacheFingerprint(parts: Record<string, unknown>): string {
+  return crypto
+    .createHash("sha1")
+    .update(JSON.stringify({ format: CACHE_FORMAT_VERSION, ...parts }))
+    .digest("hex");
+}
@@ -5,7 +5,7 @@
 import { ScanConfig } from "@api-surface/types";
 
 export const DEFAULT_CONFIG: Partial<ScanConfig> = {
-  include: ["**/*.{js,jsx,ts,tsx}"],
+  include: ["**/*.{js,jsx,ts,tsx,vue,svelte,astro}"],
   exclude: [
     "**/node_modules/**",
     "**/dist/**",
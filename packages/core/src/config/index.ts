@@ -7,4 +7,4 @@ export * from "./schema";
 export * from "./defaults";
 export { validateConfig } from "./validator";
 export { ConfigFileSchema, ScanConfigSchema } from "./schema";
-export type { ConfigFileInput, ConfigInput, ApiClientConfigInput } from "./schema";
+export type { ConfigFileInput, ConfigInput, ApiClientConfigInput, PluginConfigInput } from "./schema";
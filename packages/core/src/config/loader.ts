@@ -6,7 +6,7 @@ import * as fs from "fs/promises";
 import * as path from "path";
 import { ScanConfig } from "@api-surface/types";
 import { DEFAULT_CONFIG } from "./defaults";
-import { ConfigFileSchema } from "./schema";
+import { ConfigFileSchema, ConfigFileInput } from "./schema";
 
 export interface LoadConfigOptions {
   rootDir: string;
@@ -38,6 +38,29 @@ export async function loadConfig(
   return await loadConfigFromFile(resolvedPath, rootDir);
 }
 
+/**
+ * Load only the fields set in the config file of a directory, without defaults
+ * (e.g. a workspace package's overrides of the root config). Null when there is no config file.
+ */
+export async function loadConfigOverrides(
+  dir: string,
+): Promise<ConfigFileInput | null> {
+  const configPath = await findDefaultConfig(dir);
+  if (!configPath) {
+    return null;
+  }
+  try {
+    return validateConfigFile(await readConfigFile(configPath));
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new Error(
+        `Failed to load config from ${configPath}: ${error.message}`,
+      );
+    }
+    throw error;
+  }
+}
+
 /**
  * Find default config file in directory
  */
@@ -70,19 +93,7 @@ async function loadConfigFromFile(
   rootDir: string,
 ): Promise<ScanConfig> {
   try {
-    const ext = path.extname(configPath).toLowerCase();
-    let rawConfig: unknown;
-
-    if (ext === ".json") {
-      // Load JSON config
-      const content = await fs.readFile(configPath, "utf-8");
-      rawConfig = JSON.parse(content);
-    } else if (ext === ".ts" || ext === ".js") {
-      // Load TypeScript/JavaScript config
-      rawConfig = await loadTypeScriptConfig(configPath);
-    } else {
-      throw new Error(`Unsupported config file extension: ${ext}`);
-    }
+    const rawConfig = await readConfigFile(configPath);
 
     // Validate and merge with defaults
     const validated = validateAndMerge(rawConfig, rootDir);
@@ -97,6 +108,23 @@ async function loadConfigFromFile(
   }
 }
 
+/**
+ * Read a JSON / TypeScript / JavaScript config file (not validated)
+ */
+async function readConfigFile(configPath: string): Promise<unknown> {
+  const ext = path.extname(configPath).toLowerCase();
+  if (ext === ".json") {
+    // Load JSON config
+    const content = await fs.readFile(configPath, "utf-8");
+    return JSON.parse(content);
+  }
+  if (ext === ".ts" || ext === ".js") {
+    // Load TypeScript/JavaScript config
+    return await loadTypeScriptConfig(configPath);
+  }
+  throw new Error(`Unsupported config file extension: ${ext}`);
+}
+
 /**
  * Load TypeScript/JavaScript config file
  */
@@ -122,28 +150,34 @@ async function loadTypeScriptConfig(configPath: string): Promise<unknown> {
  * Validate configuration and merge with defaults
  */
 function validateAndMerge(rawConfig: unknown, rootDir: string): ScanConfig {
+  const validated = validateConfigFile(rawConfig);
+
+  // Merge with defaults
+  const merged: ScanConfig = {
+    ...DEFAULT_CONFIG,
+    ...validated,
+    // Merge arrays properly
+    include: validated.include ?? DEFAULT_CONFIG.include,
+    exclude: validated.exclude ?? DEFAULT_CONFIG.exclude,
+    apiClients: validated.apiClients ?? DEFAULT_CONFIG.apiClients,
+    functionCodeOutputDir:
+      validated.functionCodeOutputDir ?? DEFAULT_CONFIG.functionCodeOutputDir,
+    maxFunctionLines:
+      validated.maxFunctionLines ?? DEFAULT_CONFIG.maxFunctionLines,
+    apiRoutesDir: validated.apiRoutesDir ?? DEFAULT_CONFIG.apiRoutesDir,
+    // rootDir always comes from the function parameter, not config file
+    rootDir,
+  };
+
+  return merged;
+}
+
+/**
+ * Validate a config file's contents against the config file schema (doesn't include rootDir)
+ */
+function validateConfigFile(rawConfig: unknown): ConfigFileInput {
   try {
-    // Validate using config file schema (doesn't include rootDir)
-    const validated = ConfigFileSchema.parse(rawConfig);
-
-    // Merge with defaults
-    const merged: ScanConfig = {
-      ...DEFAULT_CONFIG,
-      ...validated,
-      // Merge arrays properly
-      include: validated.include ?? DEFAULT_CONFIG.include,
-      exclude: validated.exclude ?? DEFAULT_CONFIG.exclude,
-      apiClients: validated.apiClients ?? DEFAULT_CONFIG.apiClients,
-      functionCodeOutputDir:
-        validated.functionCodeOutputDir ?? DEFAULT_CONFIG.functionCodeOutputDir,
-      maxFunctionLines:
-        validated.maxFunctionLines ?? DEFAULT_CONFIG.maxFunctionLines,
-      apiRoutesDir: validated.apiRoutesDir ?? DEFAULT_CONFIG.apiRoutesDir,
-      // rootDir always comes from the function parameter, not config file
-      rootDir,
-    };
-
-    return merged;
+    return ConfigFileSchema.parse(rawConfig);
   } catch (error) {
     if (error instanceof Error && error.name === "ZodError") {
       const zodError = error as any;
@@ -8,8 +8,21 @@ export const ApiClientConfigSchema = z.object({
   type: z.enum(["fetch", "axios", "custom"]),
   name: z.string().optional(),
   patterns: z.array(z.string()).optional(),
+  /** Custom clients: method name -> HTTP verb (e.g. { list: "GET" }) */
+  methods: z.record(z.string()).optional(),
+  /** Custom clients: position of the URL argument (default 0) */
+  urlArgIndex: z.number().int().nonnegative().optional(),
 });
 
+/** Plugin: module specifier, or { module, options } passed to the plugin factory */
+export const PluginConfigSchema = z.union([
+  z.string().min(1),
+  z.object({
+    module: z.string().min(1),
+    options: z.record(z.unknown()).optional(),
+  }),
+]);
+
 // Schema for config file (rootDir is not in config files, it's set by CLI)
 export const ConfigFileSchema = z.object({
   include: z.array(z.string()).optional(),
@@ -24,6 +37,15 @@ export const ConfigFileSchema = z.object({
   maxFunctionLines: z.number().int().positive().optional(),
   /** Directory where API route handlers live (e.g. "src/app/api") */
   apiRoutesDir: z.string().optional(),
+  /** Detector plugins (npm packages or local files exporting Detector implementations) */
+  plugins: z.array(PluginConfigSchema).optional(),
+  /** Scan cache: replay results of unchanged files (default true) and where to store them */
+  cache: z.boolean().optional(),
+  cacheDir: z.string().optional(),
+  /** Worker threads for detection (default: CPU count) */
+  concurrency: z.number().int().positive().optional(),
+  /** Scan each workspace package separately (package.json "workspaces" / pnpm-workspace.yaml) */
+  workspaces: z.boolean().optional(),
 });
 
 // Full schema for final ScanConfig (includes rootDir)
@@ -34,3 +56,4 @@ export const ScanConfigSchema = ConfigFileSchema.extend({
 export type ConfigInput = z.infer<typeof ScanConfigSchema>;
 export type ConfigFileInput = z.infer<typeof ConfigFileSchema>;
 export type ApiClientConfigInput = z.infer<typeof ApiClientConfigSchema>;
+export type PluginConfigInput = z.infer<typeof PluginConfigSchema>;
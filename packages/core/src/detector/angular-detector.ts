@@ -0,0 +1,282 @@
+/**
+ * Angular HttpClient Detector
+ * Detects this.http.get<User[]>(url), http.post(url, body) and http.request('GET', url) on an
+ * HttpClient injected through the constructor (constructor(private http: HttpClient)),
+ * a field initialized with inject(HttpClient), or a local const http = inject(HttpClient).
+ * Records the generic response type argument and the service method name as functionName.
+ */
+
+import {
+  Node,
+  SyntaxKind,
+  CallExpression,
+  ClassDeclaration,
+  GetAccessorDeclaration,
+  MethodDeclaration,
+  PropertyAccessExpression,
+  PropertyDeclaration,
+} from "ts-morph";
+import { BaseDetector } from "./detector";
+import { AstContext } from "../ast/context";
+import { ScanConfig, ApiCall } from "@api-surface/types";
+import { extractUrl, resolveStringValue } from "./url-resolver";
+
+type Confidence = "high" | "medium" | "low";
+
+export interface AngularDetectionResult {
+  method: string;
+  url: string;
+  confidence: Confidence;
+}
+
+const ANGULAR_HTTP_MODULE = "@angular/common/http";
+
+/** HttpClient methods: method name -> HTTP method (request takes the method as its first argument) */
+const HTTP_CLIENT_METHODS: Record<string, string> = {
+  get: "GET",
+  post: "POST",
+  put: "PUT",
+  patch: "PATCH",
+  delete: "DELETE",
+  head: "HEAD",
+  options: "OPTIONS",
+  jsonp: "GET",
+  request: "REQUEST",
+};
+
+/** Max base classes followed when looking for an injected HttpClient (class ApiService extends BaseApi) */
+const MAX_BASE_CLASS_DEPTH = 5;
+
+/**
+ * Detector for Angular HttpClient calls
+ */
+export class AngularHttpDetector extends BaseDetector {
+  readonly id = "angular";
+  readonly name = "Angular HttpClient Detector";
+
+  // Cache per file: whether the file imports from @angular/common/http
+  private importCache = new Map<string, boolean>();
+
+  /**
+   * Only detect on CallExpression nodes
+   */
+  shouldDetect(node: Node): boolean {
+    return node.getKind() === SyntaxKind.CallExpression;
+  }
+
+  /**
+   * Detect HttpClient calls
+   */
+  detect(node: Node, context: AstContext, config: ScanConfig): ApiCall | null {
+    if (!this.shouldDetect(node)) {
+      return null;
+    }
+
+    const callExpr = node as CallExpression;
+    const callee = callExpr.getExpression();
+    if (!Node.isPropertyAccessExpression(callee)) {
+      return null;
+    }
+
+    const clientMethod = callee.getName();
+    if (!HTTP_CLIENT_METHODS[clientMethod]) {
+      return null;
+    }
+
+    const confidenceCap = this.getHttpClientConfidence(callee, context);
+    if (!confidenceCap) {
+      return null;
+    }
+
+    // http.request('POST', url, options) vs http.get(url, options)
+    const args = callExpr.getArguments();
+    const isRequest = clientMethod === "request";
+    const urlArg = isRequest ? args[1] : args[0];
+    if (!urlArg) {
+      return null;
+    }
+
+    const urlResult = extractUrl(urlArg);
+    const detection: AngularDetectionResult = {
+      method: isRequest ? this.extractMethod(args[0]) : HTTP_CLIENT_METHODS[clientMethod],
+      url: urlResult.url,
+      confidence: confidenceCap === "medium" && urlResult.confidence === "high" ? "medium" : urlResult.confidence,
+    };
+
+    // Log detection for validation
+    this.logDetection(context, detection, callExpr);
+
+    const apiCall = this.createApiCall(
+      detection.method,
+      detection.url,
+      "angular",
+      callExpr,
+      context,
+      detection.confidence,
+    );
+
+    // this.http.get<User[]>(url) -> "User[]"
+    const typeArgument = callExpr.getTypeArguments()[0];
+    if (typeArgument) {
+      apiCall.responseType = typeArgument.getText();
+    }
+
+    // Service method containing the call (also when it is inside a pipe / switchMap callback)
+    const serviceMethod = this.getServiceMethodName(callExpr);
+    if (serviceMethod) {
+      apiCall.functionName = serviceMethod;
+    }
+    return apiCall;
+  }
+
+  /**
+   * Whether the receiver is an injected HttpClient: high when found through the class members /
+   * inject(HttpClient) and the file imports @angular/common/http, medium when only the type says so
+   */
+  private getHttpClientConfidence(
+    callee: PropertyAccessExpression,
+    context: AstContext,
+  ): Confidence | null {
+    const receiver = callee.getExpression();
+    const importsAngularHttp = this.importsAngularHttp(context);
+
+    // this.http.get(...)
+    if (Node.isPropertyAccessExpression(receiver) && receiver.getExpression().getKind() === SyntaxKind.ThisKeyword) {
+      const classNode = receiver.getFirstAncestorByKind(SyntaxKind.ClassDeclaration);
+      if (classNode && this.classHasHttpClientMember(classNode, receiver.getName(), 0)) {
+        return importsAngularHttp ? "high" : "medium";
+      }
+    }
+
+    // const http = inject(HttpClient); http.get(...) / constructor(http: HttpClient) { http.get(...) }
+    if (Node.isIdentifier(receiver)) {
+      try {
+        for (const definition of receiver.getDefinitionNodes()) {
+          if (
+            (Node.isVariableDeclaration(definition) && isInjectHttpClient(definition.getInitializer())) ||
+            (Node.isParameterDeclaration(definition) && isHttpClientTypeNode(definition.getTypeNode()))
+          ) {
+            return importsAngularHttp ? "high" : "medium";
+          }
+        }
+      } catch {
+        // Definition lookup failed - fall back to the type
+      }
+    }
+
+    // Type checker (works when @angular/common is installed)
+    try {
+      if (receiver.getType().getSymbol()?.getName() === "HttpClient") {
+        return "medium";
+      }
+    } catch {
+      // Type checking failed
+    }
+    return null;
+  }
+
+  /**
+   * Class (or a base class) has `name` as constructor(private http: HttpClient) or http = inject(HttpClient)
+   */
+  private classHasHttpClientMember(classNode: ClassDeclaration, name: string, depth: number): boolean {
+    for (const ctor of classNode.getConstructors()) {
+      for (const parameter of ctor.getParameters()) {
+        if (
+          parameter.getName() === name &&
+          parameter.isParameterProperty() &&
+          isHttpClientTypeNode(parameter.getTypeNode())
+        ) {
+          return true;
+        }
+      }
+    }
+
+    const property = classNode.getProperty(name);
+    if (
+      property &&
+      (isHttpClientTypeNode(property.getTypeNode()) || isInjectHttpClient(property.getInitializer()))
+    ) {
+      return true;
+    }
+
+    // this.http = http assigned in the constructor from an HttpClient parameter
+    for (const ctor of classNode.getConstructors()) {
+      const assigned = ctor.getParameters().some(
+        (parameter) =>
+          isHttpClientTypeNode(parameter.getTypeNode()) &&
+          ctor
+            .getDescendantsOfKind(SyntaxKind.BinaryExpression)
+            .some(
+              (binary) =>
+                binary.getLeft().getText() === `this.${name}` &&
+                binary.getRight().getText() === parameter.getName(),
+            ),
+      );
+      if (assigned) {
+        return true;
+      }
+    }
+
+    if (depth >= MAX_BASE_CLASS_DEPTH) {
+      return false;
+    }
+    const baseClass = classNode.getBaseClass();
+    return baseClass ? this.classHasHttpClientMember(baseClass, name, depth + 1) : false;
+  }
+
+  private importsAngularHttp(context: AstContext): boolean {
+    const cacheKey = context.filePath;
+    const cached = this.importCache.get(cacheKey);
+    if (cached !== undefined) {
+      return cached;
+    }
+    const result = context.getImports().some((imp) => imp.moduleSpecifier === ANGULAR_HTTP_MODULE);
+    this.importCache.set(cacheKey, result);
+    return result;
+  }
+
+  /**
+   * Name of the class member that contains the call: getUsers() { ... } / getUsers = () => ...
+   */
+  private getServiceMethodName(callExpr: CallExpression): string | undefined {
+    const member = callExpr.getFirstAncestor(
+      (ancestor): ancestor is MethodDeclaration | PropertyDeclaration | GetAccessorDeclaration =>
+        Node.isMethodDeclaration(ancestor) ||
+        Node.isPropertyDeclaration(ancestor) ||
+        Node.isGetAccessorDeclaration(ancestor),
+    );
+    return member?.getName();
+  }
+
+  /**
+   * HTTP method from http.request('POST', url)
+   */
+  private extractMethod(node: Node | undefined): string {
+    if (!node) {
+      return "GET";
+    }
+    return resolveStringValue(node)?.toUpperCase() ?? node.getText();
+  }
+
+  /**
+   * Clear import cache (useful for testing or when file changes)
+   */
+  clearCache(): void {
+    this.importCache.clear();
+  }
+}
+
+/** inject(HttpClient) */
+function isInjectHttpClient(node: Node | undefined): boolean {
+  return (
+    !!node &&
+    Node.isCallExpression(node) &&
+    node.getExpression().getText() === "inject" &&
+    node.getArguments()[0]?.getText() === "HttpClient"
+  );
+}
+
+/** `: HttpClient` type annotation */
+function isHttpClientTypeNode(node: Node | undefined): boolean {
+  return !!node && node.getText() === "HttpClient";
+}
@@ -8,15 +8,17 @@ import {
   SyntaxKind,
   CallExpression,
   StringLiteral,
-  TemplateExpression,
   Identifier,
   ObjectLiteralExpression,
   PropertyAssignment,
   PropertyAccessExpression,
 } from "ts-morph";
+import * as path from "path";
 import { BaseDetector } from "./detector";
 import { AstContext } from "../ast/context";
-import { ScanConfig, ApiCall } from "@api-surface/types";
+import { ScanConfig, ApiCall, ClientDefaults } from "@api-surface/types";
+import { extractUrl, resolveUrlExpression } from "./url-resolver";
+import { extractAxiosRequestShape } from "./request-shape";
 
 type Confidence = "high" | "medium" | "low";
 
@@ -26,6 +28,15 @@ export interface AxiosDetectionResult {
   confidence: Confidence;
 }
 
+/**
+ * Settings of an axios instance: axios.create({ baseURL, headers, withCredentials, timeout })
+ * plus `instance.defaults.X = ...` assignments in the defining file
+ */
+export interface AxiosInstanceInfo {
+  baseUrl?: string;
+  defaults: ClientDefaults;
+}
+
 /**
  * HTTP methods supported by axios
  */
@@ -58,6 +69,9 @@ const DEFAULT_AXIOS_WRAPPER_PATTERNS = [
   "~/lib/axios",
 ];
 
+/** Max identifier hops when following an instance reference to axios.create() */
+const MAX_INSTANCE_DEPTH = 3;
+
 /**
  * Detector for axios API calls
  */
@@ -76,6 +90,9 @@ export class AxiosDetector extends BaseDetector {
     }
   >();
 
+  // Cache for resolved axios instances per file + identifier (null = not an axios.create() instance)
+  private instanceCache = new Map<string, AxiosInstanceInfo | null>();
+
   /**
    * Only detect on CallExpression nodes
    */
@@ -116,7 +133,7 @@ export class AxiosDetector extends BaseDetector {
     this.logDetection(context, detection, callExpr);
 
     // Create ApiCall
-    return this.createApiCall(
+    const apiCall = this.createApiCall(
       detection.method,
       detection.url,
       "axios",
@@ -124,6 +141,26 @@ export class AxiosDetector extends BaseDetector {
       context,
       detection.confidence,
     );
+
+    // Record the instance base URL and defaults (api = axios.create({ baseURL, ... }))
+    const instance = axiosInfo.instance;
+    if (instance?.baseUrl) {
+      apiCall.baseUrl = instance.baseUrl;
+    }
+    if (instance && Object.keys(instance.defaults).length > 0) {
+      apiCall.clientDefaults = instance.defaults;
+    }
+
+    // Body (data), headers and params from the call arguments
+    const request = extractAxiosRequestShape(
+      axiosInfo.method,
+      callExpr.getArguments(),
+      axiosInfo.callType === "request",
+    );
+    if (request) {
+      apiCall.request = request;
+    }
+    return apiCall;
   }
 
   /**
@@ -158,9 +195,6 @@ export class AxiosDetector extends BaseDetector {
         if (client.type === "axios" && client.patterns) {
           customPatterns.push(...client.patterns);
         }
-        if (client.type === "custom" && client.patterns) {
-          customPatterns.push(...client.patterns);
-        }
       }
     }
 
@@ -183,12 +217,16 @@ export class AxiosDetector extends BaseDetector {
         }
       }
 
-      // Check if module matches custom patterns (e.g., '@/config/axios')
+      // Check if module matches custom patterns (e.g., '@/config/axios'), as written or as the
+      // file it resolves to through tsconfig paths / package imports (@lib/http -> src/lib/axios.ts)
+      const resolvedSpec = getResolvedModulePath(moduleSpec, context, config?.rootDir);
       for (const pattern of customPatterns) {
         if (
           moduleSpec === pattern ||
           moduleSpec.endsWith(pattern) ||
-          moduleSpec.includes(pattern)
+          moduleSpec.includes(pattern) ||
+          (resolvedSpec !== undefined &&
+            (resolvedSpec.endsWith(pattern) || resolvedSpec.includes(pattern)))
         ) {
           // Any named or default import from this path is treated as axios-like
           for (const name of imp.namedImports) {
@@ -220,7 +258,11 @@ export class AxiosDetector extends BaseDetector {
     callExpr: CallExpression,
     context: AstContext,
     config?: ScanConfig,
-  ): { method: string; callType: "method" | "request" } | null {
+  ): {
+    method: string;
+    callType: "method" | "request";
+    instance?: AxiosInstanceInfo;
+  } | null {
     const expression = callExpr.getExpression();
     const cacheKey = context.filePath;
     const axiosImports = this.axiosImportCache.get(cacheKey)!;
@@ -243,10 +285,12 @@ export class AxiosDetector extends BaseDetector {
             objectName === "axios")
         ) {
           if (AXIOS_METHODS.includes(methodName)) {
+            // import api from '@/lib/axios' is an instance too (default export of axios.create())
             return {
               method:
                 methodName === "request" ? "request" : methodName.toUpperCase(),
               callType: methodName === "request" ? "request" : "method",
+              instance: this.getInstanceInfo(identifier, context) ?? undefined,
             };
           }
         }
@@ -258,6 +302,20 @@ export class AxiosDetector extends BaseDetector {
               method:
                 methodName === "request" ? "request" : methodName.toUpperCase(),
               callType: methodName === "request" ? "request" : "method",
+              instance: this.getInstanceInfo(identifier, context) ?? undefined,
+            };
+          }
+        }
+
+        // Local instance: const api = axios.create({ ... }); api.get('/x')
+        if (axiosImports.hasDefaultImport && AXIOS_METHODS.includes(methodName)) {
+          const instance = this.getInstanceInfo(identifier, context);
+          if (instance) {
+            return {
+              method:
+                methodName === "request" ? "request" : methodName.toUpperCase(),
+              callType: methodName === "request" ? "request" : "method",
+              instance,
             };
           }
         }
@@ -284,6 +342,192 @@ export class AxiosDetector extends BaseDetector {
     return null;
   }
 
+  /**
+   * Follow an instance identifier (imported or local) to its axios.create({ ... }) call
+   */
+  private getInstanceInfo(
+    identifier: Identifier,
+    context: AstContext,
+  ): AxiosInstanceInfo | null {
+    const cacheKey = `${context.filePath}#${identifier.getText()}`;
+    if (this.instanceCache.has(cacheKey)) {
+      return this.instanceCache.get(cacheKey)!;
+    }
+
+    const info = this.resolveInstance(identifier, 0);
+    this.instanceCache.set(cacheKey, info);
+    return info;
+  }
+
+  private resolveInstance(node: Node, depth: number): AxiosInstanceInfo | null {
+    if (depth > MAX_INSTANCE_DEPTH) {
+      return null;
+    }
+
+    let expr = node;
+    while (
+      Node.isParenthesizedExpression(expr) ||
+      Node.isAsExpression(expr) ||
+      Node.isNonNullExpression(expr)
+    ) {
+      expr = expr.getExpression();
+    }
+
+    // axios.create({ baseURL, ... })
+    if (expr.getKind() === SyntaxKind.CallExpression) {
+      const callee = (expr as CallExpression).getExpression();
+      if (
+        callee.getKind() !== SyntaxKind.PropertyAccessExpression ||
+        (callee as PropertyAccessExpression).getName() !== "create" ||
+        !isAxiosModuleReference((callee as PropertyAccessExpression).getExpression())
+      ) {
+        return null;
+      }
+      const options = (expr as CallExpression).getArguments()[0];
+      const info = this.readInstanceOptions(options);
+      const declaration = expr.getParentIfKind(SyntaxKind.VariableDeclaration);
+      if (declaration) {
+        this.applyDefaultsAssignments(declaration.getName(), expr.getSourceFile(), info);
+      }
+      return info;
+    }
+
+    if (expr.getKind() !== SyntaxKind.Identifier) {
+      return null;
+    }
+
+    try {
+      for (const definition of (expr as Identifier).getDefinitionNodes()) {
+        // const api = axios.create(...) / export default axios.create(...)
+        const initializer = Node.isVariableDeclaration(definition)
+          ? definition.getInitializer()
+          : Node.isExportAssignment(definition)
+            ? definition.getExpression()
+            : undefined;
+        if (!initializer) continue;
+        const info = this.resolveInstance(initializer, depth + 1);
+        if (info) return info;
+      }
+    } catch {
+      // Definition lookup failed (unresolvable import) - instance stays unknown
+    }
+    return null;
+  }
+
+  /**
+   * Read baseURL, headers, withCredentials and timeout from axios.create() options
+   */
+  private readInstanceOptions(options: Node | undefined): AxiosInstanceInfo {
+    const info: AxiosInstanceInfo = { defaults: {} };
+    if (!options || options.getKind() !== SyntaxKind.ObjectLiteralExpression) {
+      return info;
+    }
+
+    for (const property of (options as ObjectLiteralExpression).getProperties()) {
+      if (property.getKind() !== SyntaxKind.PropertyAssignment) continue;
+      const propAssignment = property as PropertyAssignment;
+      const initializer = propAssignment.getInitializer();
+      if (!initializer) continue;
+      this.applyInstanceOption(info, propAssignment.getName(), initializer);
+    }
+    return info;
+  }
+
+  /**
+   * Apply `api.defaults.baseURL = ...` / `api.defaults.headers.common['X'] = ...` assignments
+   */
+  private applyDefaultsAssignments(
+    instanceName: string,
+    sourceFile: Node,
+    info: AxiosInstanceInfo,
+  ): void {
+    const prefix = `${instanceName}.defaults.`;
+    for (const binary of sourceFile.getDescendantsOfKind(SyntaxKind.BinaryExpression)) {
+      if (binary.getOperatorToken().getKind() !== SyntaxKind.EqualsToken) continue;
+      const target = binary.getLeft().getText();
+      if (!target.startsWith(prefix)) continue;
+
+      const option = target.slice(prefix.length);
+      const headerMatch = /^headers(?:\.common)?(?:\.(\w[\w-]*)|\[['"]([^'"]+)['"]\])$/.exec(option);
+      if (headerMatch) {
+        const headerName = headerMatch[1] ?? headerMatch[2];
+        info.defaults.headers = {
+          ...info.defaults.headers,
+          [headerName]: this.readOptionValue(binary.getRight()),
+        };
+      } else {
+        this.applyInstanceOption(info, option, binary.getRight());
+      }
+    }
+  }
+
+  private applyInstanceOption(
+    info: AxiosInstanceInfo,
+    name: string,
+    value: Node,
+  ): void {
+    if (name === "baseURL") {
+      info.baseUrl = this.readBaseUrl(value);
+    } else if (name === "headers" && value.getKind() === SyntaxKind.ObjectLiteralExpression) {
+      const headers: Record<string, string> = { ...info.defaults.headers };
+      for (const header of (value as ObjectLiteralExpression).getProperties()) {
+        if (header.getKind() !== SyntaxKind.PropertyAssignment) continue;
+        const headerAssignment = header as PropertyAssignment;
+        const headerValue = headerAssignment.getInitializer();
+        if (!headerValue) continue;
+        headers[headerAssignment.getName().replace(/^['"]|['"]$/g, "")] =
+          this.readOptionValue(headerValue);
+      }
+      info.defaults.headers = headers;
+    } else if (name === "withCredentials") {
+      const kind = value.getKind();
+      if (kind === SyntaxKind.TrueKeyword || kind === SyntaxKind.FalseKeyword) {
+        info.defaults.withCredentials = kind === SyntaxKind.TrueKeyword;
+      }
+    } else if (name === "timeout" && value.getKind() === SyntaxKind.NumericLiteral) {
+      info.defaults.timeout = Number(value.getText().replace(/_/g, ""));
+    }
+  }
+
+  /**
+   * baseURL as a literal, a template, or a `${expr}` placeholder for env vars / constants
+   */
+  private readBaseUrl(node: Node): string {
+    const resolved = resolveUrlExpression(node);
+    if (resolved) {
+      return resolved.url;
+    }
+
+    const kind = node.getKind();
+    if (
+      kind === SyntaxKind.StringLiteral ||
+      kind === SyntaxKind.NoSubstitutionTemplateLiteral ||
+      kind === SyntaxKind.TemplateExpression
+    ) {
+      return this.readOptionValue(node);
+    }
+    if (Node.isBinaryExpression(node)) {
+      // process.env.API_URL + '/v1'
+      if (node.getOperatorToken().getKind() === SyntaxKind.PlusToken) {
+        return this.readBaseUrl(node.getLeft()) + this.readBaseUrl(node.getRight());
+      }
+      // process.env.API_URL ?? 'http://localhost:3000' - keep the env var reference
+      return this.readBaseUrl(node.getLeft());
+    }
+    return `\${${node.getText()}}`;
+  }
+
+  private readOptionValue(node: Node): string {
+    const kind = node.getKind();
+    if (kind === SyntaxKind.StringLiteral || kind === SyntaxKind.NoSubstitutionTemplateLiteral) {
+      return (node as StringLiteral).getLiteralValue();
+    }
+    if (kind === SyntaxKind.TemplateExpression) {
+      return node.getText().replace(/^`|`$/g, "");
+    }
+    return node.getText();
+  }
+
   /**
    * Extract axios details (method, URL, confidence)
    */
@@ -317,7 +561,7 @@ export class AxiosDetector extends BaseDetector {
 
     // First argument is the URL
     const urlArg = arguments_[0];
-    const urlResult = this.extractUrl(urlArg, context);
+    const urlResult = extractUrl(urlArg);
 
     if (!urlResult) {
       return null;
@@ -366,7 +610,7 @@ export class AxiosDetector extends BaseDetector {
         }
 
         if (name === "url") {
-          const urlResult = this.extractUrl(initializer, context);
+          const urlResult = extractUrl(initializer);
           if (urlResult) {
             url = urlResult.url;
             urlConfidence = urlResult.confidence;
@@ -395,74 +639,61 @@ export class AxiosDetector extends BaseDetector {
   }
 
   /**
-   * Extract URL from node and determine confidence
+   * Clear import cache (useful for testing or when file changes)
    */
-  private extractUrl(
-    node: Node,
-    context: AstContext,
-  ): { url: string; confidence: Confidence } | null {
-    const kind = node.getKind();
-
-    // High confidence: String literal
-    if (kind === SyntaxKind.StringLiteral) {
-      const stringLiteral = node as StringLiteral;
-      const url = stringLiteral.getLiteralValue();
-      return { url, confidence: "high" };
-    }
-
-    // Template literal handling
-    if (kind === SyntaxKind.TemplateExpression) {
-      // Has interpolations - medium confidence
-      const template = node as TemplateExpression;
-      const url = template.getText().replace(/^`|`$/g, "");
-      return { url, confidence: "medium" };
-    }
+  clearCache(): void {
+    this.axiosImportCache.clear();
+    this.instanceCache.clear();
+  }
+}
 
-    if (kind === SyntaxKind.NoSubstitutionTemplateLiteral) {
-      // No interpolations - high confidence (static template string)
-      const template = node as any;
-      const url =
-        template.getLiteralValue() || template.getText().replace(/^`|`$/g, "");
-      return { url, confidence: "high" };
-    }
+/**
+ * Project file a module specifier resolves to, relative to rootDir, without extension and with
+ * / separators ("@lib/http" -> "/src/lib/axios"); undefined for unresolved or node_modules modules
+ */
+function getResolvedModulePath(
+  moduleSpec: string,
+  context: AstContext,
+  rootDir: string | undefined,
+): string | undefined {
+  const resolved = context.resolveImportPath(moduleSpec);
+  if (!resolved || resolved.includes(`${path.sep}node_modules${path.sep}`)) {
+    return undefined;
+  }
+  const relative = rootDir ? path.relative(rootDir, resolved) : resolved;
+  return `/${relative.split(path.sep).join("/")}`
+    .replace(/^\/+/, "/")
+    .replace(/(\/index)?\.[cm]?[jt]sx?$/, "");
+}
 
-    // Low confidence: Identifier or other expressions
+/**
+ * Whether an expression is the axios module itself (import axios from 'axios',
+ * import * as axios from 'axios', const axios = require('axios')), so that
+ * ky.create() or other .create() factories are not taken for axios instances
+ */
+function isAxiosModuleReference(node: Node): boolean {
+  if (!Node.isIdentifier(node)) {
+    return false;
+  }
+  const name = node.getText();
+  const sourceFile = node.getSourceFile();
+  for (const importDecl of sourceFile.getImportDeclarations()) {
+    if (importDecl.getModuleSpecifierValue() !== "axios") continue;
     if (
-      kind === SyntaxKind.Identifier ||
-      kind === SyntaxKind.PropertyAccessExpression
+      importDecl.getDefaultImport()?.getText() === name ||
+      importDecl.getNamespaceImport()?.getText() === name
     ) {
-      const text = node.getText();
-      return { url: text, confidence: "low" };
+      return true;
     }
-
-    // Low confidence: Any other expression (computed, function call, etc.)
-    const text = node.getText();
-    return { url: text, confidence: "low" };
   }
-
-  /**
-   * Log detection for validation
-   */
-  private logDetection(
-    context: AstContext,
-    detection: AxiosDetectionResult,
-    node: CallExpression,
-  ): void {
-    const sourceFile = node.getSourceFile();
-    const { line, column } = sourceFile.getLineAndColumnAtPos(node.getStart());
-    const fileName = context.filePath.split("/").pop() || context.filePath;
-
-    console.log(
-      `[${this.name}] ${detection.method} ${detection.url} ` +
-        `(${detection.confidence} confidence) ` +
-        `at ${fileName}:${line}:${column}`,
+  return sourceFile.getVariableDeclarations().some((declaration) => {
+    const initializer = declaration.getInitializer();
+    return (
+      declaration.getName() === name &&
+      !!initializer &&
+      Node.isCallExpression(initializer) &&
+      initializer.getExpression().getText() === "require" &&
+      initializer.getArguments()[0]?.getText().slice(1, -1) === "axios"
     );
-  }
-
-  /**
-   * Clear import cache (useful for testing or when file changes)
-   */
-  clearCache(): void {
-    this.axiosImportCache.clear();
-  }
+  });
 }
@@ -0,0 +1,86 @@
+/**
+ * Beacon API Detector
+ * Detects navigator.sendBeacon(url, data) (always a POST) and records the data shape
+ */
+
+import { Node, SyntaxKind, CallExpression } from "ts-morph";
+import { BaseDetector } from "./detector";
+import { AstContext } from "../ast/context";
+import { ScanConfig, ApiCall } from "@api-surface/types";
+import { extractUrl } from "./url-resolver";
+import { extractSendRequestShape } from "./request-shape";
+
+type Confidence = "high" | "medium" | "low";
+
+export interface BeaconDetectionResult {
+  method: string;
+  url: string;
+  confidence: Confidence;
+}
+
+/** Receivers of sendBeacon: navigator, window.navigator, globalThis.navigator */
+const NAVIGATOR_RECEIVERS = new Set(["navigator", "window.navigator", "globalThis.navigator", "self.navigator"]);
+
+/**
+ * Detector for navigator.sendBeacon() calls
+ */
+export class BeaconDetector extends BaseDetector {
+  readonly id = "beacon";
+  readonly name = "Beacon API Detector";
+
+  /**
+   * Only detect on CallExpression nodes
+   */
+  shouldDetect(node: Node): boolean {
+    return node.getKind() === SyntaxKind.CallExpression;
+  }
+
+  /**
+   * Detect navigator.sendBeacon(url, data)
+   */
+  detect(node: Node, context: AstContext, config: ScanConfig): ApiCall | null {
+    if (!this.shouldDetect(node)) {
+      return null;
+    }
+
+    const callExpr = node as CallExpression;
+    const callee = callExpr.getExpression();
+    if (
+      !Node.isPropertyAccessExpression(callee) ||
+      callee.getName() !== "sendBeacon" ||
+      !NAVIGATOR_RECEIVERS.has(callee.getExpression().getText())
+    ) {
+      return null;
+    }
+
+    const [urlArg, dataArg] = callExpr.getArguments();
+    if (!urlArg) {
+      return null;
+    }
+
+    const urlResult = extractUrl(urlArg);
+    const detection: BeaconDetectionResult = {
+      method: "POST",
+      url: urlResult.url,
+      confidence: urlResult.confidence,
+    };
+
+    // Log detection for validation
+    this.logDetection(context, detection, callExpr);
+
+    const apiCall = this.createApiCall(
+      detection.method,
+      detection.url,
+      "beacon",
+      callExpr,
+      context,
+      detection.confidence,
+    );
+
+    const request = extractSendRequestShape(dataArg);
+    if (request) {
+      apiCall.request = request;
+    }
+    return apiCall;
+  }
+}
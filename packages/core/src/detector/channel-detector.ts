@@ -0,0 +1,150 @@
+/**
+ * Base detector for real-time channels opened with a constructor:
+ * new WebSocket(url), new EventSource(url). Subclasses provide a ChannelSpec.
+ */
+
+import { Node, SyntaxKind, NewExpression } from "ts-morph";
+import { BaseDetector } from "./detector";
+import { AstContext } from "../ast/context";
+import { ScanConfig, ApiCall, ApiProtocol } from "@api-surface/types";
+import { extractUrl } from "./url-resolver";
+
+type Confidence = "high" | "medium" | "low";
+
+export interface ChannelDetectionResult {
+  method: string;
+  url: string;
+  confidence: Confidence;
+}
+
+/**
+ * Describes a constructor-based channel API
+ */
+export interface ChannelSpec {
+  /** Constructor names: new WebSocket(url), new window.WebSocket(url) */
+  constructors: string[];
+  /** Modules whose default import also provides the constructor (e.g. "ws", "reconnecting-websocket") */
+  modules?: string[];
+  /** Method recorded for the endpoint (WS, SSE) */
+  method: string;
+  protocol: ApiProtocol;
+}
+
+/** Global objects that expose browser constructors: new window.WebSocket(url) */
+const CONSTRUCTOR_GLOBALS = new Set(["window", "globalThis", "self", "global"]);
+
+/**
+ * Generic detector for constructor-based channels
+ */
+export abstract class ChannelDetector extends BaseDetector {
+  protected abstract readonly source: ApiCall["source"];
+  protected abstract readonly spec: ChannelSpec;
+
+  // Cache per file: local names bound to the constructor via imports
+  private importCache = new Map<string, Set<string>>();
+
+  /**
+   * Only detect on NewExpression nodes
+   */
+  shouldDetect(node: Node): boolean {
+    return node.getKind() === SyntaxKind.NewExpression;
+  }
+
+  /**
+   * Detect channel constructors
+   */
+  detect(node: Node, context: AstContext, config: ScanConfig): ApiCall | null {
+    if (!this.shouldDetect(node)) {
+      return null;
+    }
+
+    const newExpr = node as NewExpression;
+    if (!this.isChannelConstructor(newExpr, context)) {
+      return null;
+    }
+
+    const urlArg = newExpr.getArguments()[0];
+    if (!urlArg) {
+      return null;
+    }
+
+    const urlResult = extractUrl(urlArg);
+    const detection: ChannelDetectionResult = {
+      method: this.spec.method,
+      url: urlResult.url,
+      confidence: urlResult.confidence,
+    };
+
+    // Log detection for validation
+    this.logDetection(context, detection, newExpr);
+
+    const apiCall = this.createApiCall(
+      detection.method,
+      detection.url,
+      this.source,
+      newExpr,
+      context,
+      detection.confidence,
+    );
+    apiCall.protocol = this.spec.protocol;
+    return apiCall;
+  }
+
+  /**
+   * new WebSocket(...), new window.WebSocket(...), or a constructor imported from one of spec.modules
+   */
+  private isChannelConstructor(newExpr: NewExpression, context: AstContext): boolean {
+    const expression = newExpr.getExpression();
+
+    if (Node.isPropertyAccessExpression(expression)) {
+      return (
+        this.spec.constructors.includes(expression.getName()) &&
+        CONSTRUCTOR_GLOBALS.has(expression.getExpression().getText())
+      );
+    }
+    if (!Node.isIdentifier(expression)) {
+      return false;
+    }
+
+    const name = expression.getText();
+    return this.spec.constructors.includes(name) || this.getImportedNames(context).has(name);
+  }
+
+  /**
+   * Local names imported from spec.modules: import WebSocket from "ws", import RWS from "reconnecting-websocket"
+   */
+  private getImportedNames(context: AstContext): Set<string> {
+    const cacheKey = context.filePath;
+    const cached = this.importCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const names = new Set<string>();
+    const modules = this.spec.modules ?? [];
+    for (const imp of context.getImports()) {
+      if (!modules.includes(imp.moduleSpecifier)) {
+        continue;
+      }
+      if (imp.defaultImport) {
+        names.add(imp.defaultImport);
+      }
+      // import { WebSocket } from "ws" (not WebSocketServer etc.)
+      for (const named of imp.namedImports) {
+        if (this.spec.constructors.includes(named)) {
+          names.add(named);
+        }
+      }
+    }
+
+    this.importCache.set(cacheKey, names);
+    return names;
+  }
+
+  /**
+   * Clear import cache (useful for testing or when file changes)
+   */
+  clearCache(): void {
+    this.importCache.clear();
+  }
+}
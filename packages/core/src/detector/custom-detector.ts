@@ -0,0 +1,334 @@
+/**
+ * Custom API Client Detector
+ * Detects calls on in-house API clients configured via apiClients: [{ type: "custom", patterns }]
+ * e.g. apiClient.get('/x'), apiClient.request({ url, method }), api.users.list(), apiFetch('/x')
+ */
+
+import {
+  Node,
+  SyntaxKind,
+  CallExpression,
+  Identifier,
+  PropertyAccessExpression,
+} from "ts-morph";
+import { BaseDetector } from "./detector";
+import { AstContext } from "../ast/context";
+import { ScanConfig, ApiCall, ApiClientConfig } from "@api-surface/types";
+import { extractUrl, resolveStringValue } from "./url-resolver";
+import { getObjectOption } from "./data-hook-utils";
+
+type Confidence = "high" | "medium" | "low";
+
+export interface CustomDetectionResult {
+  method: string;
+  url: string;
+  confidence: Confidence;
+}
+
+/** Verb marker for methods that take a single config object ({ url, method }) */
+const REQUEST_CONFIG_VERB = "REQUEST";
+
+/** Method of a request whose `method` option is not a literal or constant ({ method: verb }) */
+const UNKNOWN_METHOD = "UNKNOWN";
+
+/**
+ * Default client method name -> HTTP verb mapping.
+ * Config `methods` entries are merged over these (keys are case-insensitive).
+ */
+const DEFAULT_CUSTOM_METHODS: Record<string, string> = {
+  get: "GET",
+  post: "POST",
+  put: "PUT",
+  patch: "PATCH",
+  delete: "DELETE",
+  del: "DELETE",
+  remove: "DELETE",
+  head: "HEAD",
+  options: "OPTIONS",
+  list: "GET",
+  find: "GET",
+  fetch: "GET",
+  create: "POST",
+  update: "PUT",
+  request: REQUEST_CONFIG_VERB,
+};
+
+/** Resolved settings for one custom client config entry */
+interface CustomClientSettings {
+  methods: Record<string, string>;
+  urlArgIndex: number;
+  /** Configured client name: a bare call of it is a request whatever its URL argument */
+  name?: string;
+}
+
+/**
+ * Detector for config-driven custom API clients
+ */
+export class CustomClientDetector extends BaseDetector {
+  readonly id = "custom";
+  readonly name = "Custom API Client Detector";
+
+  // Cache for client imports per file: local import name -> client settings
+  private clientImportCache = new Map<
+    string,
+    Map<string, CustomClientSettings>
+  >();
+
+  /**
+   * Only detect on CallExpression nodes
+   */
+  shouldDetect(node: Node): boolean {
+    return node.getKind() === SyntaxKind.CallExpression;
+  }
+
+  /**
+   * Detect calls on imported custom API clients
+   */
+  detect(node: Node, context: AstContext, config: ScanConfig): ApiCall | null {
+    if (!this.shouldDetect(node)) {
+      return null;
+    }
+
+    const clientImports = this.getClientImports(context, config);
+    if (clientImports.size === 0) {
+      return null;
+    }
+
+    const callExpr = node as CallExpression;
+    const callee = this.getCalleeChain(callExpr);
+    if (!callee) {
+      return null;
+    }
+
+    const client = clientImports.get(callee.root);
+    if (!client) {
+      return null;
+    }
+
+    const detection = this.extractCustomDetails(callExpr, callee, client);
+    if (!detection) {
+      return null;
+    }
+
+    // Log detection for validation
+    this.logDetection(context, detection, callExpr);
+
+    return this.createApiCall(
+      detection.method,
+      detection.url,
+      "custom",
+      callExpr,
+      context,
+      detection.confidence,
+    );
+  }
+
+  /**
+   * Collect imports in the file that match a custom client's patterns
+   */
+  private getClientImports(
+    context: AstContext,
+    config: ScanConfig,
+  ): Map<string, CustomClientSettings> {
+    const cacheKey = context.filePath;
+    const cached = this.clientImportCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const clients = (config.apiClients ?? []).filter(
+      (c): c is ApiClientConfig & { patterns: string[] } =>
+        c.type === "custom" && Array.isArray(c.patterns) && c.patterns.length > 0,
+    );
+
+    const clientImports = new Map<string, CustomClientSettings>();
+    if (clients.length > 0) {
+      for (const imp of context.getImports()) {
+        if (imp.isTypeOnly) continue;
+        const moduleSpec = imp.moduleSpecifier;
+
+        const client = clients.find((c) =>
+          c.patterns.some((pattern) => matchesModulePattern(moduleSpec, pattern)),
+        );
+        if (!client) continue;
+
+        const settings = this.toSettings(client);
+        for (const name of imp.namedImports) {
+          clientImports.set(name, settings);
+        }
+        if (imp.defaultImport) {
+          clientImports.set(imp.defaultImport, settings);
+        }
+        if (imp.namespaceImport) {
+          clientImports.set(imp.namespaceImport, settings);
+        }
+      }
+    }
+
+    this.clientImportCache.set(cacheKey, clientImports);
+    return clientImports;
+  }
+
+  /**
+   * Merge a client config entry with the default method mapping
+   */
+  private toSettings(client: ApiClientConfig): CustomClientSettings {
+    const methods: Record<string, string> = { ...DEFAULT_CUSTOM_METHODS };
+    for (const [name, verb] of Object.entries(client.methods ?? {})) {
+      methods[name.toLowerCase()] = verb.toUpperCase();
+    }
+    return {
+      methods,
+      urlArgIndex: client.urlArgIndex ?? 0,
+      name: client.name,
+    };
+  }
+
+  /**
+   * Resolve the callee into a root identifier and the property names accessed on it.
+   * apiFetch() -> { root: "apiFetch", segments: [] }
+   * api.users.list() -> { root: "api", segments: ["users", "list"] }
+   */
+  private getCalleeChain(
+    callExpr: CallExpression,
+  ): { root: string; segments: string[] } | null {
+    const segments: string[] = [];
+    let expr: Node = callExpr.getExpression();
+
+    while (expr.getKind() === SyntaxKind.PropertyAccessExpression) {
+      const propAccess = expr as PropertyAccessExpression;
+      segments.unshift(propAccess.getName());
+      expr = propAccess.getExpression();
+    }
+
+    if (expr.getKind() !== SyntaxKind.Identifier) {
+      return null;
+    }
+
+    return { root: (expr as Identifier).getText(), segments };
+  }
+
+  /**
+   * Extract custom client details (method, URL, confidence)
+   */
+  private extractCustomDetails(
+    callExpr: CallExpression,
+    callee: { root: string; segments: string[] },
+    client: CustomClientSettings,
+  ): CustomDetectionResult | null {
+    const arguments_ = callExpr.getArguments();
+    const segments = callee.segments;
+
+    // Case 1: apiFetch(url, { method }) - the client itself is callable (fetch-like).
+    // Other functions of the client module (formatDate(new Date())) are not requests: unless the
+    // function is the configured client name, the URL must be a literal, template or resolved constant.
+    if (segments.length === 0) {
+      const urlArg = arguments_[client.urlArgIndex];
+      if (!urlArg) return null;
+      const urlResult = extractUrl(urlArg);
+      if (callee.root !== client.name && urlResult.confidence === "low") {
+        return null;
+      }
+      const optionsArg = arguments_[client.urlArgIndex + 1];
+      return withMethod((optionsArg && this.extractMethod(optionsArg)) || "GET", urlResult);
+    }
+
+    const methodName = segments[segments.length - 1];
+    const verb = client.methods[methodName.toLowerCase()];
+    if (!verb) {
+      // Not a request method (e.g. apiClient.setToken())
+      return null;
+    }
+
+    // Case 2: apiClient.request({ url, method })
+    if (verb === REQUEST_CONFIG_VERB) {
+      const configArg = arguments_[0];
+      if (!configArg) return null;
+      return this.extractFromRequestConfig(configArg);
+    }
+
+    const urlArg = arguments_[client.urlArgIndex];
+    const urlResult = urlArg ? extractUrl(urlArg) : null;
+
+    // Case 3: apiClient.get('/x')
+    if (segments.length === 1) {
+      if (!urlResult) return null;
+      return { method: verb, ...urlResult };
+    }
+
+    // Case 4: api.users.list() - resource-style SDK; path comes from the property chain
+    // unless a literal URL is passed explicitly.
+    if (urlResult && urlResult.confidence !== "low" && this.isUrlLike(urlResult.url)) {
+      return { method: verb, ...urlResult };
+    }
+    return {
+      method: verb,
+      url: `/${segments.slice(0, -1).join("/")}`,
+      confidence: "low",
+    };
+  }
+
+  /**
+   * Extract from config object: apiClient.request({ url, method })
+   */
+  private extractFromRequestConfig(node: Node): CustomDetectionResult | null {
+    const urlNode = getObjectOption(node, "url");
+    if (!urlNode) {
+      return null;
+    }
+
+    return withMethod(this.extractMethod(node) || "GET", extractUrl(urlNode));
+  }
+
+  /**
+   * Extract HTTP method from an options/config object ({ method: 'POST' }, { method: METHODS.POST });
+   * UNKNOWN when it is any other expression ({ method: verb })
+   */
+  private extractMethod(node: Node): string | null {
+    const methodNode = getObjectOption(node, "method");
+    if (!methodNode) {
+      return null;
+    }
+    return resolveStringValue(methodNode) ?? UNKNOWN_METHOD;
+  }
+
+  /**
+   * Clear import cache (useful for testing or when file changes)
+   */
+  clearCache(): void {
+    this.clientImportCache.clear();
+  }
+}
+
+/**
+ * Request with the method read from its options; an unknown method lowers the confidence
+ */
+function withMethod(
+  method: string,
+  urlResult: { url: string; confidence: Confidence },
+): CustomDetectionResult {
+  return method === UNKNOWN_METHOD
+    ? { method, url: urlResult.url, confidence: "low" }
+    : { method: method.toUpperCase(), ...urlResult };
+}
+
+/**
+ * Module specifier matches a client pattern: the exact specifier ("@/lib/api") or a glob
+ * ("@/lib/api/*", "@acme/*-client", "**\/api-client")
+ */
+function matchesModulePattern(moduleSpec: string, pattern: string): boolean {
+  if (!/[*?]/.test(pattern)) {
+    return moduleSpec === pattern;
+  }
+  const source = pattern
+    .split(/(\*\*\/|\*\*|\*|\?)/)
+    .map((part) => {
+      if (part === "**/") return "(?:.*/)?";
+      if (part === "**") return ".*";
+      if (part === "*") return "[^/]*";
+      if (part === "?") return "[^/]";
+      return part.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`).test(moduleSpec);
+}
@@ -0,0 +1,227 @@
+/**
+ * Shared helpers for data-fetching hook detectors (SWR, TanStack Query, RTK Query):
+ * reading hook keys, following fetcher functions to the request they make, and object options.
+ */
+
+import {
+  Node,
+  SyntaxKind,
+  CallExpression,
+  Identifier,
+  ObjectLiteralExpression,
+  PropertyAccessExpression,
+  ArrayLiteralExpression,
+  ConditionalExpression,
+  VariableDeclaration,
+  ReturnStatement,
+} from "ts-morph";
+import { extractUrl, resolveUrlExpression, unwrapExpression } from "./url-resolver";
+
+type Confidence = "high" | "medium" | "low";
+
+export interface UrlResult {
+  url: string;
+  confidence: Confidence;
+}
+
+export interface HookRequestInfo extends UrlResult {
+  /** HTTP method when it can be read from the request (fetch options, axios method name) */
+  method?: string;
+}
+
+/** Request methods on axios-like clients: api.get(url), http.post(url, body) */
+const CLIENT_VERBS: Record<string, string> = {
+  get: "GET",
+  post: "POST",
+  put: "PUT",
+  patch: "PATCH",
+  delete: "DELETE",
+};
+
+/**
+ * Get the initializer of a property in an object literal (shorthand properties return the name node)
+ */
+export function getObjectOption(node: Node, key: string): Node | null {
+  if (node.getKind() !== SyntaxKind.ObjectLiteralExpression) {
+    return null;
+  }
+  for (const property of (node as ObjectLiteralExpression).getProperties()) {
+    if (Node.isShorthandPropertyAssignment(property)) {
+      if (property.getName() === key) {
+        return property.getNameNode();
+      }
+      continue;
+    }
+    if (Node.isMethodDeclaration(property) && property.getName() === key) {
+      return property;
+    }
+    if (Node.isPropertyAssignment(property) && property.getName() === key) {
+      return property.getInitializer() ?? null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Values a function can return: expression body or every `return x` in its block
+ */
+export function getReturnedExpressions(fn: Node): Node[] {
+  if (!Node.isArrowFunction(fn) && !Node.isFunctionExpression(fn) &&
+      !Node.isFunctionDeclaration(fn) && !Node.isMethodDeclaration(fn)) {
+    return [];
+  }
+  const body = fn.getBody();
+  if (!body) {
+    return [];
+  }
+  if (!Node.isBlock(body)) {
+    return [unwrapExpression(body)];
+  }
+  return body
+    .getDescendantsOfKind(SyntaxKind.ReturnStatement)
+    .filter((ret) => ret.getFirstAncestor((a) => isFunctionLike(a)) === fn)
+    .map((ret) => (ret as ReturnStatement).getExpression())
+    .filter((expr): expr is NonNullable<typeof expr> => !!expr)
+    .map(unwrapExpression);
+}
+
+function isFunctionLike(node: Node): boolean {
+  return (
+    Node.isArrowFunction(node) ||
+    Node.isFunctionExpression(node) ||
+    Node.isFunctionDeclaration(node) ||
+    Node.isMethodDeclaration(node)
+  );
+}
+
+/**
+ * Resolve a hook key to a URL:
+ * '/api/x', `/api/x/${id}`, ['/api/x', id], () => '/api/x', cond ? '/api/x' : null
+ */
+export function resolveKeyUrl(node: Node): UrlResult | null {
+  const expr = unwrapExpression(node);
+  const kind = expr.getKind();
+
+  if (
+    kind === SyntaxKind.StringLiteral ||
+    kind === SyntaxKind.TemplateExpression ||
+    kind === SyntaxKind.NoSubstitutionTemplateLiteral
+  ) {
+    return extractUrl(expr);
+  }
+
+  // ['/api/x', id] - SWR array keys / TanStack query keys
+  if (kind === SyntaxKind.ArrayLiteralExpression) {
+    const first = (expr as ArrayLiteralExpression).getElements()[0];
+    return first ? resolveKeyUrl(first) : null;
+  }
+
+  // shouldFetch ? '/api/x' : null
+  if (kind === SyntaxKind.ConditionalExpression) {
+    const conditional = expr as ConditionalExpression;
+    return (
+      resolveKeyUrl(conditional.getWhenTrue()) ??
+      resolveKeyUrl(conditional.getWhenFalse())
+    );
+  }
+
+  // () => '/api/x', (pageIndex) => `/api/x?page=${pageIndex}`
+  if (Node.isArrowFunction(expr) || Node.isFunctionExpression(expr)) {
+    for (const returned of getReturnedExpressions(expr)) {
+      const result = resolveKeyUrl(returned);
+      if (result) return result;
+    }
+    return null;
+  }
+
+  if (kind === SyntaxKind.NullKeyword || kind === SyntaxKind.UndefinedKeyword) {
+    return null;
+  }
+
+  // Identifier or other expression - resolve constants, else keep source text, low confidence
+  return resolveUrlExpression(expr) ?? { url: expr.getText(), confidence: "low" };
+}
+
+/**
+ * Resolve a fetcher reference (inline function or identifier) to its function node
+ */
+export function resolveFunctionNode(node: Node): Node | null {
+  const expr = unwrapExpression(node);
+  if (isFunctionLike(expr)) {
+    return expr;
+  }
+  if (expr.getKind() !== SyntaxKind.Identifier) {
+    return null;
+  }
+  try {
+    for (const definition of (expr as Identifier).getDefinitionNodes()) {
+      if (isFunctionLike(definition)) {
+        return definition;
+      }
+      if (definition.getKind() === SyntaxKind.VariableDeclaration) {
+        const initializer = (definition as VariableDeclaration).getInitializer();
+        if (initializer && isFunctionLike(unwrapExpression(initializer))) {
+          return unwrapExpression(initializer);
+        }
+      }
+    }
+  } catch {
+    // Definition lookup failed (unresolvable import) - fetcher stays unknown
+  }
+  return null;
+}
+
+/**
+ * Find the first HTTP request made inside a fetcher function:
+ * fetch(url, { method }), api.get(url), axios.post(url)
+ */
+export function findRequestInFunction(node: Node): HookRequestInfo | null {
+  const fn = resolveFunctionNode(node);
+  if (!fn) {
+    return null;
+  }
+
+  for (const call of fn.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+    const request = readRequestCall(call);
+    if (request) return request;
+  }
+  return null;
+}
+
+/**
+ * Read method/URL from a fetch() or client.verb() call
+ */
+function readRequestCall(call: CallExpression): HookRequestInfo | null {
+  const expression = call.getExpression();
+  const args = call.getArguments();
+  const urlArg = args[0];
+  if (!urlArg) {
+    return null;
+  }
+
+  const calleeName =
+    expression.getKind() === SyntaxKind.Identifier
+      ? expression.getText()
+      : expression.getKind() === SyntaxKind.PropertyAccessExpression
+        ? (expression as PropertyAccessExpression).getName()
+        : null;
+  if (!calleeName) {
+    return null;
+  }
+
+  if (calleeName === "fetch") {
+    const options = args[1];
+    const methodNode = options ? getObjectOption(options, "method") : null;
+    const method = methodNode
+      ? methodNode.getText().replace(/^['"`]|['"`]$/g, "").toUpperCase()
+      : undefined;
+    return { ...extractUrl(urlArg), method };
+  }
+
+  const verb = CLIENT_VERBS[calleeName];
+  if (verb && expression.getKind() === SyntaxKind.PropertyAccessExpression) {
+    return { ...extractUrl(urlArg), method: verb };
+  }
+
+  return null;
+}
@@ -20,6 +20,12 @@ export interface Detector {
    */
   readonly name: string;
 
+  /**
+   * Optional: version of the detection logic. Part of the scan cache fingerprint,
+   * so bumping it invalidates cached results (plugin detectors should set it)
+   */
+  readonly version?: string;
+
   /**
    * Detect API calls in an AST node
    * 
@@ -38,6 +44,11 @@ export interface Detector {
    * @returns true if detector should run, false otherwise
    */
   shouldDetect?(node: Node): boolean;
+
+  /**
+   * Optional: Drop per-file caches (called before a rescan, when files may have changed)
+   */
+  clearCache?(): void;
 }
 
 /**
@@ -89,6 +100,26 @@ export abstract class BaseDetector implements Detector {
     return node.getText();
   }
 
+  /**
+   * Log detection for validation: [Name] METHOD url (label) (confidence) at file:line:column
+   */
+  protected logDetection(
+    context: AstContext,
+    detection: { method: string; url: string; confidence?: ApiCall['confidence'] },
+    node: Node,
+    label?: string
+  ): void {
+    const { line, column } = this.getNodePosition(node);
+    const fileName = context.filePath.split('/').pop() || context.filePath;
+
+    console.log(
+      `[${this.name}] ${detection.method} ${detection.url} ` +
+      (label ? `(${label}) ` : '') +
+      `(${detection.confidence} confidence) ` +
+      `at ${fileName}:${line}:${column}`
+    );
+  }
+
   /**
    * Check if a string looks like a URL
    */
@@ -0,0 +1,21 @@
+/**
+ * EventSource Channel Detector
+ * Detects Server-Sent Events streams: new EventSource(url) (browser, "eventsource", polyfills)
+ */
+
+import { ChannelDetector, ChannelSpec } from "./channel-detector";
+
+/**
+ * Detector for EventSource (SSE) connections
+ */
+export class EventSourceDetector extends ChannelDetector {
+  readonly id = "eventsource";
+  readonly name = "EventSource Detector";
+  protected readonly source = "eventsource" as const;
+  protected readonly spec: ChannelSpec = {
+    constructors: ["EventSource", "EventSourcePolyfill"],
+    modules: ["eventsource", "event-source-polyfill", "extended-eventsource"],
+    method: "SSE",
+    protocol: "sse",
+  };
+}
@@ -3,10 +3,12 @@
  * Detects fetch() calls and extracts method, URL, and confidence
  */
 
-import { Node, SyntaxKind, CallExpression, StringLiteral, TemplateExpression, Identifier, ObjectLiteralExpression, PropertyAssignment } from 'ts-morph';
+import { Node, SyntaxKind, CallExpression, StringLiteral, Identifier, ObjectLiteralExpression, PropertyAssignment } from 'ts-morph';
 import { BaseDetector } from './detector';
 import { AstContext } from '../ast/context';
 import { ScanConfig, ApiCall } from '@api-surface/types';
+import { extractUrl } from './url-resolver';
+import { extractFetchRequestShape } from './request-shape';
 
 export type Confidence = 'high' | 'medium' | 'low';
 
@@ -16,6 +18,9 @@ export interface FetchDetectionResult {
   confidence: Confidence;
 }
 
+/** Global objects that expose the Fetch API: window.fetch(), globalThis.fetch() */
+const FETCH_GLOBALS = new Set(['window', 'globalThis', 'self', 'global']);
+
 /**
  * Detector for fetch() API calls
  */
@@ -56,7 +61,7 @@ export class FetchDetector extends BaseDetector {
     this.logDetection(context, detection, callExpr);
 
     // Create ApiCall
-    return this.createApiCall(
+    const apiCall = this.createApiCall(
       detection.method,
       detection.url,
       'fetch',
@@ -64,6 +69,14 @@ export class FetchDetector extends BaseDetector {
       context,
       detection.confidence
     );
+
+    // Body / headers from the options object, query names from URLSearchParams in the URL
+    const [urlArg, optionsArg] = callExpr.getArguments();
+    const request = extractFetchRequestShape(urlArg, optionsArg);
+    if (request) {
+      apiCall.request = request;
+    }
+    return apiCall;
   }
 
   /**
@@ -81,11 +94,12 @@ export class FetchDetector extends BaseDetector {
     }
 
     // Check if it's a property access like window.fetch or globalThis.fetch
+    // (other receivers, e.g. tRPC utils.user.byId.fetch(), are not the Fetch API)
     if (expression.getKind() === SyntaxKind.PropertyAccessExpression) {
       const propertyAccess = expression as any;
       const name = propertyAccess.getName();
       if (name === 'fetch') {
-        return true;
+        return FETCH_GLOBALS.has(propertyAccess.getExpression().getText());
       }
     }
 
@@ -107,7 +121,7 @@ export class FetchDetector extends BaseDetector {
 
     // Extract URL from first argument
     const urlArg = arguments_[0];
-    const urlResult = this.extractUrl(urlArg, context);
+    const urlResult = extractUrl(urlArg);
     
     if (!urlResult) {
       return null;
@@ -130,49 +144,6 @@ export class FetchDetector extends BaseDetector {
     };
   }
 
-  /**
-   * Extract URL from node and determine confidence
-   */
-  private extractUrl(
-    node: Node,
-    context: AstContext
-  ): { url: string; confidence: Confidence } | null {
-    const kind = node.getKind();
-
-    // High confidence: String literal
-    if (kind === SyntaxKind.StringLiteral) {
-      const stringLiteral = node as StringLiteral;
-      const url = stringLiteral.getLiteralValue();
-      // Accept any string as URL (could be relative path, variable, etc.)
-      return { url, confidence: 'high' };
-    }
-
-    // Template literal handling
-    if (kind === SyntaxKind.TemplateExpression) {
-      // Has interpolations - medium confidence
-      const template = node as TemplateExpression;
-      const url = template.getText().replace(/^`|`$/g, '');
-      return { url, confidence: 'medium' };
-    }
-
-    if (kind === SyntaxKind.NoSubstitutionTemplateLiteral) {
-      // No interpolations - high confidence (static template string)
-      const template = node as any;
-      const url = template.getLiteralValue() || template.getText().replace(/^`|`$/g, '');
-      return { url, confidence: 'high' };
-    }
-
-    // Low confidence: Identifier or other expressions
-    if (kind === SyntaxKind.Identifier || kind === SyntaxKind.PropertyAccessExpression) {
-      const text = node.getText();
-      return { url: text, confidence: 'low' };
-    }
-
-    // Low confidence: Any other expression (computed, function call, etc.)
-    const text = node.getText();
-    return { url: text, confidence: 'low' };
-  }
-
   /**
    * Extract HTTP method from options object
    */
@@ -206,23 +177,4 @@ export class FetchDetector extends BaseDetector {
 
     return null;
   }
-
-  /**
-   * Log detection for validation
-   */
-  private logDetection(
-    context: AstContext,
-    detection: FetchDetectionResult,
-    node: CallExpression
-  ): void {
-    const sourceFile = node.getSourceFile();
-    const { line, column } = sourceFile.getLineAndColumnAtPos(node.getStart());
-    const fileName = context.filePath.split('/').pop() || context.filePath;
-    
-    console.log(
-      `[${this.name}] ${detection.method} ${detection.url} ` +
-      `(${detection.confidence} confidence) ` +
-      `at ${fileName}:${line}:${column}`
-    );
-  }
 }
@@ -0,0 +1,31 @@
+/**
+ * got API Call Detector
+ * Detects got(url, { method }), got.post(url), got({ url, method }) and instances from got.extend({ prefixUrl })
+ */
+
+import { HttpClientDetector, HttpClientSpec } from "./http-client-detector";
+
+/**
+ * Detector for got API calls
+ */
+export class GotDetector extends HttpClientDetector {
+  readonly id = "got";
+  readonly name = "Got API Detector";
+  protected readonly source = "got" as const;
+  protected readonly spec: HttpClientSpec = {
+    modules: ["got"],
+    namedExports: ["got"],
+    verbs: {
+      get: "GET",
+      post: "POST",
+      put: "PUT",
+      patch: "PATCH",
+      delete: "DELETE",
+      head: "HEAD",
+    },
+    callableAliases: ["stream"],
+    callable: true,
+    factories: ["extend"],
+    baseUrlKeys: ["prefixUrl"],
+  };
+}
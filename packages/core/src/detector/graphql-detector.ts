@@ -0,0 +1,443 @@
+/**
+ * GraphQL Operation Detector
+ * Detects calls that send a GraphQL document (Apollo useQuery/useMutation/client.query,
+ * urql, graphql-request request()/client.request()) and records each operation with its
+ * name, type, root fields and variables.
+ */
+
+import {
+  Node,
+  SyntaxKind,
+  CallExpression,
+  NewExpression,
+  StringLiteral,
+  TemplateExpression,
+  TaggedTemplateExpression,
+  NoSubstitutionTemplateLiteral,
+  Identifier,
+  PropertyAccessExpression,
+  VariableDeclaration,
+} from "ts-morph";
+import * as fs from "fs";
+import { BaseDetector } from "./detector";
+import { AstContext } from "../ast/context";
+import { parseGraphQLOperations } from "./graphql-parser";
+import { ScanConfig, ApiCall, GraphQLOperationInfo } from "@api-surface/types";
+import { extractUrl } from "./url-resolver";
+import { getObjectOption } from "./data-hook-utils";
+
+type Confidence = "high" | "medium" | "low";
+
+/** Endpoint used when the GraphQL client URL cannot be resolved */
+export const DEFAULT_GRAPHQL_ENDPOINT = "/graphql";
+
+/** Tags / functions that build a GraphQL document: gql`...`, graphql(`...`) */
+const DOCUMENT_TAGS = new Set(["gql", "graphql"]);
+
+/** Option keys that carry the document in object-style APIs */
+const DOCUMENT_OPTION_KEYS = ["query", "mutation", "subscription", "document"];
+
+/** Callees that take a document but do not send a request (cache access, printing) */
+const NON_REQUEST_CALLEES = new Set([
+  "gql",
+  "graphql",
+  "print",
+  "parse",
+  "require",
+  "readQuery",
+  "writeQuery",
+  "readFragment",
+  "writeFragment",
+  "updateQuery",
+  "useFragment",
+]);
+
+/** Constructors / factories that configure the GraphQL endpoint */
+const CLIENT_FACTORIES = new Set([
+  "GraphQLClient",
+  "ApolloClient",
+  "HttpLink",
+  "createHttpLink",
+  "createClient",
+  "Client",
+]);
+
+/** Max identifier hops when resolving a document reference */
+const MAX_RESOLVE_DEPTH = 4;
+
+export interface GraphQLDetectionResult {
+  operation: GraphQLOperationInfo;
+  url: string;
+  confidence: Confidence;
+}
+
+/**
+ * Detector for GraphQL operations
+ */
+export class GraphQLDetector extends BaseDetector {
+  readonly id = "graphql";
+  readonly name = "GraphQL Operation Detector";
+
+  // Cache for the endpoint configured in each file (GraphQLClient / ApolloClient / urql createClient)
+  private endpointCache = new Map<string, { url: string; confidence: Confidence } | null>();
+
+  // Cache for whether a file uses GraphQL at all (avoids symbol resolution in unrelated files)
+  private graphqlFileCache = new Map<string, boolean>();
+
+  /**
+   * Only detect on CallExpression nodes
+   */
+  shouldDetect(node: Node): boolean {
+    return node.getKind() === SyntaxKind.CallExpression;
+  }
+
+  /**
+   * Detect calls that send a GraphQL operation
+   */
+  detect(node: Node, context: AstContext, config: ScanConfig): ApiCall | null {
+    if (!this.shouldDetect(node)) {
+      return null;
+    }
+
+    if (!this.usesGraphQL(context)) {
+      return null;
+    }
+
+    const callExpr = node as CallExpression;
+    const calleeName = this.getCalleeName(callExpr);
+    if (!calleeName || NON_REQUEST_CALLEES.has(calleeName)) {
+      return null;
+    }
+
+    const document = this.findDocumentArgument(callExpr, context);
+    if (!document) {
+      return null;
+    }
+
+    const endpoint = this.resolveEndpoint(callExpr, context, document.argIndex);
+    const detection: GraphQLDetectionResult = {
+      operation: document.operation,
+      url: endpoint.url,
+      confidence:
+        document.operation.operationName && endpoint.confidence === "high"
+          ? "high"
+          : "medium",
+    };
+
+    // Log detection for validation
+    const { operationType, operationName } = detection.operation;
+    this.logDetection(
+      context,
+      { ...detection, method: `${operationType.toUpperCase()} ${operationName ?? "(anonymous)"}` },
+      callExpr,
+    );
+
+    const apiCall = this.createApiCall(
+      detection.operation.operationType.toUpperCase(),
+      detection.url,
+      "graphql",
+      callExpr,
+      context,
+      detection.confidence,
+    );
+    apiCall.graphql = detection.operation;
+    return apiCall;
+  }
+
+  /**
+   * Check if the file imports a GraphQL client/document or defines gql documents
+   */
+  private usesGraphQL(context: AstContext): boolean {
+    const cacheKey = context.filePath;
+    if (this.graphqlFileCache.has(cacheKey)) {
+      return this.graphqlFileCache.get(cacheKey)!;
+    }
+
+    const uses =
+      context
+        .getImports()
+        .some((imp) =>
+          /apollo|urql|graphql|\.gql$/i.test(imp.moduleSpecifier),
+        ) || /\b(gql|graphql)\s*[`(]/.test(context.getText());
+
+    this.graphqlFileCache.set(cacheKey, uses);
+    return uses;
+  }
+
+  /**
+   * Name of the called function or method (useQuery, request, query, mutate, ...)
+   */
+  private getCalleeName(callExpr: CallExpression): string | null {
+    const expression = callExpr.getExpression();
+    if (expression.getKind() === SyntaxKind.Identifier) {
+      return expression.getText();
+    }
+    if (expression.getKind() === SyntaxKind.PropertyAccessExpression) {
+      return (expression as PropertyAccessExpression).getName();
+    }
+    return null;
+  }
+
+  /**
+   * Find the argument that carries a GraphQL document:
+   * useQuery(DOC), request(url, DOC), client.query({ query: DOC }), useQuery({ query: DOC })
+   */
+  private findDocumentArgument(
+    callExpr: CallExpression,
+    context: AstContext,
+  ): { operation: GraphQLOperationInfo; argIndex: number } | null {
+    const arguments_ = callExpr.getArguments().slice(0, 3);
+
+    for (let argIndex = 0; argIndex < arguments_.length; argIndex++) {
+      const arg = arguments_[argIndex];
+      if (arg.getKind() === SyntaxKind.ObjectLiteralExpression) {
+        for (const key of DOCUMENT_OPTION_KEYS) {
+          const value = getObjectOption(arg, key);
+          const operation = value && this.resolveDocument(value, context, 0);
+          if (operation) return { operation, argIndex };
+        }
+        continue;
+      }
+      const operation = this.resolveDocument(arg, context, 0);
+      if (operation) return { operation, argIndex };
+    }
+
+    return null;
+  }
+
+  /**
+   * Resolve a node to the first GraphQL operation it defines
+   */
+  private resolveDocument(
+    node: Node,
+    context: AstContext,
+    depth: number,
+  ): GraphQLOperationInfo | null {
+    if (depth > MAX_RESOLVE_DEPTH) {
+      return null;
+    }
+
+    // DOC as TypedDocumentNode, (DOC)
+    if (Node.isAsExpression(node) || Node.isParenthesizedExpression(node)) {
+      return this.resolveDocument(node.getExpression(), context, depth);
+    }
+
+    // gql`query GetUser { ... }`
+    if (node.getKind() === SyntaxKind.TaggedTemplateExpression) {
+      const tagged = node as TaggedTemplateExpression;
+      if (!DOCUMENT_TAGS.has(tagged.getTag().getText())) return null;
+      return this.firstOperation(this.getTemplateText(tagged.getTemplate()));
+    }
+
+    // graphql(`query GetUser { ... }`) (gql.tada, codegen client preset)
+    if (node.getKind() === SyntaxKind.CallExpression) {
+      const call = node as CallExpression;
+      const firstArg = call.getArguments()[0];
+      if (!DOCUMENT_TAGS.has(call.getExpression().getText()) || !firstArg) {
+        return null;
+      }
+      return this.firstOperation(this.getTemplateText(firstArg));
+    }
+
+    // request(url, `query { ... }`) - plain document strings
+    if (
+      node.getKind() === SyntaxKind.StringLiteral ||
+      node.getKind() === SyntaxKind.NoSubstitutionTemplateLiteral
+    ) {
+      const text = this.getTemplateText(node) ?? "";
+      if (!/^\s*(query|mutation|subscription)\b|^\s*\{/.test(text)) return null;
+      return this.firstOperation(text);
+    }
+
+    if (node.getKind() === SyntaxKind.Identifier) {
+      const name = node.getText();
+      const fromFile = this.resolveGraphQLFileImport(name, context);
+      if (fromFile) return fromFile;
+
+      try {
+        for (const definition of (node as Identifier).getDefinitionNodes()) {
+          if (definition.getKind() !== SyntaxKind.VariableDeclaration) continue;
+          const initializer = (definition as VariableDeclaration).getInitializer();
+          if (!initializer) continue;
+          const defContext =
+            definition.getSourceFile() === context.sourceFile
+              ? context
+              : new AstContext(
+                  definition.getSourceFile(),
+                  definition.getSourceFile().getFilePath(),
+                  definition.getProject(),
+                );
+          const operation = this.resolveDocument(initializer, defContext, depth + 1);
+          if (operation) return operation;
+        }
+      } catch {
+        // Symbol resolution failed (e.g. unresolvable import) - not a document we can read
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * import GET_USER from './user.graphql' / import { GetUser } from './ops.gql'
+   */
+  private resolveGraphQLFileImport(
+    name: string,
+    context: AstContext,
+  ): GraphQLOperationInfo | null {
+    for (const imp of context.getImports()) {
+      if (!/\.(graphql|gql)$/.test(imp.moduleSpecifier)) continue;
+      const isDefault = imp.defaultImport === name;
+      if (!isDefault && !imp.namedImports.includes(name)) continue;
+
+      const filePath = context.resolveImportPath(imp.moduleSpecifier);
+      if (!filePath || !fs.existsSync(filePath)) return null;
+
+      const operations = parseGraphQLOperations(fs.readFileSync(filePath, "utf-8"));
+      // graphql-tag/loader exposes named exports per operation name
+      const named = isDefault
+        ? undefined
+        : operations.find((op) => op.operationName === name);
+      return named ?? operations[0] ?? null;
+    }
+    return null;
+  }
+
+  private firstOperation(text: string | null): GraphQLOperationInfo | null {
+    if (!text) return null;
+    return parseGraphQLOperations(text)[0] ?? null;
+  }
+
+  /**
+   * Get the static text of a template or string; interpolations (fragments) are dropped
+   */
+  private getTemplateText(node: Node): string | null {
+    const kind = node.getKind();
+    if (kind === SyntaxKind.StringLiteral) {
+      return (node as StringLiteral).getLiteralValue();
+    }
+    if (kind === SyntaxKind.NoSubstitutionTemplateLiteral) {
+      return (node as NoSubstitutionTemplateLiteral).getLiteralText();
+    }
+    if (kind === SyntaxKind.TemplateExpression) {
+      const template = node as TemplateExpression;
+      return [
+        template.getHead().getLiteralText(),
+        ...template
+          .getTemplateSpans()
+          .map((span) => span.getLiteral().getLiteralText()),
+      ].join("\n");
+    }
+    return null;
+  }
+
+  /**
+   * Resolve the GraphQL endpoint for a call:
+   * request(url, DOC) -> url; client.request(DOC) where client = new GraphQLClient(url) -> url;
+   * otherwise the endpoint configured in the file, or DEFAULT_GRAPHQL_ENDPOINT.
+   */
+  private resolveEndpoint(
+    callExpr: CallExpression,
+    context: AstContext,
+    documentArgIndex: number,
+  ): { url: string; confidence: Confidence } {
+    // request('https://api/graphql', DOC, variables)
+    if (documentArgIndex > 0) {
+      const urlArg = callExpr.getArguments()[0];
+      const url = urlArg ? extractUrl(urlArg) : null;
+      if (url) return url;
+    }
+
+    // client.request(DOC) - follow client to new GraphQLClient(url)
+    const expression = callExpr.getExpression();
+    if (expression.getKind() === SyntaxKind.PropertyAccessExpression) {
+      const target = (expression as PropertyAccessExpression).getExpression();
+      if (target.getKind() === SyntaxKind.Identifier) {
+        try {
+          for (const definition of (target as Identifier).getDefinitionNodes()) {
+            if (definition.getKind() !== SyntaxKind.VariableDeclaration) continue;
+            const initializer = (definition as VariableDeclaration).getInitializer();
+            const url = initializer ? this.getClientEndpoint(initializer) : null;
+            if (url) return url;
+          }
+        } catch {
+          // fall through to file-level endpoint
+        }
+      }
+    }
+
+    return (
+      this.getFileEndpoint(context) ?? {
+        url: DEFAULT_GRAPHQL_ENDPOINT,
+        confidence: "medium",
+      }
+    );
+  }
+
+  /**
+   * First client endpoint configured anywhere in the file
+   */
+  private getFileEndpoint(
+    context: AstContext,
+  ): { url: string; confidence: Confidence } | null {
+    const cacheKey = context.filePath;
+    if (this.endpointCache.has(cacheKey)) {
+      return this.endpointCache.get(cacheKey)!;
+    }
+
+    let endpoint: { url: string; confidence: Confidence } | null = null;
+    const candidates = [
+      ...context.sourceFile.getDescendantsOfKind(SyntaxKind.NewExpression),
+      ...context.sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression),
+    ];
+    for (const candidate of candidates) {
+      endpoint = this.getClientEndpoint(candidate);
+      if (endpoint) break;
+    }
+
+    this.endpointCache.set(cacheKey, endpoint);
+    return endpoint;
+  }
+
+  /**
+   * Endpoint from new GraphQLClient(url), new HttpLink({ uri }), createClient({ url }), ...
+   */
+  private getClientEndpoint(
+    node: Node,
+  ): { url: string; confidence: Confidence } | null {
+    if (
+      node.getKind() !== SyntaxKind.NewExpression &&
+      node.getKind() !== SyntaxKind.CallExpression
+    ) {
+      return null;
+    }
+    const call = node as NewExpression | CallExpression;
+    if (!CLIENT_FACTORIES.has(call.getExpression().getText())) {
+      return null;
+    }
+
+    const firstArg = call.getArguments()[0];
+    if (!firstArg) {
+      return null;
+    }
+    if (firstArg.getKind() === SyntaxKind.ObjectLiteralExpression) {
+      const uri = getObjectOption(firstArg, "uri") ?? getObjectOption(firstArg, "url");
+      if (uri) return extractUrl(uri);
+      // new ApolloClient({ link: new HttpLink({ uri }) })
+      const link = getObjectOption(firstArg, "link");
+      return link ? this.getClientEndpoint(link) : null;
+    }
+    // new GraphQLClient(url, options) is the only positional-URL form
+    return call.getExpression().getText() === "GraphQLClient"
+      ? extractUrl(firstArg)
+      : null;
+  }
+
+  /**
+   * Clear caches (useful for testing or when file changes)
+   */
+  clearCache(): void {
+    this.endpointCache.clear();
+    this.graphqlFileCache.clear();
+  }
+}
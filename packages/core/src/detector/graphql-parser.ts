@@ -0,0 +1,275 @@
+/**
+ * Minimal GraphQL document parser
+ * Reads operation definitions (type, name, variables, root fields) from gql/graphql
+ * template text or .graphql files. Fragments and schema definitions are skipped.
+ */
+
+import type { GraphQLOperationInfo, GraphQLVariable } from "@api-surface/types";
+
+type TokenKind = "name" | "punct" | "value";
+
+interface Token {
+  kind: TokenKind;
+  value: string;
+}
+
+const OPERATION_TYPES = ["query", "mutation", "subscription"] as const;
+
+/**
+ * Split a GraphQL document into tokens (names, punctuators, literal values).
+ * Commas, whitespace and comments are insignificant in GraphQL and are dropped.
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/[\s,]/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // Comment: # ... end of line
+    if (ch === "#") {
+      while (i < source.length && source[i] !== "\n") i++;
+      continue;
+    }
+
+    if (source.startsWith("...", i)) {
+      tokens.push({ kind: "punct", value: "..." });
+      i += 3;
+      continue;
+    }
+
+    if ("!$&()/:=@[]{|}".includes(ch)) {
+      tokens.push({ kind: "punct", value: ch });
+      i++;
+      continue;
+    }
+
+    // Block string """ ... """
+    if (source.startsWith('"""', i)) {
+      const end = source.indexOf('"""', i + 3);
+      const stop = end === -1 ? source.length : end + 3;
+      tokens.push({ kind: "value", value: source.slice(i, stop) });
+      i = stop;
+      continue;
+    }
+
+    // String "..."
+    if (ch === '"') {
+      let j = i + 1;
+      while (j < source.length && source[j] !== '"' && source[j] !== "\n") {
+        j += source[j] === "\\" ? 2 : 1;
+      }
+      tokens.push({ kind: "value", value: source.slice(i, j + 1) });
+      i = j + 1;
+      continue;
+    }
+
+    const name = /^[_A-Za-z][_0-9A-Za-z]*/.exec(source.slice(i));
+    if (name) {
+      tokens.push({ kind: "name", value: name[0] });
+      i += name[0].length;
+      continue;
+    }
+
+    const number = /^-?\d+(\.\d+)?([eE][+-]?\d+)?/.exec(source.slice(i));
+    if (number) {
+      tokens.push({ kind: "value", value: number[0] });
+      i += number[0].length;
+      continue;
+    }
+
+    // Unknown character (e.g. leftover from a template interpolation) - skip
+    i++;
+  }
+
+  return tokens;
+}
+
+/**
+ * Index just past the bracket group that opens at `start` (tokens[start] is "(", "[" or "{")
+ */
+function skipGroup(tokens: Token[], start: number): number {
+  const open = tokens[start].value;
+  const close = open === "(" ? ")" : open === "[" ? "]" : "}";
+  let depth = 0;
+  for (let i = start; i < tokens.length; i++) {
+    const t = tokens[i];
+    if (t.kind !== "punct") continue;
+    if (t.value === open) depth++;
+    else if (t.value === close) {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+  return tokens.length;
+}
+
+/**
+ * Skip directives (@name or @name(args)) starting at i
+ */
+function skipDirectives(tokens: Token[], i: number): number {
+  while (tokens[i]?.value === "@") {
+    i += 2; // "@" + name
+    if (tokens[i]?.value === "(") i = skipGroup(tokens, i);
+  }
+  return i;
+}
+
+/**
+ * Parse variable definitions: ($id: ID!, $first: Int = 10)
+ */
+function parseVariables(
+  tokens: Token[],
+  start: number,
+): { variables: GraphQLVariable[]; end: number } {
+  const end = skipGroup(tokens, start);
+  const variables: GraphQLVariable[] = [];
+  let i = start + 1;
+
+  while (i < end - 1) {
+    if (tokens[i].value !== "$" || tokens[i + 1]?.kind !== "name") {
+      i++;
+      continue;
+    }
+    const name = tokens[i + 1].value;
+    i += 2;
+    if (tokens[i]?.value === ":") i++;
+
+    // Type: Name, [Name], Name!, [Name!]!
+    let type = "";
+    while (
+      i < end - 1 &&
+      (tokens[i].kind === "name" || "[]!".includes(tokens[i].value))
+    ) {
+      type += tokens[i].value;
+      i++;
+    }
+    variables.push({ name, type });
+
+    // Default value and directives until the next variable
+    while (i < end - 1 && tokens[i].value !== "$") {
+      i = "([{".includes(tokens[i].value) && tokens[i].kind === "punct"
+        ? skipGroup(tokens, i)
+        : i + 1;
+    }
+  }
+
+  return { variables, end };
+}
+
+/**
+ * Parse the root selection set and return the selected root field names (aliases resolved)
+ */
+function parseRootFields(
+  tokens: Token[],
+  start: number,
+): { fields: string[]; end: number } {
+  const end = skipGroup(tokens, start);
+  const fields: string[] = [];
+  let i = start + 1;
+
+  while (i < end - 1) {
+    const t = tokens[i];
+
+    // Fragment spread (...Name) or inline fragment (... on Type { })
+    if (t.value === "...") {
+      i++;
+      if (tokens[i]?.value === "on") i += 2;
+      else if (tokens[i]?.kind === "name") i++;
+      i = skipDirectives(tokens, i);
+      if (tokens[i]?.value === "{") i = skipGroup(tokens, i);
+      continue;
+    }
+
+    if (t.kind !== "name") {
+      i++;
+      continue;
+    }
+
+    // alias: field
+    let field = t.value;
+    i++;
+    if (tokens[i]?.value === ":" && tokens[i + 1]?.kind === "name") {
+      field = tokens[i + 1].value;
+      i += 2;
+    }
+    if (!fields.includes(field)) fields.push(field);
+
+    if (tokens[i]?.value === "(") i = skipGroup(tokens, i);
+    i = skipDirectives(tokens, i);
+    if (tokens[i]?.value === "{") i = skipGroup(tokens, i);
+  }
+
+  return { fields, end };
+}
+
+/**
+ * Parse all operation definitions in a GraphQL document.
+ * Returns an empty array when the text contains no operations (e.g. only fragments).
+ */
+export function parseGraphQLOperations(source: string): GraphQLOperationInfo[] {
+  const tokens = tokenize(source);
+  const operations: GraphQLOperationInfo[] = [];
+  let i = 0;
+
+  while (i < tokens.length) {
+    const t = tokens[i];
+
+    // Anonymous query shorthand: { user { id } }
+    if (t.value === "{") {
+      const { fields, end } = parseRootFields(tokens, i);
+      operations.push({ operationType: "query", rootFields: fields, variables: [] });
+      i = end;
+      continue;
+    }
+
+    if (
+      t.kind === "name" &&
+      (OPERATION_TYPES as readonly string[]).includes(t.value)
+    ) {
+      const operationType = t.value as GraphQLOperationInfo["operationType"];
+      i++;
+      let operationName: string | undefined;
+      if (tokens[i]?.kind === "name") {
+        operationName = tokens[i].value;
+        i++;
+      }
+      let variables: GraphQLVariable[] = [];
+      if (tokens[i]?.value === "(") {
+        const parsed = parseVariables(tokens, i);
+        variables = parsed.variables;
+        i = parsed.end;
+      }
+      i = skipDirectives(tokens, i);
+      if (tokens[i]?.value !== "{") {
+        continue;
+      }
+      const { fields, end } = parseRootFields(tokens, i);
+      operations.push({
+        operationName,
+        operationType,
+        rootFields: fields,
+        variables,
+      });
+      i = end;
+      continue;
+    }
+
+    // fragment / schema definitions: skip to the end of their body
+    if (t.kind === "name") {
+      let j = i + 1;
+      while (j < tokens.length && tokens[j].value !== "{") j++;
+      i = j < tokens.length ? skipGroup(tokens, j) : j;
+      continue;
+    }
+
+    i++;
+  }
+
+  return operations;
+}
@@ -0,0 +1,411 @@
+/**
+ * Import-aware HTTP client detector base
+ * Shared logic for library detectors (ky, ofetch, got, superagent, redaxios):
+ * import/require tracking, instance factories (ky.create, got.extend, ...) and base URL joining.
+ */
+
+import {
+  Node,
+  SyntaxKind,
+  CallExpression,
+  StringLiteral,
+  Identifier,
+  PropertyAccessExpression,
+  VariableDeclaration,
+} from "ts-morph";
+import { BaseDetector } from "./detector";
+import { AstContext } from "../ast/context";
+import { ScanConfig, ApiCall, ApiCallSource } from "@api-surface/types";
+import { extractUrl, lowestConfidence } from "./url-resolver";
+import { getObjectOption } from "./data-hook-utils";
+
+type Confidence = "high" | "medium" | "low";
+
+const HTTP_VERBS = ["GET", "POST", "PUT", "PATCH", "DELETE", "HEAD", "OPTIONS"];
+
+export interface HttpClientDetectionResult {
+  method: string;
+  url: string;
+  confidence: Confidence;
+}
+
+/**
+ * Describes how a client library is imported and called
+ */
+export interface HttpClientSpec {
+  /** Module specifiers that export the client (e.g. ["ky"]) */
+  modules: string[];
+  /** Named exports that are the client itself (e.g. ["ofetch", "$fetch"]) */
+  namedExports?: string[];
+  /** Globals usable without an import (e.g. Nuxt auto-imported "$fetch") */
+  globals?: string[];
+  /** Method name -> HTTP verb for client.method(url) calls */
+  verbs: Record<string, string>;
+  /** Method names called like the client itself: client.raw(url, options) */
+  callableAliases?: string[];
+  /** Whether client(url, options) / client({ url }) is a request */
+  callable: boolean;
+  /** superagent-style client("POST", url) */
+  methodFirstCallable?: boolean;
+  /** Methods that take a single config object: client.request({ url, method }) */
+  configMethods?: string[];
+  /** Factory methods returning a configured instance (e.g. ["create", "extend"]) */
+  factories: string[];
+  /** Option keys holding the instance/request base URL (e.g. ["prefixUrl"]) */
+  baseUrlKeys: string[];
+}
+
+/** A local binding to the client library or one of its instances */
+interface ClientBinding {
+  baseUrl?: { url: string; confidence: Confidence };
+}
+
+/**
+ * Base class for import-aware HTTP client detectors
+ */
+export abstract class HttpClientDetector extends BaseDetector {
+  abstract readonly id: string;
+  abstract readonly name: string;
+  protected abstract readonly source: ApiCallSource;
+  protected abstract readonly spec: HttpClientSpec;
+
+  // Cache for client bindings per file: local name -> binding (library import or instance)
+  private bindingCache = new Map<string, Map<string, ClientBinding>>();
+
+  /**
+   * Only detect on CallExpression nodes
+   */
+  shouldDetect(node: Node): boolean {
+    return node.getKind() === SyntaxKind.CallExpression;
+  }
+
+  /**
+   * Detect client library calls
+   */
+  detect(node: Node, context: AstContext, config: ScanConfig): ApiCall | null {
+    if (!this.shouldDetect(node)) {
+      return null;
+    }
+
+    const bindings = this.getBindings(context);
+    if (bindings.size === 0) {
+      return null;
+    }
+
+    const callExpr = node as CallExpression;
+    const detection = this.extractClientDetails(callExpr, bindings);
+    if (!detection) {
+      return null;
+    }
+
+    // Log detection for validation
+    this.logDetection(context, detection, callExpr);
+
+    return this.createApiCall(
+      detection.method,
+      detection.url,
+      this.source,
+      callExpr,
+      context,
+      detection.confidence,
+    );
+  }
+
+  /**
+   * Collect local names bound to the client: imports, require() calls, globals and instances
+   */
+  private getBindings(context: AstContext): Map<string, ClientBinding> {
+    const cacheKey = context.filePath;
+    const cached = this.bindingCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const bindings = new Map<string, ClientBinding>();
+
+    for (const imp of context.getImports()) {
+      if (imp.isTypeOnly || !this.spec.modules.includes(imp.moduleSpecifier)) {
+        continue;
+      }
+      if (imp.defaultImport) {
+        bindings.set(imp.defaultImport, {});
+      }
+      if (imp.namespaceImport) {
+        bindings.set(imp.namespaceImport, {});
+      }
+      for (const name of imp.namedImports) {
+        if (this.spec.namedExports?.includes(name)) {
+          bindings.set(name, {});
+        }
+      }
+    }
+
+    const importedNames = new Set(
+      context
+        .getImports()
+        .flatMap((imp) => [imp.defaultImport, imp.namespaceImport, ...imp.namedImports]),
+    );
+    for (const global of this.spec.globals ?? []) {
+      if (!importedNames.has(global) && this.isFreeIdentifier(context, global)) {
+        bindings.set(global, {});
+      }
+    }
+
+    // const request = require('superagent'); const api = ky.create({ prefixUrl }) - in source order
+    const declarations = context.sourceFile.getDescendantsOfKind(
+      SyntaxKind.VariableDeclaration,
+    );
+    for (const decl of declarations) {
+      this.collectDeclarationBinding(decl, bindings);
+    }
+
+    this.bindingCache.set(cacheKey, bindings);
+    return bindings;
+  }
+
+  /**
+   * Check that a global name (e.g. $fetch) is used in the file and not declared locally
+   */
+  private isFreeIdentifier(context: AstContext, name: string): boolean {
+    const sourceFile = context.sourceFile;
+    if (!sourceFile.getFullText().includes(name)) {
+      return false;
+    }
+    const declared = sourceFile
+      .getDescendantsOfKind(SyntaxKind.VariableDeclaration)
+      .some((decl) => decl.getName() === name);
+    return !declared;
+  }
+
+  /**
+   * Register require() bindings and instances created by a factory (ky.create, got.extend, ...)
+   */
+  private collectDeclarationBinding(
+    decl: VariableDeclaration,
+    bindings: Map<string, ClientBinding>,
+  ): void {
+    const nameNode = decl.getNameNode();
+    const initializer = decl.getInitializer();
+    if (nameNode.getKind() !== SyntaxKind.Identifier || !initializer) {
+      return;
+    }
+    if (initializer.getKind() !== SyntaxKind.CallExpression) {
+      return;
+    }
+    const call = initializer as CallExpression;
+    const callee = call.getExpression();
+    const localName = (nameNode as Identifier).getText();
+
+    // const got = require('got')
+    if (
+      callee.getKind() === SyntaxKind.Identifier &&
+      callee.getText() === "require"
+    ) {
+      const moduleArg = call.getArguments()[0];
+      if (
+        moduleArg?.getKind() === SyntaxKind.StringLiteral &&
+        this.spec.modules.includes((moduleArg as StringLiteral).getLiteralValue())
+      ) {
+        bindings.set(localName, {});
+      }
+      return;
+    }
+
+    // const api = ky.create({ prefixUrl: '...' })
+    if (callee.getKind() !== SyntaxKind.PropertyAccessExpression) {
+      return;
+    }
+    const propAccess = callee as PropertyAccessExpression;
+    const target = propAccess.getExpression();
+    if (
+      target.getKind() !== SyntaxKind.Identifier ||
+      !this.spec.factories.includes(propAccess.getName())
+    ) {
+      return;
+    }
+    const parent = bindings.get(target.getText());
+    if (!parent) {
+      return;
+    }
+
+    const options = call.getArguments()[0];
+    const ownBase = options ? this.extractBaseUrl(options) : null;
+    bindings.set(localName, {
+      baseUrl: ownBase ?? parent.baseUrl,
+    });
+  }
+
+  /**
+   * Extract client call details (method, URL, confidence)
+   */
+  private extractClientDetails(
+    callExpr: CallExpression,
+    bindings: Map<string, ClientBinding>,
+  ): HttpClientDetectionResult | null {
+    const expression = callExpr.getExpression();
+    const arguments_ = callExpr.getArguments();
+
+    // Case 1: client(url, options), client({ url }), client('POST', url)
+    if (expression.getKind() === SyntaxKind.Identifier) {
+      const binding = bindings.get(expression.getText());
+      if (!binding || !this.spec.callable) return null;
+      return this.extractFromCallable(arguments_, binding);
+    }
+
+    if (expression.getKind() !== SyntaxKind.PropertyAccessExpression) {
+      return null;
+    }
+    const propAccess = expression as PropertyAccessExpression;
+    const objectExpr = propAccess.getExpression();
+    if (objectExpr.getKind() !== SyntaxKind.Identifier) {
+      return null;
+    }
+    const binding = bindings.get(objectExpr.getText());
+    if (!binding) {
+      return null;
+    }
+    const methodName = propAccess.getName();
+
+    // Case 2: client.get(url, options)
+    const verb = this.spec.verbs[methodName];
+    if (verb) {
+      const urlArg = arguments_[0];
+      if (!urlArg) return null;
+      const optionsArg = arguments_[1];
+      return this.buildResult(verb, extractUrl(urlArg), binding, optionsArg);
+    }
+
+    // Case 3: client.raw(url, options) - same shape as calling the client
+    if (this.spec.callableAliases?.includes(methodName)) {
+      return this.extractFromCallable(arguments_, binding);
+    }
+
+    // Case 4: client.request({ url, method })
+    if (this.spec.configMethods?.includes(methodName)) {
+      const configArg = arguments_[0];
+      if (!configArg) return null;
+      return this.extractFromConfigObject(configArg, binding);
+    }
+
+    return null;
+  }
+
+  /**
+   * Extract from a direct client call: client(url, { method }) or client({ url, method })
+   */
+  private extractFromCallable(
+    arguments_: Node[],
+    binding: ClientBinding,
+  ): HttpClientDetectionResult | null {
+    const firstArg = arguments_[0];
+    if (!firstArg) {
+      return null;
+    }
+
+    if (firstArg.getKind() === SyntaxKind.ObjectLiteralExpression) {
+      return this.extractFromConfigObject(firstArg, binding);
+    }
+
+    // superagent('POST', '/x')
+    if (this.spec.methodFirstCallable && arguments_.length > 1) {
+      if (firstArg.getKind() === SyntaxKind.StringLiteral) {
+        const method = (firstArg as StringLiteral).getLiteralValue();
+        if (HTTP_VERBS.includes(method.toUpperCase())) {
+          return this.buildResult(
+            method.toUpperCase(),
+            extractUrl(arguments_[1]),
+            binding,
+          );
+        }
+      }
+    }
+
+    const optionsArg = arguments_[1];
+    const method =
+      (optionsArg && getObjectOption(optionsArg, "method")?.getText()) || null;
+    return this.buildResult(
+      method ? this.unquote(method).toUpperCase() : "GET",
+      extractUrl(firstArg),
+      binding,
+      optionsArg,
+    );
+  }
+
+  /**
+   * Extract from config object: client.request({ url, method, baseURL })
+   */
+  private extractFromConfigObject(
+    node: Node,
+    binding: ClientBinding,
+  ): HttpClientDetectionResult | null {
+    if (node.getKind() !== SyntaxKind.ObjectLiteralExpression) {
+      return null;
+    }
+    const urlNode = getObjectOption(node, "url");
+    if (!urlNode) {
+      return null;
+    }
+    const methodNode = getObjectOption(node, "method");
+    const method = methodNode ? this.unquote(methodNode.getText()) : "GET";
+    return this.buildResult(
+      method.toUpperCase(),
+      extractUrl(urlNode),
+      binding,
+      node,
+    );
+  }
+
+  /**
+   * Combine the request URL with the per-call or instance base URL
+   */
+  private buildResult(
+    method: string,
+    urlResult: { url: string; confidence: Confidence },
+    binding: ClientBinding,
+    optionsArg?: Node,
+  ): HttpClientDetectionResult {
+    const base =
+      (optionsArg ? this.extractBaseUrl(optionsArg) : null) ?? binding.baseUrl;
+    if (!base || /^[a-z][a-z0-9+.-]*:\/\//i.test(urlResult.url)) {
+      return { method, ...urlResult };
+    }
+
+    const url = `${base.url.replace(/\/+$/, "")}/${urlResult.url.replace(/^\/+/, "")}`;
+    return {
+      method,
+      url,
+      confidence: lowestConfidence(base.confidence, urlResult.confidence),
+    };
+  }
+
+  /**
+   * Read the base URL option (prefixUrl / baseURL) from an options object
+   */
+  private extractBaseUrl(
+    node: Node,
+  ): { url: string; confidence: Confidence } | null {
+    for (const key of this.spec.baseUrlKeys) {
+      const value = getObjectOption(node, key);
+      if (value) {
+        const result = extractUrl(value);
+        // Non-literal bases (env vars, constants) are kept as a template placeholder
+        if (result.confidence === "low") {
+          return { url: `\${${result.url}}`, confidence: "medium" };
+        }
+        return result;
+      }
+    }
+    return null;
+  }
+
+  private unquote(text: string): string {
+    return text.replace(/^['"`]|['"`]$/g, "");
+  }
+
+  /**
+   * Clear binding cache (useful for testing or when file changes)
+   */
+  clearCache(): void {
+    this.bindingCache.clear();
+  }
+}
@@ -7,3 +7,30 @@ export * from './registry';
 export * from './visitor';
 export * from './fetch-detector';
 export * from './axios-detector';
+export * from './custom-detector';
+export * from './http-client-detector';
+export * from './ky-detector';
+export * from './ofetch-detector';
+export * from './got-detector';
+export * from './superagent-detector';
+export * from './redaxios-detector';
+export * from './graphql-parser';
+export * from './graphql-detector';
+export * from './data-hook-utils';
+export * from './swr-detector';
+export * from './tanstack-query-detector';
+export * from './rtk-query-detector';
+export * from './trpc-router';
+export * from './trpc-detector';
+export * from './server-action';
+export * from './server-action-detector';
+export * from './channel-detector';
+export * from './websocket-detector';
+export * from './eventsource-detector';
+export * from './socketio-detector';
+export * from './xhr-detector';
+export * from './jquery-detector';
+export * from './beacon-detector';
+export * from './angular-detector';
+export * from './url-resolver';
+export * from './request-shape';
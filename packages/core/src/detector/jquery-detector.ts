@@ -0,0 +1,193 @@
+/**
+ * jQuery Ajax Detector
+ * Detects $.ajax({ url, type | method }), $.ajax(url, settings), $.get / $.post / $.getJSON / $.getScript
+ * and $(selector).load(url) on `$` / `jQuery` (global, or imported from "jquery").
+ */
+
+import { Node, SyntaxKind, CallExpression } from "ts-morph";
+import { BaseDetector } from "./detector";
+import { AstContext } from "../ast/context";
+import { ScanConfig, ApiCall } from "@api-surface/types";
+import { extractUrl, resolveStringValue } from "./url-resolver";
+import { getObjectOption } from "./data-hook-utils";
+import { extractJqueryRequestShape } from "./request-shape";
+
+type Confidence = "high" | "medium" | "low";
+
+export interface JqueryDetectionResult {
+  method: string;
+  url: string;
+  confidence: Confidence;
+}
+
+const JQUERY_NAMES = new Set(["$", "jQuery"]);
+
+/** Shorthand methods: $.get(url, data?, success?) */
+const SHORTHAND_METHODS: Record<string, string> = {
+  get: "GET",
+  post: "POST",
+  getJSON: "GET",
+  getScript: "GET",
+};
+
+/**
+ * Detector for jQuery Ajax calls
+ */
+export class JqueryDetector extends BaseDetector {
+  readonly id = "jquery";
+  readonly name = "jQuery Ajax Detector";
+
+  // Cache per file: local names bound to jQuery
+  private jqueryNamesCache = new Map<string, Set<string>>();
+
+  /**
+   * Only detect on CallExpression nodes
+   */
+  shouldDetect(node: Node): boolean {
+    return node.getKind() === SyntaxKind.CallExpression;
+  }
+
+  /**
+   * Detect jQuery Ajax calls
+   */
+  detect(node: Node, context: AstContext, config: ScanConfig): ApiCall | null {
+    if (!this.shouldDetect(node)) {
+      return null;
+    }
+
+    const callExpr = node as CallExpression;
+    const callee = callExpr.getExpression();
+    if (!Node.isPropertyAccessExpression(callee)) {
+      return null;
+    }
+
+    const methodName = callee.getName();
+    const receiver = callee.getExpression();
+    const jqueryNames = this.getJqueryNames(context);
+    const args = callExpr.getArguments();
+
+    let result: { method: string; urlNode?: Node; data?: Node; settings?: Node } | null = null;
+    if (Node.isIdentifier(receiver) && jqueryNames.has(receiver.getText())) {
+      if (methodName === "ajax") {
+        result = this.readAjaxCall(args);
+      } else if (SHORTHAND_METHODS[methodName]) {
+        // $.get(url, data, success): data is the second argument unless it is the callback
+        const data = args[1] && !isFunction(args[1]) ? args[1] : undefined;
+        result = { method: SHORTHAND_METHODS[methodName], urlNode: args[0], data };
+      }
+    } else if (
+      methodName === "load" &&
+      Node.isCallExpression(receiver) &&
+      jqueryNames.has(receiver.getExpression().getText())
+    ) {
+      // $('#panel').load(url, data?): POST when data is an object
+      const data = args[1] && !isFunction(args[1]) ? args[1] : undefined;
+      result = {
+        method: data && Node.isObjectLiteralExpression(data) ? "POST" : "GET",
+        urlNode: args[0],
+        data,
+      };
+    }
+
+    if (!result?.urlNode) {
+      return null;
+    }
+
+    const urlResult = extractUrl(result.urlNode);
+    const detection: JqueryDetectionResult = {
+      method: result.method,
+      url: urlResult.url,
+      confidence: urlResult.confidence,
+    };
+
+    // Log detection for validation
+    this.logDetection(context, detection, callExpr);
+
+    const apiCall = this.createApiCall(
+      detection.method,
+      detection.url,
+      "jquery",
+      callExpr,
+      context,
+      detection.confidence,
+    );
+
+    const request = extractJqueryRequestShape(detection.method, result.data, result.settings);
+    if (request) {
+      apiCall.request = request;
+    }
+    return apiCall;
+  }
+
+  /**
+   * $.ajax({ url, type | method, data }) or $.ajax(url, { type, data })
+   */
+  private readAjaxCall(
+    args: Node[],
+  ): { method: string; urlNode?: Node; data?: Node; settings?: Node } | null {
+    const [first, second] = args;
+    if (!first) {
+      return null;
+    }
+
+    const settings = Node.isObjectLiteralExpression(first) ? first : second;
+    const urlNode = Node.isObjectLiteralExpression(first) ? getObjectOption(first, "url") : first;
+    if (!urlNode) {
+      return null;
+    }
+
+    let method = "GET";
+    const methodNode = settings && (getObjectOption(settings, "method") ?? getObjectOption(settings, "type"));
+    if (methodNode) {
+      method = resolveStringValue(methodNode)?.toUpperCase() ?? methodNode.getText();
+    }
+
+    return {
+      method,
+      urlNode,
+      data: (settings && getObjectOption(settings, "data")) ?? undefined,
+      settings,
+    };
+  }
+
+  /**
+   * Names bound to jQuery in this file: `$` / `jQuery` unless imported from another module,
+   * plus default / namespace imports of "jquery" (import jq from "jquery")
+   */
+  private getJqueryNames(context: AstContext): Set<string> {
+    const cacheKey = context.filePath;
+    const cached = this.jqueryNamesCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const names = new Set(JQUERY_NAMES);
+    for (const imp of context.getImports()) {
+      const localNames = [
+        imp.defaultImport,
+        imp.namespaceImport,
+        ...imp.namedImports,
+      ].filter((name): name is string => !!name);
+      if (imp.moduleSpecifier === "jquery") {
+        localNames.forEach((name) => names.add(name));
+      } else {
+        // `$` from another library (zx, cheerio, ...) is not jQuery
+        localNames.forEach((name) => names.delete(name));
+      }
+    }
+
+    this.jqueryNamesCache.set(cacheKey, names);
+    return names;
+  }
+
+  /**
+   * Clear jQuery names cache (useful for testing or when file changes)
+   */
+  clearCache(): void {
+    this.jqueryNamesCache.clear();
+  }
+}
+
+function isFunction(node: Node): boolean {
+  return Node.isArrowFunction(node) || Node.isFunctionExpression(node);
+}
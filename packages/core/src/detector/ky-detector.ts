@@ -0,0 +1,29 @@
+/**
+ * ky API Call Detector
+ * Detects ky(url), ky.get(url), ky.post(url, { json }) and instances from ky.create/ky.extend({ prefixUrl })
+ */
+
+import { HttpClientDetector, HttpClientSpec } from "./http-client-detector";
+
+/**
+ * Detector for ky API calls
+ */
+export class KyDetector extends HttpClientDetector {
+  readonly id = "ky";
+  readonly name = "Ky API Detector";
+  protected readonly source = "ky" as const;
+  protected readonly spec: HttpClientSpec = {
+    modules: ["ky", "ky-universal"],
+    verbs: {
+      get: "GET",
+      post: "POST",
+      put: "PUT",
+      patch: "PATCH",
+      delete: "DELETE",
+      head: "HEAD",
+    },
+    callable: true,
+    factories: ["create", "extend"],
+    baseUrlKeys: ["prefixUrl"],
+  };
+}
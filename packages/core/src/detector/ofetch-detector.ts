@@ -0,0 +1,27 @@
+/**
+ * ofetch / $fetch API Call Detector
+ * Detects ofetch(url, { method }), Nuxt-style $fetch(url), $fetch.raw(url)
+ * and instances from ofetch.create({ baseURL })
+ */
+
+import { HttpClientDetector, HttpClientSpec } from "./http-client-detector";
+
+/**
+ * Detector for ofetch and Nuxt $fetch API calls
+ */
+export class OfetchDetector extends HttpClientDetector {
+  readonly id = "ofetch";
+  readonly name = "Ofetch API Detector";
+  protected readonly source = "ofetch" as const;
+  protected readonly spec: HttpClientSpec = {
+    modules: ["ofetch", "ohmyfetch"],
+    namedExports: ["ofetch", "$fetch"],
+    // Nuxt auto-imports $fetch, so it is usually called without an import
+    globals: ["$fetch"],
+    verbs: {},
+    callableAliases: ["raw"],
+    callable: true,
+    factories: ["create"],
+    baseUrlKeys: ["baseURL", "baseUrl"],
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * redaxios API Call Detector
+ * Detects redaxios.get(url), redaxios(url, { method }), redaxios.request({ url, method })
+ * and instances from redaxios.create({ baseURL })
+ */
+
+import { HttpClientDetector, HttpClientSpec } from "./http-client-detector";
+
+/**
+ * Detector for redaxios API calls
+ */
+export class RedaxiosDetector extends HttpClientDetector {
+  readonly id = "redaxios";
+  readonly name = "Redaxios API Detector";
+  protected readonly source = "redaxios" as const;
+  protected readonly spec: HttpClientSpec = {
+    modules: ["redaxios"],
+    verbs: {
+      get: "GET",
+      post: "POST",
+      put: "PUT",
+      patch: "PATCH",
+      delete: "DELETE",
+      head: "HEAD",
+      options: "OPTIONS",
+    },
+    callable: true,
+    configMethods: ["request"],
+    factories: ["create"],
+    baseUrlKeys: ["baseURL"],
+  };
+}
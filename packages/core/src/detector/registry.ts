@@ -11,6 +11,8 @@ import { ScanConfig } from "@api-surface/types";
 export class DetectorRegistry {
   private detectors: Map<string, Detector> = new Map();
   private enabledDetectors: Set<string> = new Set();
+  /** Detectors registered by plugins (always run, like built-ins) */
+  private pluginDetectors: Set<string> = new Set();
 
   /**
    * Register a detector
@@ -26,12 +28,36 @@ export class DetectorRegistry {
     this.enabledDetectors.add(detector.id);
   }
 
+  /**
+   * Register a detector provided by a plugin. Unlike register(), an id that is
+   * already taken (by a built-in or another plugin) is an error, not an overwrite.
+   */
+  registerPluginDetector(detector: Detector, pluginName: string): void {
+    if (!detector.id || typeof detector.detect !== "function") {
+      throw new Error(
+        `Plugin "${pluginName}" provided an invalid detector (expected an object with id, name and detect())`,
+      );
+    }
+    if (this.detectors.has(detector.id)) {
+      const owner = this.pluginDetectors.has(detector.id)
+        ? "another plugin"
+        : "a built-in detector";
+      throw new Error(
+        `Plugin "${pluginName}" detector id "${detector.id}" collides with ${owner}`,
+      );
+    }
+
+    this.register(detector);
+    this.pluginDetectors.add(detector.id);
+  }
+
   /**
    * Unregister a detector
    */
   unregister(detectorId: string): boolean {
     const removed = this.detectors.delete(detectorId);
     this.enabledDetectors.delete(detectorId);
+    this.pluginDetectors.delete(detectorId);
     return removed;
   }
 
@@ -89,6 +115,16 @@ export class DetectorRegistry {
   clear(): void {
     this.detectors.clear();
     this.enabledDetectors.clear();
+    this.pluginDetectors.clear();
+  }
+
+  /**
+   * Clear the per-file caches of all detectors (before rescanning changed files)
+   */
+  clearCaches(): void {
+    for (const detector of this.detectors.values()) {
+      detector.clearCache?.();
+    }
   }
 
   /**
@@ -99,20 +135,47 @@ export class DetectorRegistry {
   }
 
   /** Built-in detector IDs that always run (no config required). */
-  private static readonly BUILTIN_ALWAYS_RUN = new Set(["fetch", "axios"]);
+  private static readonly BUILTIN_ALWAYS_RUN = new Set([
+    "fetch",
+    "axios",
+    "ky",
+    "ofetch",
+    "got",
+    "superagent",
+    "redaxios",
+    "graphql",
+    "swr",
+    "tanstack-query",
+    "rtk-query",
+    "trpc",
+    "server-action",
+    "websocket",
+    "eventsource",
+    "socketio",
+    "xhr",
+    "jquery",
+    "beacon",
+    "angular",
+  ]);
 
   /**
    * Filter detectors based on config.
-   * Fetch and axios always run; config apiClients only adds custom detectors or patterns.
+   * Built-in detectors (fetch, axios, HTTP client libraries, Angular HttpClient, graphql, data-fetching
+   * hooks, trpc, server actions, real-time channels and legacy XHR / jQuery / sendBeacon) and plugin detectors
+   * always run; config apiClients only adds custom detectors or patterns.
    */
   filterByConfig(config: ScanConfig): Detector[] {
     const enabled = this.getEnabled();
 
     return enabled.filter((detector) => {
-      // Always run built-in fetch and axios (zero-config)
+      // Always run built-in HTTP client detectors (zero-config)
       if (DetectorRegistry.BUILTIN_ALWAYS_RUN.has(detector.id)) {
         return true;
       }
+      // Plugin detectors were opted into by the config's plugins list
+      if (this.pluginDetectors.has(detector.id)) {
+        return true;
+      }
       // Custom detectors: only run if listed in config apiClients
       const apiClients = config.apiClients;
       if (apiClients && Array.isArray(apiClients)) {
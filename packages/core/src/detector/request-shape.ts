@@ -0,0 +1,378 @@
+/**
+ * Request shape extraction for fetch / axios (and XHR / jQuery / sendBeacon) call sites.
+ * Infers body encoding and field names, header names and query parameter names from the AST,
+ * falling back to the type checker for identifiers (interfaces, spreads):
+ *
+ *   fetch('/api/users', { method: 'POST', headers: { Authorization: token },
+ *                         body: JSON.stringify({ name, email }) })
+ *   -> { bodyType: "json", bodyFields: ["name", "email"], headers: ["Authorization"] }
+ *
+ *   const form = new FormData(); form.append('avatar', file); axios.post('/upload', form)
+ *   -> { bodyType: "form-data", bodyFields: ["avatar"] }
+ */
+
+import { Node, SyntaxKind, CallExpression, Identifier, VariableDeclaration } from "ts-morph";
+import { RequestShape } from "@api-surface/types";
+import { unwrapExpression } from "./url-resolver";
+import { getObjectOption } from "./data-hook-utils";
+
+/** Axios methods whose second argument is the request body */
+const AXIOS_BODY_METHODS = new Set(["POST", "PUT", "PATCH"]);
+
+/** Methods that add entries to FormData / URLSearchParams / Headers */
+const APPEND_METHODS = new Set(["append", "set"]);
+
+/**
+ * fetch(url, { body, headers }) - query names come from URLSearchParams interpolated into the URL
+ */
+export function extractFetchRequestShape(
+  urlArg: Node | undefined,
+  options: Node | undefined,
+): RequestShape | undefined {
+  const shape: RequestShape = {};
+
+  const body = options ? getOption(options, "body") : undefined;
+  if (body) {
+    Object.assign(shape, readBody(body, "text"));
+  }
+
+  const headers = options ? getOption(options, "headers") : undefined;
+  if (headers) {
+    shape.headers = readEntryNames(headers, "Headers");
+  }
+
+  if (urlArg) {
+    shape.queryParams = readUrlQueryParams(urlArg);
+  }
+
+  return compactShape(shape);
+}
+
+/**
+ * axios.post(url, data, config) / axios.get(url, config) / axios.request({ data, headers, params })
+ */
+export function extractAxiosRequestShape(
+  method: string,
+  args: Node[],
+  isRequestConfig: boolean,
+): RequestShape | undefined {
+  let data: Node | undefined;
+  let config: Node | undefined;
+  if (isRequestConfig) {
+    config = args[0];
+    data = config ? getOption(config, "data") : undefined;
+  } else if (AXIOS_BODY_METHODS.has(method.toUpperCase())) {
+    data = args[1];
+    config = args[2];
+  } else {
+    config = args[1];
+  }
+
+  const shape: RequestShape = {};
+  if (data) {
+    // Plain objects are serialized as JSON by axios
+    Object.assign(shape, readBody(data, "json"));
+  }
+
+  const headers = config ? getOption(config, "headers") : undefined;
+  if (headers) {
+    shape.headers = readEntryNames(headers, "Headers");
+  }
+
+  const params = config ? getOption(config, "params") : undefined;
+  if (params) {
+    shape.queryParams = readEntryNames(params, "URLSearchParams");
+  }
+
+  const urlArg = isRequestConfig ? (config ? getOption(config, "url") : undefined) : args[0];
+  if (urlArg) {
+    shape.queryParams = [...(shape.queryParams ?? []), ...readUrlQueryParams(urlArg)];
+  }
+
+  return compactShape(shape);
+}
+
+/**
+ * xhr.send(body) with headers from xhr.setRequestHeader(name, value); navigator.sendBeacon(url, data)
+ */
+export function extractSendRequestShape(
+  body: Node | undefined,
+  headers: string[] = [],
+): RequestShape | undefined {
+  return compactShape({
+    ...(body ? readBody(body, "text") : {}),
+    headers,
+  });
+}
+
+/**
+ * $.ajax({ data, headers }) / $.post(url, data): plain objects are form-encoded (query string for GET)
+ */
+export function extractJqueryRequestShape(
+  method: string,
+  data: Node | undefined,
+  settings: Node | undefined,
+): RequestShape | undefined {
+  const shape: RequestShape = {};
+
+  if (data) {
+    const body = readBody(data, "json");
+    if (body.bodyType === "json" && !isJsonStringify(data)) {
+      // Objects are serialized with $.param
+      const fields = body.bodyFields ?? [];
+      if (method.toUpperCase() === "GET") {
+        shape.queryParams = fields;
+      } else {
+        shape.bodyType = "url-encoded";
+        shape.bodyFields = fields;
+      }
+    } else {
+      Object.assign(shape, body);
+    }
+  }
+
+  const headers = settings ? getOption(settings, "headers") : undefined;
+  if (headers) {
+    shape.headers = readEntryNames(headers, "Headers");
+  }
+
+  return compactShape(shape);
+}
+
+/**
+ * Body encoding and field names. `objectType` is how a plain value is sent
+ * (axios serializes objects to JSON; fetch sends strings as text).
+ */
+function readBody(node: Node, objectType: "json" | "text"): Pick<RequestShape, "bodyType" | "bodyFields"> {
+  const expr = unwrapExpression(node);
+
+  // JSON.stringify({ ... })
+  if (Node.isCallExpression(expr) && expr.getExpression().getText() === "JSON.stringify") {
+    const value = expr.getArguments()[0];
+    return { bodyType: "json", bodyFields: value ? getObjectKeys(value) : [] };
+  }
+
+  // new FormData() / new URLSearchParams({ ... })
+  if (Node.isNewExpression(expr)) {
+    const className = expr.getExpression().getText();
+    if (className === "FormData") {
+      return { bodyType: "form-data", bodyFields: [] };
+    }
+    if (className === "URLSearchParams") {
+      return { bodyType: "url-encoded", bodyFields: readEntryNames(expr, "URLSearchParams") };
+    }
+  }
+
+  if (Node.isIdentifier(expr)) {
+    const declaration = resolveConstDeclaration(expr);
+    const initializer = declaration?.getInitializer();
+    if (declaration && initializer) {
+      const result = readBody(initializer, objectType);
+      // Entries appended after construction: form.append('file', file)
+      if (result.bodyType === "form-data" || result.bodyType === "url-encoded") {
+        result.bodyFields = unique([
+          ...(result.bodyFields ?? []),
+          ...collectAppendedNames(declaration),
+        ]);
+      }
+      return result;
+    }
+  }
+
+  if (
+    Node.isStringLiteral(expr) ||
+    Node.isNoSubstitutionTemplateLiteral(expr) ||
+    Node.isTemplateExpression(expr)
+  ) {
+    return { bodyType: "text" };
+  }
+
+  if (Node.isObjectLiteralExpression(expr)) {
+    return { bodyType: "json", bodyFields: getObjectKeys(expr) };
+  }
+
+  // Fall back to the type checker: string bodies are text, object types list their properties
+  const typeName = getTypeKind(expr);
+  if (typeName === "FormData") return { bodyType: "form-data", bodyFields: [] };
+  if (typeName === "URLSearchParams") return { bodyType: "url-encoded", bodyFields: [] };
+  if (typeName === "string") return { bodyType: "text" };
+  if (typeName === "object") {
+    return { bodyType: objectType === "json" ? "json" : "unknown", bodyFields: getObjectKeys(expr) };
+  }
+  return { bodyType: "unknown" };
+}
+
+/**
+ * Entry names of a headers / params value: object literal keys, new Headers({ ... }) /
+ * new URLSearchParams({ ... }) keys plus later .append / .set calls, or type properties
+ */
+function readEntryNames(node: Node, className: "Headers" | "URLSearchParams"): string[] {
+  const expr = unwrapExpression(node);
+
+  if (Node.isNewExpression(expr) && expr.getExpression().getText() === className) {
+    const init = expr.getArguments()[0];
+    return init ? getObjectKeys(init) : [];
+  }
+
+  if (Node.isIdentifier(expr)) {
+    const declaration = resolveConstDeclaration(expr);
+    const initializer = declaration?.getInitializer();
+    if (declaration && initializer) {
+      return unique([
+        ...readEntryNames(initializer, className),
+        ...collectAppendedNames(declaration),
+      ]);
+    }
+  }
+
+  return getObjectKeys(expr);
+}
+
+/**
+ * Query names from URLSearchParams interpolated into a URL: `/search?${params}`, `?${new URLSearchParams({ q })}`
+ */
+function readUrlQueryParams(urlArg: Node): string[] {
+  const expr = unwrapExpression(urlArg);
+  if (!Node.isTemplateExpression(expr)) {
+    return [];
+  }
+
+  const names: string[] = [];
+  for (const span of expr.getTemplateSpans()) {
+    let value = unwrapExpression(span.getExpression());
+    // params.toString()
+    if (Node.isCallExpression(value)) {
+      const callee = value.getExpression();
+      if (Node.isPropertyAccessExpression(callee) && callee.getName() === "toString") {
+        value = unwrapExpression(callee.getExpression());
+      }
+    }
+    if (getTypeKind(value) === "URLSearchParams" || isNewOf(value, "URLSearchParams")) {
+      names.push(...readEntryNames(value, "URLSearchParams"));
+    }
+  }
+  return names;
+}
+
+/**
+ * Keys of an object value: literal keys (including spreads), else properties of its type
+ */
+function getObjectKeys(node: Node): string[] {
+  const expr = unwrapExpression(node);
+
+  if (Node.isObjectLiteralExpression(expr)) {
+    const keys: string[] = [];
+    for (const property of expr.getProperties()) {
+      if (Node.isSpreadAssignment(property)) {
+        keys.push(...getObjectKeys(property.getExpression()));
+      } else if (
+        Node.isPropertyAssignment(property) ||
+        Node.isShorthandPropertyAssignment(property) ||
+        Node.isMethodDeclaration(property)
+      ) {
+        keys.push(property.getName().replace(/^['"`]|['"`]$/g, ""));
+      }
+    }
+    return unique(keys);
+  }
+
+  if (Node.isIdentifier(expr)) {
+    const initializer = resolveConstDeclaration(expr)?.getInitializer();
+    if (initializer && Node.isObjectLiteralExpression(unwrapExpression(initializer))) {
+      return getObjectKeys(initializer);
+    }
+  }
+
+  if (getTypeKind(expr) !== "object") {
+    return [];
+  }
+  try {
+    return unique(expr.getType().getProperties().map((symbol) => symbol.getName()));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Names added with .append('name', ...) / .set('name', ...) on a FormData / URLSearchParams / Headers variable
+ */
+function collectAppendedNames(declaration: VariableDeclaration): string[] {
+  const variableName = declaration.getName();
+  const scope =
+    declaration.getFirstAncestor((ancestor) => Node.isBlock(ancestor) || Node.isSourceFile(ancestor)) ??
+    declaration.getSourceFile();
+
+  const names: string[] = [];
+  for (const call of scope.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+    const callee = call.getExpression();
+    if (
+      !Node.isPropertyAccessExpression(callee) ||
+      !APPEND_METHODS.has(callee.getName()) ||
+      callee.getExpression().getText() !== variableName
+    ) {
+      continue;
+    }
+    const nameArg = (call as CallExpression).getArguments()[0];
+    if (nameArg && (Node.isStringLiteral(nameArg) || Node.isNoSubstitutionTemplateLiteral(nameArg))) {
+      names.push(nameArg.getLiteralValue());
+    }
+  }
+  return names;
+}
+
+/**
+ * Coarse type classification used for fallbacks
+ */
+function getTypeKind(node: Node): "string" | "object" | "FormData" | "URLSearchParams" | null {
+  try {
+    const type = node.getType();
+    if (type.isAny() || type.isUnknown()) return null;
+    if (type.isString() || type.isStringLiteral() || type.isTemplateLiteral()) return "string";
+    const symbolName = type.getSymbol()?.getName();
+    if (symbolName === "FormData" || symbolName === "URLSearchParams") return symbolName;
+    if (type.isArray() || type.isTuple()) return null;
+    if (type.isObject() || type.isIntersection()) return "object";
+  } catch {
+    // Type checking failed
+  }
+  return null;
+}
+
+function getOption(node: Node, key: string): Node | undefined {
+  return getObjectOption(unwrapExpression(node), key) ?? undefined;
+}
+
+function resolveConstDeclaration(identifier: Identifier): VariableDeclaration | undefined {
+  try {
+    for (const definition of identifier.getDefinitionNodes()) {
+      if (Node.isVariableDeclaration(definition)) {
+        return definition;
+      }
+    }
+  } catch {
+    // Definition lookup failed (unresolvable import)
+  }
+  return undefined;
+}
+
+function isJsonStringify(node: Node): boolean {
+  const expr = unwrapExpression(node);
+  return Node.isCallExpression(expr) && expr.getExpression().getText() === "JSON.stringify";
+}
+
+function isNewOf(node: Node, className: string): boolean {
+  return Node.isNewExpression(node) && node.getExpression().getText() === className;
+}
+
+function compactShape(shape: RequestShape): RequestShape | undefined {
+  const result: RequestShape = {};
+  if (shape.bodyType) result.bodyType = shape.bodyType;
+  if (shape.bodyFields?.length) result.bodyFields = unique(shape.bodyFields);
+  if (shape.headers?.length) result.headers = unique(shape.headers);
+  if (shape.queryParams?.length) result.queryParams = unique(shape.queryParams);
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
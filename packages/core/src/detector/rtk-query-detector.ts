@@ -0,0 +1,343 @@
+/**
+ * RTK Query Detector
+ * Detects the generated hooks used by components (useGetXQuery(), useLazyGetXQuery(),
+ * useAddXMutation(), api.endpoints.getX.useQuery()) and reads each endpoint from its definition in
+ * createApi / injectEndpoints (endpoints: b => ({ getX: b.query({ query: () => '/x' }) })).
+ * Definitions themselves are not call sites. URLs are joined with baseQuery: fetchBaseQuery({ baseUrl }).
+ */
+
+import {
+  Node,
+  SyntaxKind,
+  CallExpression,
+  Identifier,
+  PropertyAccessExpression,
+  VariableDeclaration,
+} from "ts-morph";
+import { BaseDetector } from "./detector";
+import { AstContext } from "../ast/context";
+import { ScanConfig, ApiCall } from "@api-surface/types";
+import { extractUrl, lowestConfidence, unwrapExpression } from "./url-resolver";
+import {
+  getObjectOption,
+  getReturnedExpressions,
+  resolveFunctionNode,
+  findRequestInFunction,
+  UrlResult,
+} from "./data-hook-utils";
+
+type Confidence = "high" | "medium" | "low";
+
+export interface RtkQueryDetectionResult {
+  method: string;
+  url: string;
+  confidence: Confidence;
+  endpointName: string;
+}
+
+/** Calls that define an API slice and its endpoints */
+const API_FACTORIES = new Set(["createApi", "injectEndpoints", "enhanceEndpoints"]);
+
+/** Generated hook names: useGetPostsQuery, useLazyGetPostsQuery, useAddPostMutation */
+const GENERATED_HOOK_RE =
+  /^use(?:Lazy)?([A-Z]\w*?)(?:InfiniteQuery|QueryState|Query|Mutation)$/;
+
+/** Hooks on api.endpoints.<name> */
+const ENDPOINT_HOOKS = new Set([
+  "useQuery",
+  "useLazyQuery",
+  "useQueryState",
+  "useMutation",
+  "useInfiniteQuery",
+  "initiate",
+]);
+
+/** Max identifier hops when following api slice references */
+const MAX_RESOLVE_DEPTH = 4;
+
+/**
+ * Detector for RTK Query endpoints and generated hooks
+ */
+export class RtkQueryDetector extends BaseDetector {
+  readonly id = "rtk-query";
+  readonly name = "RTK Query Detector";
+
+  /**
+   * Only detect on CallExpression nodes
+   */
+  shouldDetect(node: Node): boolean {
+    return node.getKind() === SyntaxKind.CallExpression;
+  }
+
+  /**
+   * Detect RTK Query hook usages
+   */
+  detect(node: Node, context: AstContext, config: ScanConfig): ApiCall | null {
+    if (!this.shouldDetect(node)) {
+      return null;
+    }
+
+    const callExpr = node as CallExpression;
+    const detection = this.detectHookUsage(callExpr);
+    if (!detection) {
+      return null;
+    }
+
+    // Log detection for validation
+    this.logDetection(context, detection, callExpr, detection.endpointName);
+
+    const apiCall = this.createApiCall(
+      detection.method,
+      detection.url,
+      "rtk-query",
+      callExpr,
+      context,
+      detection.confidence,
+    );
+    return apiCall;
+  }
+
+  /**
+   * Component usage of generated hooks: useGetXQuery(), api.useGetXQuery(), api.endpoints.getX.useQuery()
+   */
+  private detectHookUsage(callExpr: CallExpression): RtkQueryDetectionResult | null {
+    const expression = callExpr.getExpression();
+
+    // api.endpoints.getX.useQuery()
+    if (expression.getKind() === SyntaxKind.PropertyAccessExpression) {
+      const propAccess = expression as PropertyAccessExpression;
+      const target = propAccess.getExpression();
+      if (
+        ENDPOINT_HOOKS.has(propAccess.getName()) &&
+        target.getKind() === SyntaxKind.PropertyAccessExpression
+      ) {
+        const endpointAccess = target as PropertyAccessExpression;
+        const endpointsAccess = endpointAccess.getExpression();
+        if (
+          endpointsAccess.getKind() === SyntaxKind.PropertyAccessExpression &&
+          (endpointsAccess as PropertyAccessExpression).getName() === "endpoints"
+        ) {
+          const apiRef = (endpointsAccess as PropertyAccessExpression).getExpression();
+          return this.resolveEndpointFromApi(apiRef, endpointAccess.getName());
+        }
+      }
+
+      // api.useGetXQuery()
+      const hookMatch = GENERATED_HOOK_RE.exec(propAccess.getName());
+      if (hookMatch && target.getKind() === SyntaxKind.Identifier) {
+        return this.resolveEndpointFromApi(target, this.lowerFirst(hookMatch[1]));
+      }
+      return null;
+    }
+
+    // const { useGetXQuery } = api; useGetXQuery()
+    if (expression.getKind() !== SyntaxKind.Identifier) {
+      return null;
+    }
+    const hookMatch = GENERATED_HOOK_RE.exec(expression.getText());
+    if (!hookMatch) {
+      return null;
+    }
+
+    try {
+      for (const definition of (expression as Identifier).getDefinitionNodes()) {
+        if (definition.getKind() !== SyntaxKind.BindingElement) continue;
+        const declaration = definition.getFirstAncestorByKind(
+          SyntaxKind.VariableDeclaration,
+        );
+        const apiRef = declaration?.getInitializer();
+        if (!apiRef) continue;
+        const result = this.resolveEndpointFromApi(apiRef, this.lowerFirst(hookMatch[1]));
+        if (result) return result;
+      }
+    } catch {
+      // Definition lookup failed (unresolvable import) - not an RTK hook we can resolve
+    }
+    return null;
+  }
+
+  /**
+   * Follow an api slice reference to its createApi/injectEndpoints call and describe an endpoint
+   */
+  private resolveEndpointFromApi(
+    apiRef: Node,
+    endpointName: string,
+  ): RtkQueryDetectionResult | null {
+    const apiFactory = this.resolveApiFactory(apiRef, 0);
+    return apiFactory ? this.findEndpoint(apiFactory, endpointName, 0) : null;
+  }
+
+  /**
+   * Find the endpoint definition in an api factory call; injected/enhanced slices fall back to their base api
+   */
+  private findEndpoint(
+    apiFactory: CallExpression,
+    endpointName: string,
+    depth: number,
+  ): RtkQueryDetectionResult | null {
+    if (depth > MAX_RESOLVE_DEPTH) {
+      return null;
+    }
+
+    const options = apiFactory.getArguments()[0];
+    const endpointsNode = options ? getObjectOption(options, "endpoints") : null;
+    const endpointsFn = endpointsNode ? resolveFunctionNode(endpointsNode) : null;
+    if (endpointsFn) {
+      for (const returned of getReturnedExpressions(endpointsFn)) {
+        const definition = getObjectOption(returned, endpointName);
+        if (definition && definition.getKind() === SyntaxKind.CallExpression) {
+          return this.describeEndpoint(definition as CallExpression, endpointName, apiFactory);
+        }
+      }
+    }
+
+    const base = this.getBaseApiFactory(apiFactory, depth);
+    return base ? this.findEndpoint(base, endpointName, depth + 1) : null;
+  }
+
+  /**
+   * Build the detection result for a builder.query/mutation({ ... }) definition
+   */
+  private describeEndpoint(
+    builderCall: CallExpression,
+    endpointName: string,
+    apiFactory: CallExpression,
+  ): RtkQueryDetectionResult | null {
+    const options = builderCall.getArguments()[0];
+    if (!options) {
+      return null;
+    }
+
+    let method = "GET";
+    let urlResult: UrlResult | null = null;
+
+    const queryNode = getObjectOption(options, "query");
+    const queryFn = queryNode ? resolveFunctionNode(queryNode) : null;
+    if (queryFn) {
+      for (const returned of getReturnedExpressions(queryFn)) {
+        // query: (body) => ({ url: '/x', method: 'POST', body })
+        if (returned.getKind() === SyntaxKind.ObjectLiteralExpression) {
+          const urlNode = getObjectOption(returned, "url");
+          const methodNode = getObjectOption(returned, "method");
+          if (urlNode) urlResult = extractUrl(urlNode);
+          if (methodNode) {
+            method = methodNode.getText().replace(/^['"`]|['"`]$/g, "").toUpperCase();
+          }
+        } else {
+          // query: (id) => `/posts/${id}`
+          urlResult = extractUrl(returned);
+        }
+        if (urlResult) break;
+      }
+    } else {
+      // queryFn: custom fetch logic
+      const customFn = getObjectOption(options, "queryFn");
+      const request = customFn ? findRequestInFunction(customFn) : null;
+      if (request) {
+        urlResult = request;
+        method = request.method ?? method;
+      }
+    }
+
+    if (!urlResult) {
+      return null;
+    }
+
+    const base = this.getBaseUrl(apiFactory, 0);
+    if (base && !/^[a-z][a-z0-9+.-]*:\/\//i.test(urlResult.url)) {
+      urlResult = {
+        url: `${base.url.replace(/\/+$/, "")}/${urlResult.url.replace(/^\/+/, "")}`,
+        confidence: lowestConfidence(base.confidence, urlResult.confidence),
+      };
+    }
+
+    return { method, ...urlResult, endpointName };
+  }
+
+  /**
+   * baseUrl from baseQuery: fetchBaseQuery({ baseUrl }) of the api (or its base api)
+   */
+  private getBaseUrl(apiFactory: CallExpression, depth: number): UrlResult | null {
+    if (depth > MAX_RESOLVE_DEPTH) {
+      return null;
+    }
+
+    const options = apiFactory.getArguments()[0];
+    let baseQuery = options ? getObjectOption(options, "baseQuery") : null;
+    if (baseQuery && baseQuery.getKind() === SyntaxKind.Identifier) {
+      baseQuery = this.resolveInitializer(baseQuery);
+    }
+    if (baseQuery && baseQuery.getKind() === SyntaxKind.CallExpression) {
+      const baseOptions = (baseQuery as CallExpression).getArguments()[0];
+      const baseUrlNode = baseOptions ? getObjectOption(baseOptions, "baseUrl") : null;
+      if (baseUrlNode) {
+        const result = extractUrl(baseUrlNode);
+        // Non-literal bases (env vars, constants) are kept as a template placeholder
+        return result.confidence === "low"
+          ? { url: `\${${result.url}}`, confidence: "medium" }
+          : result;
+      }
+    }
+
+    const base = this.getBaseApiFactory(apiFactory, depth);
+    return base ? this.getBaseUrl(base, depth + 1) : null;
+  }
+
+  /**
+   * For api.injectEndpoints(...) / api.enhanceEndpoints(...), the createApi call of `api`
+   */
+  private getBaseApiFactory(apiFactory: CallExpression, depth: number): CallExpression | null {
+    const callee = apiFactory.getExpression();
+    if (callee.getKind() !== SyntaxKind.PropertyAccessExpression) {
+      return null;
+    }
+    return this.resolveApiFactory((callee as PropertyAccessExpression).getExpression(), depth + 1);
+  }
+
+  /**
+   * Follow an identifier to the createApi / injectEndpoints call that created it
+   */
+  private resolveApiFactory(node: Node, depth: number): CallExpression | null {
+    if (depth > MAX_RESOLVE_DEPTH) {
+      return null;
+    }
+    const expr = unwrapExpression(node);
+    if (expr.getKind() === SyntaxKind.CallExpression) {
+      return this.isApiFactoryCall(expr as CallExpression) ? (expr as CallExpression) : null;
+    }
+    if (expr.getKind() !== SyntaxKind.Identifier) {
+      return null;
+    }
+    const initializer = this.resolveInitializer(expr);
+    return initializer ? this.resolveApiFactory(initializer, depth + 1) : null;
+  }
+
+  /**
+   * Initializer of the variable an identifier refers to (follows imports)
+   */
+  private resolveInitializer(identifier: Node): Node | null {
+    try {
+      for (const definition of (identifier as Identifier).getDefinitionNodes()) {
+        if (definition.getKind() !== SyntaxKind.VariableDeclaration) continue;
+        const initializer = (definition as VariableDeclaration).getInitializer();
+        if (initializer) return unwrapExpression(initializer);
+      }
+    } catch {
+      // Definition lookup failed (unresolvable import)
+    }
+    return null;
+  }
+
+  private isApiFactoryCall(call: CallExpression): boolean {
+    const callee = call.getExpression();
+    const name =
+      callee.getKind() === SyntaxKind.PropertyAccessExpression
+        ? (callee as PropertyAccessExpression).getName()
+        : callee.getText();
+    return API_FACTORIES.has(name);
+  }
+
+  private lowerFirst(name: string): string {
+    return name.charAt(0).toLowerCase() + name.slice(1);
+  }
+}
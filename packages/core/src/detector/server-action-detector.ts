@@ -0,0 +1,232 @@
+/**
+ * Server Action Detector
+ * Detects uses of "use server" functions (Next.js / React Server Actions) in components:
+ * createUser(data), actions.createUser(data), <form action={createUser}>, <button formAction={save}>,
+ * createUser.bind(null, id) and useActionState(createUser, initial). Each action becomes an endpoint
+ * `action:<module>#<exportName>` with method ACTION.
+ */
+
+import * as path from "path";
+import { Node, SourceFile } from "ts-morph";
+import { BaseDetector } from "./detector";
+import { AstContext } from "../ast/context";
+import { addProjectSourceFile, getProjectSourceFile } from "../ast/component-script";
+import { ScanConfig, ApiCall } from "@api-surface/types";
+import {
+  SERVER_ACTION_METHOD,
+  ServerAction,
+  getServerActionUrl,
+  isServerActionDeclaration,
+  isServerActionModule,
+  toServerAction,
+} from "./server-action";
+
+/** JSX attributes that submit to an action */
+const FORM_ACTION_ATTRIBUTES = new Set(["action", "formAction"]);
+
+/** Hooks that take an action as their first argument */
+const ACTION_HOOKS = new Set(["useActionState", "useFormState"]);
+
+/** Server actions a file can reach by name */
+interface FileActions {
+  /** Imported (or inline) action by local name */
+  named: Map<string, ServerAction>;
+  /** import * as actions -> actions by export name */
+  namespaces: Map<string, Map<string, ServerAction>>;
+}
+
+/**
+ * Detector for server action calls and form actions
+ */
+export class ServerActionDetector extends BaseDetector {
+  readonly id = "server-action";
+  readonly name = "Server Action Detector";
+
+  // Cache per file: actions reachable from the file
+  private fileCache = new Map<string, FileActions>();
+  // Cache per module: exported actions by export name
+  private moduleCache = new Map<string, Map<string, ServerAction>>();
+
+  /**
+   * Only detect on calls and JSX attributes
+   */
+  shouldDetect(node: Node): boolean {
+    return Node.isCallExpression(node) || Node.isJsxAttribute(node);
+  }
+
+  /**
+   * Detect server action uses
+   */
+  detect(node: Node, context: AstContext, config: ScanConfig): ApiCall | null {
+    // Calls between server functions run in-process
+    if (isServerActionModule(context.sourceFile)) {
+      return null;
+    }
+
+    const reference = this.getActionReference(node);
+    if (!reference) {
+      return null;
+    }
+
+    const action = this.resolveReference(reference, context);
+    if (!action) {
+      return null;
+    }
+
+    const url = getServerActionUrl(action, config.rootDir);
+    this.logDetection(context, { method: SERVER_ACTION_METHOD, url, confidence: "high" }, node);
+
+    return this.createApiCall(SERVER_ACTION_METHOD, url, "server-action", node, context, "high");
+  }
+
+  /**
+   * The expression that may name an action: the callee, the function bound with .bind(),
+   * the first argument of useActionState, or the value of a form action attribute
+   */
+  private getActionReference(node: Node): Node | undefined {
+    if (Node.isJsxAttribute(node)) {
+      if (!FORM_ACTION_ATTRIBUTES.has(node.getNameNode().getText())) {
+        return undefined;
+      }
+      const initializer = node.getInitializer();
+      return initializer && Node.isJsxExpression(initializer)
+        ? initializer.getExpression()
+        : undefined;
+    }
+    if (!Node.isCallExpression(node)) {
+      return undefined;
+    }
+    const callee = node.getExpression();
+    if (Node.isPropertyAccessExpression(callee) && callee.getName() === "bind") {
+      return callee.getExpression();
+    }
+    if (Node.isIdentifier(callee) && ACTION_HOOKS.has(callee.getText())) {
+      return node.getArguments()[0];
+    }
+    return callee;
+  }
+
+  /**
+   * The action named by an identifier (createUser) or a namespace access (actions.createUser)
+   */
+  private resolveReference(reference: Node, context: AstContext): ServerAction | null {
+    const actions = this.getFileActions(context);
+    if (Node.isIdentifier(reference)) {
+      return actions.named.get(reference.getText()) ?? null;
+    }
+    if (Node.isPropertyAccessExpression(reference)) {
+      const target = reference.getExpression();
+      if (Node.isIdentifier(target)) {
+        return actions.namespaces.get(target.getText())?.get(reference.getName()) ?? null;
+      }
+    }
+    return null;
+  }
+
+  private getFileActions(context: AstContext): FileActions {
+    const cached = this.fileCache.get(context.filePath);
+    if (cached) {
+      return cached;
+    }
+
+    const actions: FileActions = { named: new Map(), namespaces: new Map() };
+    const sourceFile = context.sourceFile;
+    for (const importDecl of sourceFile.getImportDeclarations()) {
+      if (importDecl.isTypeOnly()) continue;
+      const moduleActions = this.getModuleActions(
+        context.resolveImportPath(importDecl.getModuleSpecifierValue()),
+        sourceFile,
+      );
+      if (moduleActions.size === 0) continue;
+
+      const defaultImport = importDecl.getDefaultImport();
+      const defaultAction = moduleActions.get("default");
+      if (defaultImport && defaultAction) {
+        actions.named.set(defaultImport.getText(), defaultAction);
+      }
+      for (const namedImport of importDecl.getNamedImports()) {
+        const action = moduleActions.get(namedImport.getName());
+        if (action && !namedImport.isTypeOnly()) {
+          actions.named.set(namedImport.getAliasNode()?.getText() ?? namedImport.getName(), action);
+        }
+      }
+      const namespaceImport = importDecl.getNamespaceImport();
+      if (namespaceImport) {
+        actions.namespaces.set(namespaceImport.getText(), moduleActions);
+      }
+    }
+
+    // Inline actions: async function save() { "use server"; ... } passed to a form in the same file
+    if (sourceFile.getFullText().includes("use server")) {
+      sourceFile.forEachDescendant((node) => {
+        if (
+          (Node.isFunctionDeclaration(node) || Node.isVariableDeclaration(node)) &&
+          isServerActionDeclaration(node)
+        ) {
+          const action = toServerAction(node);
+          const name = node.getName();
+          if (action && name) {
+            actions.named.set(name, action);
+          }
+        }
+      });
+    }
+
+    this.fileCache.set(context.filePath, actions);
+    return actions;
+  }
+
+  /**
+   * Exported actions of an imported project module (through re-exports), by export name
+   */
+  private getModuleActions(
+    modulePath: string | null,
+    importer: SourceFile,
+  ): Map<string, ServerAction> {
+    const empty = new Map<string, ServerAction>();
+    if (!modulePath || modulePath.split(path.sep).includes("node_modules")) {
+      return empty;
+    }
+    const cached = this.moduleCache.get(modulePath);
+    if (cached) {
+      return cached;
+    }
+
+    const moduleActions = new Map<string, ServerAction>();
+    this.moduleCache.set(modulePath, moduleActions);
+    let moduleFile: SourceFile;
+    try {
+      const project = importer.getProject();
+      moduleFile =
+        getProjectSourceFile(project, modulePath) ?? addProjectSourceFile(project, modulePath);
+    } catch {
+      return moduleActions;
+    }
+    // Only modules with a directive, or barrels re-exporting other modules, can export actions
+    const isBarrel = moduleFile
+      .getExportDeclarations()
+      .some((exportDecl) => exportDecl.hasModuleSpecifier());
+    if (!isBarrel && !moduleFile.getFullText().includes("use server")) {
+      return moduleActions;
+    }
+
+    for (const [exportName, declarations] of moduleFile.getExportedDeclarations()) {
+      for (const declaration of declarations) {
+        const action = toServerAction(declaration);
+        if (action) {
+          moduleActions.set(exportName, action);
+          break;
+        }
+      }
+    }
+    return moduleActions;
+  }
+
+  /**
+   * Clear caches (before rescanning changed files)
+   */
+  clearCache(): void {
+    this.fileCache.clear();
+    this.moduleCache.clear();
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Server Action helpers shared by the server action detector, the function extractor and
+ * framework route discoverers: recognising "use server" functions and naming their endpoints.
+ *
+ * Module:   "use server"; export async function createUser(formData) { ... }
+ * Inline:   async function save() { "use server"; ... }
+ * Endpoint: ACTION action:src/app/actions#createUser (module path relative to rootDir, no extension)
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { Node, Project, SourceFile } from "ts-morph";
+import { addProjectSourceFile, getProjectSourceFile } from "../ast/component-script";
+
+/** URL prefix of server action endpoints: action:src/app/actions#createUser */
+export const SERVER_ACTION_URL_PREFIX = "action:";
+
+/** Method of server action endpoints */
+export const SERVER_ACTION_METHOD = "ACTION";
+
+/** Extensions tried when resolving the module of a server action URL */
+const MODULE_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", ".mjs"];
+
+export interface ServerAction {
+  /** Function (or variable) declaration of the action */
+  declaration: Node;
+  /** Name the declaring module exports it under ("default" for a default export); local name for inline actions */
+  exportName: string;
+}
+
+/**
+ * Whether the file starts with a "use server" directive (every export is a server action)
+ */
+export function isServerActionModule(sourceFile: SourceFile): boolean {
+  return hasUseServerDirective(sourceFile.getStatements());
+}
+
+/**
+ * Whether a declaration is a server action: declared in a "use server" module, or a function
+ * whose body starts with "use server"
+ */
+export function isServerActionDeclaration(declaration: Node): boolean {
+  if (!Node.isFunctionDeclaration(declaration) && !Node.isVariableDeclaration(declaration)) {
+    return false;
+  }
+  if (isServerActionModule(declaration.getSourceFile())) {
+    return true;
+  }
+  const fn = Node.isVariableDeclaration(declaration)
+    ? declaration.getInitializer()
+    : declaration;
+  if (
+    !fn ||
+    (!Node.isFunctionDeclaration(fn) && !Node.isArrowFunction(fn) && !Node.isFunctionExpression(fn))
+  ) {
+    return false;
+  }
+  const body = fn.getBody();
+  return !!body && Node.isBlock(body) && hasUseServerDirective(body.getStatements());
+}
+
+/**
+ * The server action of a declaration (an import target, possibly through re-exports, or a local
+ * function); null when it is not a server action
+ */
+export function toServerAction(declaration: Node): ServerAction | null {
+  if (!isServerActionDeclaration(declaration)) {
+    return null;
+  }
+  const exportName = getExportName(declaration);
+  return exportName ? { declaration, exportName } : null;
+}
+
+/**
+ * Exported server actions of a "use server" module, and exported functions with their own directive
+ */
+export function findServerActionExports(sourceFile: SourceFile): ServerAction[] {
+  const actions: ServerAction[] = [];
+  for (const [exportName, declarations] of sourceFile.getExportedDeclarations()) {
+    const declaration = declarations[0];
+    // Re-exports are listed by the module that declares them
+    if (
+      declaration &&
+      declaration.getSourceFile() === sourceFile &&
+      isServerActionDeclaration(declaration)
+    ) {
+      actions.push({ declaration, exportName });
+    }
+  }
+  return actions;
+}
+
+/**
+ * Endpoint URL of a server action
+ */
+export function getServerActionUrl(action: ServerAction, rootDir: string): string {
+  const filePath = action.declaration.getSourceFile().getFilePath();
+  const modulePath = path
+    .relative(path.resolve(rootDir), filePath)
+    .replace(/\\/g, "/")
+    .replace(/\.[^./]+$/, "");
+  return `${SERVER_ACTION_URL_PREFIX}${modulePath}#${action.exportName}`;
+}
+
+/**
+ * Module path and export name of a server action URL; null for other URLs
+ */
+export function parseServerActionUrl(url: string): { modulePath: string; exportName: string } | null {
+  if (!url.startsWith(SERVER_ACTION_URL_PREFIX)) {
+    return null;
+  }
+  const hashIndex = url.lastIndexOf("#");
+  if (hashIndex <= SERVER_ACTION_URL_PREFIX.length || hashIndex === url.length - 1) {
+    return null;
+  }
+  return {
+    modulePath: url.slice(SERVER_ACTION_URL_PREFIX.length, hashIndex),
+    exportName: url.slice(hashIndex + 1),
+  };
+}
+
+/**
+ * Find the server action of an endpoint URL in the project (loading its module when needed)
+ */
+export function findServerActionByUrl(
+  project: Project,
+  rootDir: string,
+  url: string,
+): ServerAction | null {
+  const parsed = parseServerActionUrl(url);
+  if (!parsed) {
+    return null;
+  }
+  const basePath = path.resolve(rootDir, parsed.modulePath);
+  const filePath = MODULE_EXTENSIONS.map((extension) => basePath + extension).find((candidate) =>
+    fs.existsSync(candidate),
+  );
+  if (!filePath) {
+    return null;
+  }
+  let sourceFile: SourceFile;
+  try {
+    sourceFile = getProjectSourceFile(project, filePath) ?? addProjectSourceFile(project, filePath);
+  } catch {
+    return null;
+  }
+
+  const exported = sourceFile
+    .getExportedDeclarations()
+    .get(parsed.exportName)
+    ?.find(isServerActionDeclaration);
+  if (exported) {
+    return { declaration: exported, exportName: parsed.exportName };
+  }
+  // Inline action: a local function with its own directive
+  const local = sourceFile
+    .getDescendants()
+    .find(
+      (node) =>
+        (Node.isFunctionDeclaration(node) || Node.isVariableDeclaration(node)) &&
+        node.getName() === parsed.exportName &&
+        isServerActionDeclaration(node),
+    );
+  return local ? { declaration: local, exportName: parsed.exportName } : null;
+}
+
+/**
+ * Name under which the declaring module exports a declaration; the local name of a non-exported
+ * function with its own directive (inline action)
+ */
+function getExportName(declaration: Node): string | undefined {
+  for (const [name, declarations] of declaration.getSourceFile().getExportedDeclarations()) {
+    if (declarations.some((exported) => exported === declaration)) {
+      return name;
+    }
+  }
+  if (
+    (Node.isFunctionDeclaration(declaration) || Node.isVariableDeclaration(declaration)) &&
+    !isServerActionModule(declaration.getSourceFile())
+  ) {
+    return declaration.getName();
+  }
+  return undefined;
+}
+
+/**
+ * Leading "use server" in a directive prologue
+ */
+function hasUseServerDirective(statements: Node[]): boolean {
+  for (const statement of statements) {
+    if (!Node.isExpressionStatement(statement)) break;
+    const expression = statement.getExpression();
+    if (!Node.isStringLiteral(expression)) break;
+    if (expression.getLiteralValue() === "use server") {
+      return true;
+    }
+  }
+  return false;
+}
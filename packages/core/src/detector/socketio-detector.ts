@@ -0,0 +1,345 @@
+/**
+ * Socket.IO Channel Detector
+ * Detects io(url) / io() / connect(url) from "socket.io-client" and collects the events
+ * emitted (socket.emit('event')) and listened to (socket.on('event')) on the returned socket,
+ * following the socket variable across files.
+ *
+ * The recorded URL is the server path (option `path`, default /socket.io) on the URL's origin; the
+ * URL's pathname is the namespace:
+ *   io("https://io.example.com/admin")                  -> https://io.example.com/socket.io, namespace /admin
+ *   io("https://io.example.com/admin", { path: "/ws" }) -> https://io.example.com/ws, namespace /admin
+ */
+
+import {
+  Node,
+  SyntaxKind,
+  CallExpression,
+  Identifier,
+} from "ts-morph";
+import { BaseDetector } from "./detector";
+import { AstContext } from "../ast/context";
+import { ScanConfig, ApiCall, RealtimeEvents } from "@api-surface/types";
+import { extractUrl, resolveStringValue, unwrapExpression } from "./url-resolver";
+import { getObjectOption } from "./data-hook-utils";
+
+type Confidence = "high" | "medium" | "low";
+
+export interface SocketIoDetectionResult {
+  method: string;
+  url: string;
+  confidence: Confidence;
+  namespace?: string;
+}
+
+const SOCKET_IO_MODULES = new Set(["socket.io-client"]);
+
+/** Exports of socket.io-client that open a connection */
+const CONNECT_FUNCTIONS = new Set(["io", "connect"]);
+
+/** Server path of socket.io when the `path` option is not set */
+const DEFAULT_SERVER_PATH = "/socket.io";
+
+/** Origin (scheme + host, or a leading ${...} base) and pathname of a connection URL */
+const ORIGIN_PATTERN = /^((?:[a-z][a-z\d+.-]*:)?\/\/[^/?#]+|\$\{[^}]+\})?([^?#]*)/i;
+
+/** Socket methods that send an event */
+const EMIT_METHODS = new Set(["emit", "emitWithAck"]);
+
+/** Socket methods that register a listener */
+const LISTEN_METHODS = new Set(["on", "once", "addListener", "prependListener", "prependOnceListener"]);
+
+/** Socket modifiers that return the socket: socket.timeout(5000).emit(...), socket.volatile.emit(...) */
+const SOCKET_MODIFIERS = new Set(["timeout", "volatile", "compress", "binary"]);
+
+/** Lifecycle events of the client socket (not part of the application protocol) */
+const RESERVED_EVENTS = new Set([
+  "connect",
+  "connect_error",
+  "disconnect",
+  "disconnecting",
+  "newListener",
+  "removeListener",
+]);
+
+/**
+ * Detector for Socket.IO connections
+ */
+export class SocketIoDetector extends BaseDetector {
+  readonly id = "socketio";
+  readonly name = "Socket.IO Detector";
+
+  // Cache per file: local names bound to socket.io-client (io / connect / default / namespace)
+  private importCache = new Map<string, { functions: Set<string>; namespaces: Set<string> }>();
+
+  /**
+   * Only detect on CallExpression nodes
+   */
+  shouldDetect(node: Node): boolean {
+    return node.getKind() === SyntaxKind.CallExpression;
+  }
+
+  /**
+   * Detect Socket.IO connections
+   */
+  detect(node: Node, context: AstContext, config: ScanConfig): ApiCall | null {
+    if (!this.shouldDetect(node)) {
+      return null;
+    }
+
+    const callExpr = node as CallExpression;
+    if (!this.isConnectCall(callExpr, context)) {
+      return null;
+    }
+
+    const [urlArg, optionsArg] = callExpr.getArguments();
+    const urlResult = this.extractConnectionUrl(urlArg);
+    const options = urlArg && Node.isObjectLiteralExpression(urlArg) ? urlArg : optionsArg;
+    const serverPath = (options && readServerPath(options)) ?? DEFAULT_SERVER_PATH;
+    const detection: SocketIoDetectionResult = {
+      method: "SOCKETIO",
+      confidence: urlResult.confidence,
+      ...withServerPath(urlResult.url, serverPath),
+    };
+
+    // Log detection for validation
+    this.logDetection(context, detection, callExpr);
+
+    const apiCall = this.createApiCall(
+      detection.method,
+      detection.url,
+      "socketio",
+      callExpr,
+      context,
+      detection.confidence,
+    );
+    apiCall.protocol = "socketio";
+    if (detection.namespace) {
+      apiCall.namespace = detection.namespace;
+    }
+
+    const events = this.collectEvents(callExpr);
+    if (events.sent.length > 0 || events.received.length > 0) {
+      apiCall.events = events;
+    }
+    return apiCall;
+  }
+
+  /**
+   * io(url) / connect(url) imported from socket.io-client, or SocketIO.io(url) on a namespace / default import
+   */
+  private isConnectCall(callExpr: CallExpression, context: AstContext): boolean {
+    const imports = this.getImportedNames(context);
+    const expression = callExpr.getExpression();
+
+    if (Node.isIdentifier(expression)) {
+      return imports.functions.has(expression.getText());
+    }
+    if (Node.isPropertyAccessExpression(expression)) {
+      return (
+        CONNECT_FUNCTIONS.has(expression.getName()) &&
+        imports.namespaces.has(expression.getExpression().getText())
+      );
+    }
+    return false;
+  }
+
+  private getImportedNames(context: AstContext): { functions: Set<string>; namespaces: Set<string> } {
+    const cacheKey = context.filePath;
+    const cached = this.importCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const functions = new Set<string>();
+    const namespaces = new Set<string>();
+    for (const imp of context.getImports()) {
+      if (!SOCKET_IO_MODULES.has(imp.moduleSpecifier) || imp.isTypeOnly) {
+        continue;
+      }
+      // import io from "socket.io-client" is callable and also has io.connect
+      if (imp.defaultImport) {
+        functions.add(imp.defaultImport);
+        namespaces.add(imp.defaultImport);
+      }
+      if (imp.namespaceImport) {
+        namespaces.add(imp.namespaceImport);
+      }
+      for (const named of imp.namedImports) {
+        if (CONNECT_FUNCTIONS.has(named)) {
+          functions.add(named);
+        }
+      }
+    }
+
+    const result = { functions, namespaces };
+    this.importCache.set(cacheKey, result);
+    return result;
+  }
+
+  /**
+   * Connection URL: io("https://chat.example.com/admin") or io() for the page origin ("/")
+   */
+  private extractConnectionUrl(node: Node | undefined): { url: string; confidence: Confidence } {
+    if (!node || Node.isObjectLiteralExpression(node)) {
+      // io() / io({ auth }) connects to the page origin
+      return { url: "/", confidence: "medium" };
+    }
+    return extractUrl(node);
+  }
+
+  /**
+   * Events emitted / listened to on the socket returned by the connect call
+   */
+  private collectEvents(callExpr: CallExpression): RealtimeEvents {
+    const sent = new Set<string>();
+    const received = new Set<string>();
+    for (const receiver of this.findSocketReceivers(callExpr)) {
+      this.readSocketUsage(receiver, sent, received);
+    }
+    return { sent: Array.from(sent).sort(), received: Array.from(received).sort() };
+  }
+
+  /**
+   * Expressions that hold the socket: the call itself, references to `const socket = io()`
+   * (also across files), and reads of an assigned target (this.socket = io(), socketRef.current = io())
+   */
+  private findSocketReceivers(callExpr: CallExpression): Node[] {
+    let expr: Node = callExpr;
+    let parent = expr.getParent();
+    while (
+      parent &&
+      (Node.isParenthesizedExpression(parent) || Node.isAsExpression(parent) || Node.isNonNullExpression(parent))
+    ) {
+      expr = parent;
+      parent = expr.getParent();
+    }
+
+    const receivers: Node[] = [expr];
+
+    if (Node.isVariableDeclaration(parent) && parent.getInitializer() === expr) {
+      const nameNode = parent.getNameNode();
+      if (Node.isIdentifier(nameNode)) {
+        receivers.push(...findReferences(nameNode));
+      }
+    } else if (
+      Node.isBinaryExpression(parent) &&
+      parent.getRight() === expr &&
+      parent.getOperatorToken().getKind() === SyntaxKind.EqualsToken
+    ) {
+      const target = normalizeReceiverText(parent.getLeft().getText());
+      for (const candidate of callExpr.getSourceFile().getDescendants()) {
+        if (
+          candidate !== parent.getLeft() &&
+          (Node.isPropertyAccessExpression(candidate) || Node.isIdentifier(candidate)) &&
+          normalizeReceiverText(candidate.getText()) === target
+        ) {
+          receivers.push(candidate);
+        }
+      }
+    }
+
+    return receivers;
+  }
+
+  /**
+   * socket.emit('a'), socket.on('b', cb).on('c', cb), socket.timeout(5000).emit('d')
+   */
+  private readSocketUsage(receiver: Node, sent: Set<string>, received: Set<string>): void {
+    let node: Node = receiver;
+    for (;;) {
+      // socket!.emit(...), (socket as Socket).emit(...)
+      let wrapper = node.getParent();
+      while (
+        wrapper &&
+        (Node.isNonNullExpression(wrapper) || Node.isParenthesizedExpression(wrapper) || Node.isAsExpression(wrapper))
+      ) {
+        node = wrapper;
+        wrapper = node.getParent();
+      }
+
+      const access = node.getParent();
+      if (!Node.isPropertyAccessExpression(access) || access.getExpression() !== node) {
+        return;
+      }
+
+      const method = access.getName();
+      const callParent = access.getParent();
+      const call =
+        Node.isCallExpression(callParent) && callParent.getExpression() === access ? callParent : undefined;
+
+      if (SOCKET_MODIFIERS.has(method)) {
+        node = call ?? access;
+        continue;
+      }
+      if (!call) {
+        return;
+      }
+
+      if (method === "send") {
+        // socket.send(data) emits a "message" event
+        sent.add("message");
+      } else if (EMIT_METHODS.has(method) || LISTEN_METHODS.has(method)) {
+        const eventName = readEventName(call.getArguments()[0]);
+        if (eventName && !RESERVED_EVENTS.has(eventName)) {
+          (EMIT_METHODS.has(method) ? sent : received).add(eventName);
+        }
+      } else {
+        return;
+      }
+
+      // emit / on / send return the socket, so calls can be chained
+      node = call;
+    }
+  }
+
+  /**
+   * Clear import cache (useful for testing or when file changes)
+   */
+  clearCache(): void {
+    this.importCache.clear();
+  }
+}
+
+/**
+ * The `path` option of the connection: io(url, { path: "/ws" }) / io({ path: WS_PATH })
+ */
+function readServerPath(options: Node): string | null {
+  const pathNode = getObjectOption(unwrapExpression(options), "path");
+  return pathNode ? resolveStringValue(pathNode) : null;
+}
+
+/**
+ * Connection URL: the server path on the URL's origin; the URL's pathname is the namespace
+ * ("/" is the main namespace and is not recorded)
+ */
+function withServerPath(url: string, serverPath: string): { url: string; namespace?: string } {
+  const [, origin = "", pathname = ""] = url.match(ORIGIN_PATTERN) ?? [];
+  const path = `/${serverPath.replace(/^\/+|\/+$/g, "")}`;
+  if (!origin && !pathname.startsWith("/")) {
+    // Unresolved URL expression: keep it and append the path
+    return { url: `${url.replace(/\/+$/, "")}${path}` };
+  }
+  const namespace = pathname.replace(/\/+$/, "");
+  return { url: `${origin}${path}`, ...(namespace ? { namespace } : {}) };
+}
+
+/**
+ * Event name argument: string literal or a constant resolved to one (EVENTS.JOIN)
+ */
+function readEventName(node: Node | undefined): string | null {
+  return node ? resolveStringValue(node) : null;
+}
+
+function findReferences(nameNode: Identifier): Node[] {
+  try {
+    return nameNode.findReferencesAsNodes();
+  } catch {
+    // Reference lookup failed
+    return [];
+  }
+}
+
+/** socketRef.current?.emit and socketRef.current!.emit read the same target */
+function normalizeReceiverText(text: string): string {
+  return text.replace(/\s+/g, "").replace(/\?\./g, ".").replace(/!/g, "");
+}
@@ -0,0 +1,33 @@
+/**
+ * superagent API Call Detector
+ * Detects superagent.get(url), request.post(url).send(body), superagent('POST', url)
+ * and agents from superagent.agent()
+ */
+
+import { HttpClientDetector, HttpClientSpec } from "./http-client-detector";
+
+/**
+ * Detector for superagent API calls
+ */
+export class SuperagentDetector extends HttpClientDetector {
+  readonly id = "superagent";
+  readonly name = "Superagent API Detector";
+  protected readonly source = "superagent" as const;
+  protected readonly spec: HttpClientSpec = {
+    modules: ["superagent"],
+    verbs: {
+      get: "GET",
+      post: "POST",
+      put: "PUT",
+      patch: "PATCH",
+      delete: "DELETE",
+      del: "DELETE",
+      head: "HEAD",
+      options: "OPTIONS",
+    },
+    callable: true,
+    methodFirstCallable: true,
+    factories: ["agent"],
+    baseUrlKeys: [],
+  };
+}
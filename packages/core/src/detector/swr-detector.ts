@@ -0,0 +1,153 @@
+/**
+ * SWR Hook Detector
+ * Detects useSWR('/api/x', fetcher), useSWRImmutable, useSWRInfinite(getKey) and useSWRMutation.
+ * The call site is the hook (the component), and the URL comes from the key, not the shared fetcher.
+ */
+
+import { Node, SyntaxKind, CallExpression, Identifier } from "ts-morph";
+import { BaseDetector } from "./detector";
+import { AstContext } from "../ast/context";
+import { ScanConfig, ApiCall } from "@api-surface/types";
+import { resolveKeyUrl, findRequestInFunction } from "./data-hook-utils";
+
+type Confidence = "high" | "medium" | "low";
+
+export interface SwrDetectionResult {
+  method: string;
+  url: string;
+  confidence: Confidence;
+}
+
+type SwrHookKind = "query" | "mutation";
+
+/**
+ * SWR entry points: module -> hook kind of its default export / named hooks
+ */
+const SWR_MODULES: Record<string, { defaultKind: SwrHookKind; named: Record<string, SwrHookKind> }> = {
+  swr: { defaultKind: "query", named: { useSWR: "query" } },
+  "swr/immutable": { defaultKind: "query", named: {} },
+  "swr/infinite": { defaultKind: "query", named: { useSWRInfinite: "query" } },
+  "swr/mutation": { defaultKind: "mutation", named: { useSWRMutation: "mutation" } },
+};
+
+/**
+ * Detector for SWR data-fetching hooks
+ */
+export class SwrDetector extends BaseDetector {
+  readonly id = "swr";
+  readonly name = "SWR Hook Detector";
+
+  // Cache for SWR hook imports per file: local name -> hook kind
+  private hookImportCache = new Map<string, Map<string, SwrHookKind>>();
+
+  /**
+   * Only detect on CallExpression nodes
+   */
+  shouldDetect(node: Node): boolean {
+    return node.getKind() === SyntaxKind.CallExpression;
+  }
+
+  /**
+   * Detect SWR hook calls
+   */
+  detect(node: Node, context: AstContext, config: ScanConfig): ApiCall | null {
+    if (!this.shouldDetect(node)) {
+      return null;
+    }
+
+    const hooks = this.getHookImports(context);
+    if (hooks.size === 0) {
+      return null;
+    }
+
+    const callExpr = node as CallExpression;
+    const expression = callExpr.getExpression();
+    if (expression.getKind() !== SyntaxKind.Identifier) {
+      return null;
+    }
+    const kind = hooks.get((expression as Identifier).getText());
+    if (!kind) {
+      return null;
+    }
+
+    const detection = this.extractSwrDetails(callExpr, kind);
+    if (!detection) {
+      return null;
+    }
+
+    // Log detection for validation
+    this.logDetection(context, detection, callExpr);
+
+    return this.createApiCall(
+      detection.method,
+      detection.url,
+      "swr",
+      callExpr,
+      context,
+      detection.confidence,
+    );
+  }
+
+  /**
+   * Collect local names of SWR hooks imported in the file
+   */
+  private getHookImports(context: AstContext): Map<string, SwrHookKind> {
+    const cacheKey = context.filePath;
+    const cached = this.hookImportCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const hooks = new Map<string, SwrHookKind>();
+    for (const imp of context.getImports()) {
+      const entry = SWR_MODULES[imp.moduleSpecifier];
+      if (!entry || imp.isTypeOnly) continue;
+      if (imp.defaultImport) {
+        hooks.set(imp.defaultImport, entry.defaultKind);
+      }
+      for (const [localName, name] of Object.entries(imp.namedImportNames)) {
+        const kind = entry.named[name];
+        if (kind) hooks.set(localName, kind);
+      }
+    }
+
+    this.hookImportCache.set(cacheKey, hooks);
+    return hooks;
+  }
+
+  /**
+   * Extract method and URL: the key gives the URL; for mutations the fetcher gives the method
+   */
+  private extractSwrDetails(
+    callExpr: CallExpression,
+    kind: SwrHookKind,
+  ): SwrDetectionResult | null {
+    const [keyArg, fetcherArg] = callExpr.getArguments();
+    if (!keyArg) {
+      return null;
+    }
+
+    const request = fetcherArg ? findRequestInFunction(fetcherArg) : null;
+    const keyUrl = resolveKeyUrl(keyArg);
+
+    // Prefer the key; fall back to a literal URL found in the fetcher
+    let urlResult = keyUrl;
+    if ((!urlResult || urlResult.confidence === "low") && request && request.confidence !== "low") {
+      urlResult = request;
+    }
+    if (!urlResult) {
+      return null;
+    }
+
+    const method =
+      request?.method ?? (kind === "mutation" ? "POST" : "GET");
+    return { method, url: urlResult.url, confidence: urlResult.confidence };
+  }
+
+  /**
+   * Clear import cache (useful for testing or when file changes)
+   */
+  clearCache(): void {
+    this.hookImportCache.clear();
+  }
+}
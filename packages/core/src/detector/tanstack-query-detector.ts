@@ -0,0 +1,243 @@
+/**
+ * TanStack Query Hook Detector
+ * Detects useQuery({ queryKey, queryFn }), useMutation({ mutationFn }), useInfiniteQuery,
+ * useSuspenseQuery, queryClient.fetchQuery/prefetchQuery and the v3 positional forms
+ * (useQuery(key, fn), useMutation(fn)). The URL comes from the request inside queryFn /
+ * mutationFn, falling back to the query key (low confidence when there is no queryFn).
+ */
+
+import {
+  Node,
+  SyntaxKind,
+  CallExpression,
+  Identifier,
+  PropertyAccessExpression,
+} from "ts-morph";
+import { BaseDetector } from "./detector";
+import { AstContext } from "../ast/context";
+import { ScanConfig, ApiCall } from "@api-surface/types";
+import {
+  resolveKeyUrl,
+  findRequestInFunction,
+  getObjectOption,
+  UrlResult,
+} from "./data-hook-utils";
+
+type Confidence = "high" | "medium" | "low";
+
+export interface TanstackQueryDetectionResult {
+  method: string;
+  url: string;
+  confidence: Confidence;
+}
+
+type QueryHookKind = "query" | "mutation";
+
+const TANSTACK_MODULES = [
+  "@tanstack/react-query",
+  "@tanstack/vue-query",
+  "@tanstack/svelte-query",
+  "@tanstack/solid-query",
+  "@tanstack/angular-query-experimental",
+  "react-query",
+];
+
+/** Hooks exported by TanStack Query */
+const QUERY_HOOKS: Record<string, QueryHookKind> = {
+  useQuery: "query",
+  useSuspenseQuery: "query",
+  useInfiniteQuery: "query",
+  useSuspenseInfiniteQuery: "query",
+  useMutation: "mutation",
+  // Solid / Svelte / Angular adapters
+  createQuery: "query",
+  createInfiniteQuery: "query",
+  createMutation: "mutation",
+  injectQuery: "query",
+  injectMutation: "mutation",
+};
+
+/** QueryClient methods that fetch: queryClient.fetchQuery({ queryKey, queryFn }) */
+const QUERY_CLIENT_METHODS = new Set([
+  "fetchQuery",
+  "prefetchQuery",
+  "fetchInfiniteQuery",
+  "prefetchInfiniteQuery",
+  "ensureQueryData",
+]);
+
+/**
+ * Detector for TanStack Query (React Query) hooks
+ */
+export class TanstackQueryDetector extends BaseDetector {
+  readonly id = "tanstack-query";
+  readonly name = "TanStack Query Detector";
+
+  // Cache for TanStack imports per file: whether the library is imported, and local hook name -> kind
+  private hookImportCache = new Map<
+    string,
+    { imported: boolean; hooks: Map<string, QueryHookKind> }
+  >();
+
+  /**
+   * Only detect on CallExpression nodes
+   */
+  shouldDetect(node: Node): boolean {
+    return node.getKind() === SyntaxKind.CallExpression;
+  }
+
+  /**
+   * Detect TanStack Query hook and QueryClient calls
+   */
+  detect(node: Node, context: AstContext, config: ScanConfig): ApiCall | null {
+    if (!this.shouldDetect(node)) {
+      return null;
+    }
+
+    const imports = this.getHookImports(context);
+    if (!imports.imported) {
+      return null;
+    }
+
+    const callExpr = node as CallExpression;
+    const kind = this.getCallKind(callExpr, imports.hooks);
+    if (!kind) {
+      return null;
+    }
+
+    const detection = this.extractQueryDetails(callExpr, kind);
+    if (!detection) {
+      return null;
+    }
+
+    // Log detection for validation
+    this.logDetection(context, detection, callExpr);
+
+    return this.createApiCall(
+      detection.method,
+      detection.url,
+      "tanstack-query",
+      callExpr,
+      context,
+      detection.confidence,
+    );
+  }
+
+  /**
+   * Collect local names of TanStack Query hooks imported in the file.
+   * Files that import the library also get queryClient.fetchQuery() detection.
+   */
+  private getHookImports(
+    context: AstContext,
+  ): { imported: boolean; hooks: Map<string, QueryHookKind> } {
+    const cacheKey = context.filePath;
+    const cached = this.hookImportCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const result = { imported: false, hooks: new Map<string, QueryHookKind>() };
+    for (const imp of context.getImports()) {
+      if (imp.isTypeOnly || !TANSTACK_MODULES.includes(imp.moduleSpecifier)) {
+        continue;
+      }
+      result.imported = true;
+      // import { useQuery as useTQ } -> useTQ is a query hook
+      for (const [localName, name] of Object.entries(imp.namedImportNames)) {
+        const kind = QUERY_HOOKS[name];
+        if (kind) result.hooks.set(localName, kind);
+      }
+    }
+
+    this.hookImportCache.set(cacheKey, result);
+    return result;
+  }
+
+  /**
+   * Determine whether the call is a TanStack hook or QueryClient fetch method
+   */
+  private getCallKind(
+    callExpr: CallExpression,
+    hooks: Map<string, QueryHookKind>,
+  ): QueryHookKind | null {
+    const expression = callExpr.getExpression();
+    if (expression.getKind() === SyntaxKind.Identifier) {
+      return hooks.get((expression as Identifier).getText()) ?? null;
+    }
+    if (expression.getKind() === SyntaxKind.PropertyAccessExpression) {
+      const methodName = (expression as PropertyAccessExpression).getName();
+      return QUERY_CLIENT_METHODS.has(methodName) ? "query" : null;
+    }
+    return null;
+  }
+
+  /**
+   * Extract method and URL from the query/mutation function, falling back to the key
+   */
+  private extractQueryDetails(
+    callExpr: CallExpression,
+    kind: QueryHookKind,
+  ): TanstackQueryDetectionResult | null {
+    const args = callExpr.getArguments();
+    const firstArg = args[0];
+    if (!firstArg) {
+      return null;
+    }
+
+    let keyNode: Node | null = null;
+    let fnNode: Node | null = null;
+
+    if (firstArg.getKind() === SyntaxKind.ObjectLiteralExpression) {
+      // v4/v5: useQuery({ queryKey, queryFn }), useMutation({ mutationKey, mutationFn })
+      keyNode = getObjectOption(firstArg, kind === "mutation" ? "mutationKey" : "queryKey");
+      fnNode = getObjectOption(firstArg, kind === "mutation" ? "mutationFn" : "queryFn");
+    } else if (Node.isArrowFunction(firstArg) || Node.isFunctionExpression(firstArg)) {
+      // Solid/Svelte adapters: createQuery(() => ({ queryKey, queryFn })), v3 useMutation(fn)
+      if (kind === "mutation") {
+        fnNode = firstArg;
+      } else {
+        const options = firstArg.getBody();
+        const unwrapped = Node.isParenthesizedExpression(options)
+          ? options.getExpression()
+          : options;
+        keyNode = getObjectOption(unwrapped, "queryKey");
+        fnNode = getObjectOption(unwrapped, "queryFn");
+      }
+    } else if (kind === "mutation") {
+      // v3: useMutation(mutationFn, options)
+      fnNode = firstArg;
+    } else {
+      // v3: useQuery(queryKey, queryFn, options)
+      keyNode = firstArg;
+      fnNode = args[1] ?? null;
+    }
+
+    const request = fnNode ? findRequestInFunction(fnNode) : null;
+    const keyUrl: UrlResult | null = keyNode ? resolveKeyUrl(keyNode) : null;
+
+    // Prefer a concrete URL from the request; otherwise fall back to the key
+    let urlResult: UrlResult | null = request;
+    if (!urlResult || (urlResult.confidence === "low" && keyUrl && this.isUrlLike(keyUrl.url))) {
+      urlResult = keyUrl ?? urlResult;
+    }
+    if (!urlResult) {
+      return null;
+    }
+
+    // A plain query key (['todos', id]) only names the data - it is not a URL; without a queryFn
+    // the request is made by a default queryFn (QueryClient options), which may not use the key as URL
+    const confidence =
+      urlResult === keyUrl && (!fnNode || !this.isUrlLike(urlResult.url))
+        ? "low"
+        : urlResult.confidence;
+    const method = request?.method ?? (kind === "mutation" ? "POST" : "GET");
+    return { method, url: urlResult.url, confidence };
+  }
+
+  /**
+   * Clear import cache (useful for testing or when file changes)
+   */
+  clearCache(): void {
+    this.hookImportCache.clear();
+  }
+}
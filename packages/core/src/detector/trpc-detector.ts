@@ -0,0 +1,185 @@
+/**
+ * tRPC Procedure Detector
+ * Detects procedure calls on tRPC clients: trpc.user.byId.useQuery(), api.post.create.mutate(),
+ * utils.user.byId.fetch(), trpc.user.byId.queryOptions(). Each procedure becomes an endpoint
+ * `trpc:<path>` with method QUERY / MUTATION / SUBSCRIPTION.
+ */
+
+import {
+  Node,
+  SyntaxKind,
+  CallExpression,
+  PropertyAccessExpression,
+} from "ts-morph";
+import { BaseDetector } from "./detector";
+import { AstContext } from "../ast/context";
+import { ScanConfig, ApiCall } from "@api-surface/types";
+import { TRPC_URL_PREFIX, resolveTrpcClientFactory } from "./trpc-router";
+
+type Confidence = "high" | "medium" | "low";
+
+export interface TrpcDetectionResult {
+  method: string;
+  url: string;
+  confidence: Confidence;
+}
+
+type ProcedureType = "query" | "mutation" | "subscription";
+
+/** Procedure actions on the client (React hooks, vanilla client, utils, TanStack options) */
+const PROCEDURE_ACTIONS: Record<string, ProcedureType> = {
+  useQuery: "query",
+  useSuspenseQuery: "query",
+  useInfiniteQuery: "query",
+  useSuspenseInfiniteQuery: "query",
+  usePrefetchQuery: "query",
+  query: "query",
+  fetch: "query",
+  prefetch: "query",
+  fetchInfinite: "query",
+  prefetchInfinite: "query",
+  ensureData: "query",
+  queryOptions: "query",
+  infiniteQueryOptions: "query",
+  useMutation: "mutation",
+  mutate: "mutation",
+  mutationOptions: "mutation",
+  useSubscription: "subscription",
+  subscribe: "subscription",
+  subscriptionOptions: "subscription",
+};
+
+/** Client names accepted when the client definition cannot be resolved (imported, or file uses @trpc/*) */
+const CONVENTIONAL_CLIENT_NAMES = new Set(["trpc", "api"]);
+
+/**
+ * Detector for tRPC procedure calls
+ */
+export class TrpcDetector extends BaseDetector {
+  readonly id = "trpc";
+  readonly name = "tRPC Detector";
+
+  // Cache per file: client root name -> confidence (null = not a tRPC client)
+  private clientCache = new Map<string, Map<string, Confidence | null>>();
+
+  /**
+   * Only detect on CallExpression nodes
+   */
+  shouldDetect(node: Node): boolean {
+    return node.getKind() === SyntaxKind.CallExpression;
+  }
+
+  /**
+   * Detect tRPC procedure calls
+   */
+  detect(node: Node, context: AstContext, config: ScanConfig): ApiCall | null {
+    if (!this.shouldDetect(node)) {
+      return null;
+    }
+
+    const callExpr = node as CallExpression;
+    const expression = callExpr.getExpression();
+    if (expression.getKind() !== SyntaxKind.PropertyAccessExpression) {
+      return null;
+    }
+
+    const action = (expression as PropertyAccessExpression).getName();
+    const procedureType = PROCEDURE_ACTIONS[action];
+    if (!procedureType) {
+      return null;
+    }
+
+    // trpc.user.byId.useQuery -> root "trpc", path ["user", "byId"]
+    const chain = this.getProcedureChain(expression as PropertyAccessExpression);
+    if (!chain || chain.path.length === 0) {
+      return null;
+    }
+
+    const confidence = this.getClientConfidence(chain.root, context);
+    if (!confidence) {
+      return null;
+    }
+
+    const detection: TrpcDetectionResult = {
+      method: procedureType.toUpperCase(),
+      url: `${TRPC_URL_PREFIX}${chain.path.join(".")}`,
+      confidence,
+    };
+
+    // Log detection for validation
+    this.logDetection(context, detection, callExpr);
+
+    return this.createApiCall(
+      detection.method,
+      detection.url,
+      "trpc",
+      callExpr,
+      context,
+      detection.confidence,
+    );
+  }
+
+  /**
+   * Split the callee into the client identifier and the procedure path (without the action)
+   */
+  private getProcedureChain(
+    callee: PropertyAccessExpression,
+  ): { root: Node; path: string[] } | null {
+    const path: string[] = [];
+    let current: Node = callee.getExpression();
+    while (current.getKind() === SyntaxKind.PropertyAccessExpression) {
+      const access = current as PropertyAccessExpression;
+      path.unshift(access.getName());
+      current = access.getExpression();
+    }
+    if (current.getKind() !== SyntaxKind.Identifier) {
+      return null;
+    }
+    return { root: current, path };
+  }
+
+  /**
+   * Whether the root identifier is a tRPC client: resolved to createTRPC*() (high),
+   * or an imported conventional name when it cannot be resolved (medium)
+   */
+  private getClientConfidence(root: Node, context: AstContext): Confidence | null {
+    const cacheKey = context.filePath;
+    let fileCache = this.clientCache.get(cacheKey);
+    if (!fileCache) {
+      fileCache = new Map();
+      this.clientCache.set(cacheKey, fileCache);
+    }
+
+    const name = root.getText();
+    if (fileCache.has(name)) {
+      return fileCache.get(name)!;
+    }
+
+    let confidence: Confidence | null = null;
+    if (resolveTrpcClientFactory(root)) {
+      confidence = "high";
+    } else if (
+      CONVENTIONAL_CLIENT_NAMES.has(name) &&
+      context
+        .getImports()
+        .some(
+          (imp) =>
+            imp.moduleSpecifier.startsWith("@trpc/") ||
+            imp.namedImports.includes(name) ||
+            imp.defaultImport === name,
+        )
+    ) {
+      confidence = "medium";
+    }
+
+    fileCache.set(name, confidence);
+    return confidence;
+  }
+
+  /**
+   * Clear client cache (useful for testing or when file changes)
+   */
+  clearCache(): void {
+    this.clientCache.clear();
+  }
+}
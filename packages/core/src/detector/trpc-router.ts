@@ -0,0 +1,232 @@
+/**
+ * tRPC helpers shared by the tRPC detector and the function extractor:
+ * recognising tRPC client instances and walking router definitions to a procedure.
+ *
+ * Client:    export const trpc = createTRPCReact<AppRouter>();
+ * Router:    export const appRouter = router({ user: userRouter, health: publicProcedure.query(...) });
+ *            export type AppRouter = typeof appRouter;
+ * Procedure: trpc.user.byId.useQuery() -> appRouter -> user -> byId
+ */
+
+import {
+  Node,
+  SyntaxKind,
+  CallExpression,
+  Identifier,
+  PropertyAccessExpression,
+  VariableDeclaration,
+  TypeAliasDeclaration,
+  Project,
+} from "ts-morph";
+import { getObjectOption } from "./data-hook-utils";
+import { unwrapExpression } from "./url-resolver";
+
+/** URL prefix of tRPC endpoints: trpc:user.byId */
+export const TRPC_URL_PREFIX = "trpc:";
+
+/** Client factories: createTRPCReact, createTRPCNext, createTRPCProxyClient, createTRPCClient, ... */
+const CLIENT_FACTORY_RE = /^createTRPC\w*$/;
+
+/** Calls that return a client bound to an existing one: trpc.useUtils(), useTRPC() */
+const CLIENT_ACCESSORS = new Set(["useUtils", "useContext", "useTRPC", "useTRPCClient"]);
+
+/** Router factories: router({}), t.router({}), createTRPCRouter({}), mergeRouters(a, b) */
+const ROUTER_FACTORIES = new Set([
+  "router",
+  "createTRPCRouter",
+  "createRouter",
+  "mergeRouters",
+]);
+
+/** Max identifier hops when following client / router references */
+const MAX_RESOLVE_DEPTH = 5;
+
+/**
+ * Follow a client reference (trpc, api, utils) to the createTRPC*() call that created it.
+ * Returns null when the reference is not a tRPC client (or cannot be resolved).
+ */
+export function resolveTrpcClientFactory(node: Node, depth = 0): CallExpression | null {
+  if (depth > MAX_RESOLVE_DEPTH) {
+    return null;
+  }
+
+  const expr = unwrapExpression(node);
+  if (expr.getKind() === SyntaxKind.CallExpression) {
+    const call = expr as CallExpression;
+    const callee = call.getExpression();
+    const calleeName = getCalleeName(call);
+    if (!calleeName) {
+      return null;
+    }
+    if (CLIENT_FACTORY_RE.test(calleeName)) {
+      return call;
+    }
+    if (CLIENT_ACCESSORS.has(calleeName)) {
+      // trpc.useUtils() -> trpc; useTRPC() -> createTRPCContext<AppRouter>()
+      const target =
+        callee.getKind() === SyntaxKind.PropertyAccessExpression
+          ? (callee as PropertyAccessExpression).getExpression()
+          : callee;
+      return resolveTrpcClientFactory(target, depth + 1);
+    }
+    return null;
+  }
+
+  if (expr.getKind() !== SyntaxKind.Identifier) {
+    return null;
+  }
+
+  try {
+    for (const definition of (expr as Identifier).getDefinitionNodes()) {
+      // export const { TRPCProvider, useTRPC } = createTRPCContext<AppRouter>()
+      const declaration =
+        definition.getKind() === SyntaxKind.BindingElement
+          ? definition.getFirstAncestorByKind(SyntaxKind.VariableDeclaration)
+          : definition.getKind() === SyntaxKind.VariableDeclaration
+            ? (definition as VariableDeclaration)
+            : undefined;
+      const initializer = declaration?.getInitializer();
+      if (!initializer) continue;
+      const factory = resolveTrpcClientFactory(initializer, depth + 1);
+      if (factory) return factory;
+    }
+  } catch {
+    // Definition lookup failed (unresolvable import)
+  }
+  return null;
+}
+
+/**
+ * Router a client is typed with: createTRPCReact<AppRouter>() where AppRouter = typeof appRouter
+ */
+export function getClientRouter(clientFactory: CallExpression): Node | null {
+  const typeArg = clientFactory.getTypeArguments()[0];
+  if (!typeArg || !Node.isTypeReference(typeArg)) {
+    return null;
+  }
+
+  try {
+    const typeName = typeArg.getTypeName();
+    if (!Node.isIdentifier(typeName)) {
+      return null;
+    }
+    for (const definition of typeName.getDefinitionNodes()) {
+      if (definition.getKind() !== SyntaxKind.TypeAliasDeclaration) continue;
+      const typeNode = (definition as TypeAliasDeclaration).getTypeNode();
+      if (!typeNode || !Node.isTypeQuery(typeNode)) continue;
+      const exprName = typeNode.getExprName();
+      if (!Node.isIdentifier(exprName)) continue;
+      for (const routerDef of exprName.getDefinitionNodes()) {
+        if (routerDef.getKind() === SyntaxKind.VariableDeclaration) {
+          return routerDef;
+        }
+      }
+    }
+  } catch {
+    // Type lookup failed (unresolvable import)
+  }
+  return null;
+}
+
+/**
+ * Fallback when the client type cannot be followed: a variable named appRouter in the project
+ */
+export function findAppRouterInProject(project: Project): Node | null {
+  for (const sourceFile of project.getSourceFiles()) {
+    if (sourceFile.getFilePath().includes("/node_modules/")) continue;
+    const declaration = sourceFile.getVariableDeclaration("appRouter");
+    if (declaration?.getInitializer()) {
+      return declaration;
+    }
+  }
+  return null;
+}
+
+/**
+ * Walk a router to the procedure at `path` (["user", "byId"]).
+ * Returns the node holding the procedure: the `byId: publicProcedure...` property,
+ * or the variable declaration when the procedure is defined separately.
+ */
+export function findTrpcProcedure(router: Node, path: string[], depth = 0): Node | null {
+  if (path.length === 0 || depth > MAX_RESOLVE_DEPTH + path.length) {
+    return null;
+  }
+
+  for (const record of getRouterRecords(router, 0)) {
+    const value = getObjectOption(record, path[0]);
+    if (!value) continue;
+
+    if (path.length > 1) {
+      const nested = findTrpcProcedure(value, path.slice(1), depth + 1);
+      if (nested) return nested;
+      continue;
+    }
+
+    // Procedure defined elsewhere: byId: byIdProcedure
+    const declaration = Node.isIdentifier(value) ? resolveVariable(value) : null;
+    if (declaration) return declaration;
+    return value.getParent() ?? value;
+  }
+  return null;
+}
+
+/**
+ * Object literals that define a router's procedures (mergeRouters yields several)
+ */
+function getRouterRecords(node: Node, depth: number): Node[] {
+  if (depth > MAX_RESOLVE_DEPTH) {
+    return [];
+  }
+
+  let expr = unwrapExpression(node);
+  if (Node.isVariableDeclaration(expr)) {
+    const initializer = expr.getInitializer();
+    if (!initializer) return [];
+    expr = unwrapExpression(initializer);
+  }
+
+  // Nested routers may be plain objects: user: { byId: publicProcedure... }
+  if (expr.getKind() === SyntaxKind.ObjectLiteralExpression) {
+    return [expr];
+  }
+
+  if (expr.getKind() === SyntaxKind.Identifier) {
+    const declaration = resolveVariable(expr as Identifier);
+    return declaration ? getRouterRecords(declaration, depth + 1) : [];
+  }
+
+  if (expr.getKind() === SyntaxKind.CallExpression) {
+    const call = expr as CallExpression;
+    const calleeName = getCalleeName(call);
+    if (!calleeName || !ROUTER_FACTORIES.has(calleeName)) {
+      return [];
+    }
+    return call.getArguments().flatMap((arg) => getRouterRecords(arg, depth + 1));
+  }
+
+  return [];
+}
+
+function resolveVariable(identifier: Identifier): VariableDeclaration | null {
+  try {
+    for (const definition of identifier.getDefinitionNodes()) {
+      if (definition.getKind() === SyntaxKind.VariableDeclaration) {
+        return definition as VariableDeclaration;
+      }
+    }
+  } catch {
+    // Definition lookup failed (unresolvable import)
+  }
+  return null;
+}
+
+function getCalleeName(call: CallExpression): string | null {
+  const callee = call.getExpression();
+  if (callee.getKind() === SyntaxKind.Identifier) {
+    return callee.getText();
+  }
+  if (callee.getKind() === SyntaxKind.PropertyAccessExpression) {
+    return (callee as PropertyAccessExpression).getName();
+  }
+  return null;
+}
@@ -0,0 +1,361 @@
+/**
+ * URL constant propagation
+ * Resolves non-literal URL arguments to a concrete URL or template by following
+ * const identifiers, object properties (ENDPOINTS.users.list), enum members,
+ * string concatenation, template spans and simple builder functions
+ * (const userUrl = (id) => `${API}/users/${id}`) across files via symbol resolution,
+ * falling back to string literal types from the type checker.
+ *
+ *   const API = "https://api.example.com";
+ *   export const ENDPOINTS = { users: `${API}/users`, user: (id: string) => `${API}/users/${id}` };
+ *   fetch(ENDPOINTS.users)       -> https://api.example.com/users (high)
+ *   fetch(ENDPOINTS.user(userId)) -> https://api.example.com/users/${userId} (medium)
+ */
+
+import {
+  Node,
+  SyntaxKind,
+  CallExpression,
+  Identifier,
+  TemplateExpression,
+  BinaryExpression,
+  VariableDeclaration,
+  VariableDeclarationKind,
+  ParameterDeclaration,
+  PropertyDeclaration,
+} from "ts-morph";
+
+type Confidence = "high" | "medium" | "low";
+
+export interface ResolvedUrl {
+  url: string;
+  /** high: fully resolved to a literal; medium: template with unresolved parts */
+  confidence: Confidence;
+}
+
+/** A piece of a URL: resolved literal text, or source text of an unresolved expression */
+interface UrlPart {
+  text: string;
+  resolved: boolean;
+}
+
+/** Values bound to builder function parameters while inlining a call */
+type ParameterBindings = Map<ParameterDeclaration, UrlPart[]>;
+
+/** Max declaration hops / nested builder calls (guards against cycles) */
+const MAX_RESOLVE_DEPTH = 8;
+
+/**
+ * Extract the URL of a detected call's URL argument and determine confidence:
+ * literals are high, resolved expressions as resolved, other templates medium,
+ * anything else its source text at low confidence
+ */
+export function extractUrl(node: Node): ResolvedUrl {
+  if (Node.isStringLiteral(node)) {
+    return { url: node.getLiteralValue(), confidence: "high" };
+  }
+
+  // Follow constants, object properties, concatenation and builder functions (across files)
+  const resolved = resolveUrlExpression(node);
+  if (resolved) {
+    return resolved;
+  }
+
+  if (Node.isTemplateExpression(node)) {
+    return { url: node.getText().replace(/^`|`$/g, ""), confidence: "medium" };
+  }
+  if (Node.isNoSubstitutionTemplateLiteral(node)) {
+    const url = node.getLiteralValue() || node.getText().replace(/^`|`$/g, "");
+    return { url, confidence: "high" };
+  }
+  return { url: node.getText(), confidence: "low" };
+}
+
+/**
+ * A string literal or a constant that fully resolves to one (EVENTS.JOIN, METHODS.post),
+ * null for anything else
+ */
+export function resolveStringValue(node: Node): string | null {
+  if (Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node)) {
+    return node.getLiteralValue();
+  }
+  const resolved = resolveUrlExpression(node);
+  return resolved?.confidence === "high" ? resolved.url : null;
+}
+
+/**
+ * The lower of two confidences (a URL joined from a base and a path is only as certain as both)
+ */
+export function lowestConfidence(a: Confidence, b: Confidence): Confidence {
+  const levels = { low: 0, medium: 1, high: 2 };
+  return levels[a] <= levels[b] ? a : b;
+}
+
+/**
+ * Resolve a URL expression. Returns null when nothing could be resolved
+ * beyond the expression's own source text (extractUrl falls back to it at low confidence).
+ */
+export function resolveUrlExpression(node: Node): ResolvedUrl | null {
+  const parts = resolveParts(node, new Map(), 0);
+  if (!parts.some((part) => part.resolved && part.text)) {
+    return null;
+  }
+
+  const url = parts
+    .map((part) => (part.resolved ? part.text : `\${${part.text}}`))
+    .join("");
+  return {
+    url,
+    confidence: parts.every((part) => part.resolved) ? "high" : "medium",
+  };
+}
+
+function resolveParts(node: Node, bindings: ParameterBindings, depth: number): UrlPart[] {
+  const expr = unwrapExpression(node);
+  if (depth > MAX_RESOLVE_DEPTH) {
+    return [unresolved(expr)];
+  }
+
+  if (Node.isStringLiteral(expr) || Node.isNoSubstitutionTemplateLiteral(expr)) {
+    return [{ text: expr.getLiteralValue(), resolved: true }];
+  }
+
+  switch (expr.getKind()) {
+    case SyntaxKind.NumericLiteral:
+      return [{ text: expr.getText(), resolved: true }];
+
+    case SyntaxKind.TemplateExpression: {
+      // `${API}/users/${id}` -> resolve each span
+      const template = expr as TemplateExpression;
+      const parts: UrlPart[] = [{ text: template.getHead().getLiteralText(), resolved: true }];
+      for (const span of template.getTemplateSpans()) {
+        parts.push(...resolveParts(span.getExpression(), bindings, depth + 1));
+        parts.push({ text: span.getLiteral().getLiteralText(), resolved: true });
+      }
+      return parts;
+    }
+
+    case SyntaxKind.BinaryExpression: {
+      // API + "/users"
+      const binary = expr as BinaryExpression;
+      if (binary.getOperatorToken().getKind() === SyntaxKind.PlusToken) {
+        return [
+          ...resolveParts(binary.getLeft(), bindings, depth + 1),
+          ...resolveParts(binary.getRight(), bindings, depth + 1),
+        ];
+      }
+      break;
+    }
+
+    case SyntaxKind.Identifier:
+    case SyntaxKind.PropertyAccessExpression:
+    case SyntaxKind.ElementAccessExpression: {
+      const value = resolveReference(expr, bindings, depth);
+      if (value) return value;
+      break;
+    }
+
+    case SyntaxKind.CallExpression: {
+      const value = resolveBuilderCall(expr as CallExpression, bindings, depth);
+      if (value) return value;
+      break;
+    }
+  }
+
+  return [literalFromType(expr) ?? unresolved(expr)];
+}
+
+/**
+ * Identifier / property access -> the value it was declared with
+ */
+function resolveReference(
+  expr: Node,
+  bindings: ParameterBindings,
+  depth: number,
+): UrlPart[] | null {
+  for (const declaration of getDeclarations(expr)) {
+    // Builder function parameter bound to a call argument
+    if (Node.isParameterDeclaration(declaration)) {
+      const bound = bindings.get(declaration);
+      if (bound) return bound;
+      continue;
+    }
+
+    const value = getDeclaredValue(declaration);
+    if (value) {
+      return resolveParts(value, bindings, depth + 1);
+    }
+  }
+  return null;
+}
+
+/**
+ * buildUrl(id) / ENDPOINTS.user(id): inline a function whose body is a single returned expression
+ */
+function resolveBuilderCall(
+  call: CallExpression,
+  bindings: ParameterBindings,
+  depth: number,
+): UrlPart[] | null {
+  for (const declaration of getDeclarations(call.getExpression())) {
+    const fn = Node.isFunctionDeclaration(declaration) || Node.isMethodDeclaration(declaration)
+      ? declaration
+      : getDeclaredValue(declaration);
+    if (
+      !fn ||
+      !(
+        Node.isArrowFunction(fn) ||
+        Node.isFunctionExpression(fn) ||
+        Node.isFunctionDeclaration(fn) ||
+        Node.isMethodDeclaration(fn)
+      )
+    ) {
+      continue;
+    }
+
+    const returned = getSingleReturnedExpression(fn);
+    if (!returned) continue;
+
+    // Bind parameters to the call's arguments (or their defaults); others stay unresolved
+    const args = call.getArguments();
+    const callBindings: ParameterBindings = new Map();
+    fn.getParameters().forEach((param, index) => {
+      const arg = args[index] ?? param.getInitializer();
+      callBindings.set(
+        param,
+        arg
+          ? resolveParts(arg, bindings, depth + 1)
+          : [{ text: param.getName(), resolved: false }],
+      );
+    });
+    return resolveParts(returned, callBindings, depth + 1);
+  }
+  return null;
+}
+
+/**
+ * Declarations a reference points to (follows imports and re-exports)
+ */
+function getDeclarations(expr: Node): Node[] {
+  let nameNode: Node | undefined;
+  if (Node.isIdentifier(expr)) {
+    nameNode = expr;
+  } else if (Node.isPropertyAccessExpression(expr)) {
+    nameNode = expr.getNameNode();
+  } else if (Node.isElementAccessExpression(expr)) {
+    // ENDPOINTS["users"]
+    const arg = expr.getArgumentExpression();
+    if (!arg || !Node.isStringLiteral(arg)) return [];
+    nameNode = arg;
+  }
+  if (!nameNode) {
+    return [];
+  }
+
+  try {
+    return (nameNode as Identifier).getDefinitionNodes();
+  } catch {
+    // Definition lookup failed (unresolvable import)
+    return [];
+  }
+}
+
+/**
+ * Initializer of a const / readonly declaration: const X = ..., { users: ... }, enum members,
+ * readonly class properties and class properties that are never reassigned
+ */
+function getDeclaredValue(declaration: Node): Node | undefined {
+  if (Node.isVariableDeclaration(declaration)) {
+    return isConstDeclaration(declaration) ? declaration.getInitializer() : undefined;
+  }
+  if (Node.isPropertyAssignment(declaration) || Node.isEnumMember(declaration)) {
+    return declaration.getInitializer();
+  }
+  if (Node.isShorthandPropertyAssignment(declaration)) {
+    return declaration.getNameNode();
+  }
+  if (
+    Node.isPropertyDeclaration(declaration) &&
+    (declaration.isReadonly() || !isReassigned(declaration))
+  ) {
+    return declaration.getInitializer();
+  }
+  return undefined;
+}
+
+/**
+ * Whether a class property is assigned anywhere besides its initializer (this.apiUrl = ...)
+ */
+function isReassigned(property: PropertyDeclaration): boolean {
+  const name = property.getName();
+  const classNode = property.getParent();
+  return classNode
+    .getDescendantsOfKind(SyntaxKind.BinaryExpression)
+    .some((binary) => {
+      const left = binary.getLeft();
+      return (
+        binary.getOperatorToken().getKind() === SyntaxKind.EqualsToken &&
+        Node.isPropertyAccessExpression(left) &&
+        left.getName() === name &&
+        left.getExpression().getKind() === SyntaxKind.ThisKeyword
+      );
+    });
+}
+
+function isConstDeclaration(declaration: VariableDeclaration): boolean {
+  const list = declaration.getParent();
+  return (
+    Node.isVariableDeclarationList(list) &&
+    list.getDeclarationKind() === VariableDeclarationKind.Const
+  );
+}
+
+function getSingleReturnedExpression(fn: Node): Node | null {
+  const body = Node.isBodied(fn) || Node.isBodyable(fn) ? fn.getBody() : undefined;
+  if (!body) {
+    return null;
+  }
+  if (!Node.isBlock(body)) {
+    return body;
+  }
+  const statements = body.getStatements();
+  if (statements.length !== 1 || !Node.isReturnStatement(statements[0])) {
+    return null;
+  }
+  return statements[0].getExpression() ?? null;
+}
+
+/**
+ * String / number literal types from the type checker (declare const, `as const` values from .d.ts)
+ */
+function literalFromType(expr: Node): UrlPart | null {
+  try {
+    const type = expr.getType();
+    if (type.isStringLiteral() || type.isNumberLiteral()) {
+      return { text: String(type.getLiteralValue()), resolved: true };
+    }
+  } catch {
+    // Type checking failed - keep the expression unresolved
+  }
+  return null;
+}
+
+function unresolved(expr: Node): UrlPart {
+  return { text: expr.getText(), resolved: false };
+}
+
+/**
+ * Strip wrappers that do not change the value: (x), x as const, x!, x satisfies T
+ */
+export function unwrapExpression(node: Node): Node {
+  let current = node;
+  while (
+    Node.isParenthesizedExpression(current) ||
+    Node.isAsExpression(current) ||
+    Node.isNonNullExpression(current) ||
+    Node.isSatisfiesExpression(current)
+  ) {
+    current = current.getExpression();
+  }
+  return current;
+}
@@ -8,11 +8,15 @@ import { BaseAstVisitor } from '../ast/visitor';
 import { DetectorRegistry } from './registry';
 import { ScanConfig, ApiCall } from '@api-surface/types';
 
+/** Data-fetching hooks whose call accounts for the request made by an inline queryFn / fetcher */
+const DATA_HOOK_SOURCES = new Set<ApiCall['source']>(['tanstack-query', 'swr']);
+
 /**
  * Visitor that runs detectors on AST nodes
  */
 export class DetectorVisitor extends BaseAstVisitor {
   private apiCalls: ApiCall[] = [];
+  private callNodes = new Map<ApiCall, Node>();
 
   constructor(
     private registry: DetectorRegistry,
@@ -40,6 +44,7 @@ export class DetectorVisitor extends BaseAstVisitor {
         
         if (apiCall) {
           this.apiCalls.push(apiCall);
+          this.callNodes.set(apiCall, node);
         }
       } catch (error) {
         // Log error but continue with other detectors
@@ -58,7 +63,13 @@ export class DetectorVisitor extends BaseAstVisitor {
    * Get all detected API calls
    */
   getApiCalls(): ApiCall[] {
-    return [...this.apiCalls];
+    const hookCalls = this.apiCalls.filter((call) => DATA_HOOK_SOURCES.has(call.source));
+    if (hookCalls.length === 0) {
+      return [...this.apiCalls];
+    }
+    return this.apiCalls.filter(
+      (call) => !hookCalls.some((hookCall) => this.isAccountedForByHook(call, hookCall))
+    );
   }
 
   /**
@@ -66,6 +77,25 @@ export class DetectorVisitor extends BaseAstVisitor {
    */
   clear(): void {
     this.apiCalls = [];
+    this.callNodes.clear();
+  }
+
+  /**
+   * A request inside the hook call itself - useQuery({ queryFn: () => fetch('/api/x') }),
+   * useSWR('/api/x', (url) => fetch(url)) - is the hook's request, not another call site:
+   * same URL, or a URL that is only a runtime value (the key passed to the fetcher)
+   */
+  private isAccountedForByHook(call: ApiCall, hookCall: ApiCall): boolean {
+    if (call === hookCall || DATA_HOOK_SOURCES.has(call.source)) {
+      return false;
+    }
+    const node = this.callNodes.get(call);
+    const hookNode = this.callNodes.get(hookCall);
+    if (!node || !hookNode) {
+      return false;
+    }
+    const inside = hookNode.getStart() <= node.getStart() && node.getEnd() <= hookNode.getEnd();
+    return inside && (call.url === hookCall.url || call.confidence === 'low');
   }
 
   /**
@@ -0,0 +1,21 @@
+/**
+ * WebSocket Channel Detector
+ * Detects new WebSocket(url) (browser, "ws", "isomorphic-ws", "reconnecting-websocket")
+ */
+
+import { ChannelDetector, ChannelSpec } from "./channel-detector";
+
+/**
+ * Detector for WebSocket connections
+ */
+export class WebSocketDetector extends ChannelDetector {
+  readonly id = "websocket";
+  readonly name = "WebSocket Detector";
+  protected readonly source = "websocket" as const;
+  protected readonly spec: ChannelSpec = {
+    constructors: ["WebSocket"],
+    modules: ["ws", "isomorphic-ws", "reconnecting-websocket"],
+    method: "WS",
+    protocol: "ws",
+  };
+}
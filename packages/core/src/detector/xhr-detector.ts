@@ -0,0 +1,200 @@
+/**
+ * XMLHttpRequest Detector
+ * Detects xhr.open(method, url) on XMLHttpRequest instances and pairs it with the
+ * xhr.send(body) on the same receiver (and xhr.setRequestHeader(name, ...)) for the request shape.
+ *
+ *   const xhr = new XMLHttpRequest();
+ *   xhr.open('POST', '/api/upload');
+ *   xhr.setRequestHeader('Content-Type', 'application/json');
+ *   xhr.send(JSON.stringify({ name }));
+ *   -> POST /api/upload (high), request { bodyType: "json", bodyFields: ["name"], headers: ["Content-Type"] }
+ */
+
+import { Node, SyntaxKind, CallExpression, PropertyAccessExpression } from "ts-morph";
+import { BaseDetector } from "./detector";
+import { AstContext } from "../ast/context";
+import { ScanConfig, ApiCall } from "@api-surface/types";
+import { extractUrl, resolveStringValue } from "./url-resolver";
+import { extractSendRequestShape } from "./request-shape";
+
+type Confidence = "high" | "medium" | "low";
+
+export interface XhrDetectionResult {
+  method: string;
+  url: string;
+  confidence: Confidence;
+}
+
+/** Global objects that expose XMLHttpRequest: new window.XMLHttpRequest() */
+const XHR_GLOBALS = new Set(["window", "globalThis", "self"]);
+
+/**
+ * Detector for XMLHttpRequest open()/send() pairs
+ */
+export class XhrDetector extends BaseDetector {
+  readonly id = "xhr";
+  readonly name = "XMLHttpRequest Detector";
+
+  /**
+   * Only detect on CallExpression nodes
+   */
+  shouldDetect(node: Node): boolean {
+    return node.getKind() === SyntaxKind.CallExpression;
+  }
+
+  /**
+   * Detect xhr.open(method, url)
+   */
+  detect(node: Node, context: AstContext, config: ScanConfig): ApiCall | null {
+    if (!this.shouldDetect(node)) {
+      return null;
+    }
+
+    const callExpr = node as CallExpression;
+    const callee = callExpr.getExpression();
+    if (!Node.isPropertyAccessExpression(callee) || callee.getName() !== "open") {
+      return null;
+    }
+
+    const [methodArg, urlArg] = callExpr.getArguments();
+    if (!methodArg || !urlArg || !this.isXhrReceiver(callee.getExpression())) {
+      return null;
+    }
+
+    const urlResult = extractUrl(urlArg);
+    const sendCall = this.findSendCall(callExpr, callee);
+
+    const detection: XhrDetectionResult = {
+      method: this.extractMethod(methodArg),
+      url: urlResult.url,
+      // Opened but never sent on this receiver in scope: may be sent elsewhere
+      confidence: sendCall || urlResult.confidence === "low" ? urlResult.confidence : "medium",
+    };
+
+    // Log detection for validation
+    this.logDetection(context, detection, callExpr);
+
+    const apiCall = this.createApiCall(
+      detection.method,
+      detection.url,
+      "xhr",
+      callExpr,
+      context,
+      detection.confidence,
+    );
+
+    // Body from send(body), header names from setRequestHeader(name, value)
+    const request = extractSendRequestShape(
+      sendCall?.getArguments()[0],
+      this.collectRequestHeaders(callExpr, callee),
+    );
+    if (request) {
+      apiCall.request = request;
+    }
+    return apiCall;
+  }
+
+  /**
+   * Receiver created with new XMLHttpRequest() (declaration initializer) or typed as XMLHttpRequest
+   */
+  private isXhrReceiver(receiver: Node): boolean {
+    if (Node.isNewExpression(receiver)) {
+      return this.isXhrConstructor(receiver.getExpression());
+    }
+
+    if (Node.isIdentifier(receiver)) {
+      try {
+        for (const definition of receiver.getDefinitionNodes()) {
+          if (!Node.isVariableDeclaration(definition)) continue;
+          const initializer = definition.getInitializer();
+          if (initializer && Node.isNewExpression(initializer)) {
+            return this.isXhrConstructor(initializer.getExpression());
+          }
+        }
+      } catch {
+        // Definition lookup failed - fall back to the type
+      }
+    }
+
+    try {
+      return receiver.getType().getSymbol()?.getName() === "XMLHttpRequest";
+    } catch {
+      return false;
+    }
+  }
+
+  private isXhrConstructor(expression: Node): boolean {
+    if (Node.isIdentifier(expression)) {
+      return expression.getText() === "XMLHttpRequest";
+    }
+    return (
+      Node.isPropertyAccessExpression(expression) &&
+      expression.getName() === "XMLHttpRequest" &&
+      XHR_GLOBALS.has(expression.getExpression().getText())
+    );
+  }
+
+  /**
+   * The xhr.send(...) after open() on the same receiver, within the enclosing function (or file)
+   */
+  private findSendCall(
+    openCall: CallExpression,
+    callee: PropertyAccessExpression,
+  ): CallExpression | undefined {
+    return this.findReceiverCalls(openCall, callee, "send").find(
+      (call) => call.getStart() > openCall.getStart(),
+    );
+  }
+
+  /**
+   * Header names from xhr.setRequestHeader('Name', value) on the same receiver
+   */
+  private collectRequestHeaders(
+    openCall: CallExpression,
+    callee: PropertyAccessExpression,
+  ): string[] {
+    const headers: string[] = [];
+    for (const call of this.findReceiverCalls(openCall, callee, "setRequestHeader")) {
+      const nameArg = call.getArguments()[0];
+      if (nameArg && (Node.isStringLiteral(nameArg) || Node.isNoSubstitutionTemplateLiteral(nameArg))) {
+        headers.push(nameArg.getLiteralValue());
+      }
+    }
+    return headers;
+  }
+
+  /**
+   * Calls of `method` on the receiver of open() (matched by receiver text) in the enclosing scope
+   */
+  private findReceiverCalls(
+    openCall: CallExpression,
+    callee: PropertyAccessExpression,
+    method: string,
+  ): CallExpression[] {
+    const receiverText = callee.getExpression().getText();
+    const scope =
+      openCall.getFirstAncestor(
+        (ancestor) =>
+          Node.isFunctionDeclaration(ancestor) ||
+          Node.isFunctionExpression(ancestor) ||
+          Node.isArrowFunction(ancestor) ||
+          Node.isMethodDeclaration(ancestor),
+      ) ?? openCall.getSourceFile();
+
+    return scope.getDescendantsOfKind(SyntaxKind.CallExpression).filter((call) => {
+      const expression = call.getExpression();
+      return (
+        Node.isPropertyAccessExpression(expression) &&
+        expression.getName() === method &&
+        expression.getExpression().getText() === receiverText
+      );
+    });
+  }
+
+  /**
+   * HTTP method from the first open() argument
+   */
+  private extractMethod(node: Node): string {
+    return resolveStringValue(node)?.toUpperCase() ?? node.getText();
+  }
+}
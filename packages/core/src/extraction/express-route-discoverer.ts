@@ -0,0 +1,112 @@
+/**
+ * Express route discoverer
+ *
+ *   const app = express();                 const router = express.Router();
+ *   app.get("/health", health);            router.route("/:id").get(getUser).put(auth, updateUser);
+ *   app.use("/api/users", router);         -> GET /api/users/:id, PUT /api/users/:id
+ */
+
+import { CallExpression, Node } from "ts-morph";
+import { unwrapExpression } from "../detector/url-resolver";
+import {
+  PackageBindings,
+  ROUTER_METHODS,
+  ServerRouteDiscoverer,
+  ServerRouteMount,
+  ServerRouteRegistration,
+  flattenHandlers,
+  getPathLiteral,
+  isHandlerLike,
+} from "./server-route-discoverer";
+
+export class ExpressRouteDiscoverer extends ServerRouteDiscoverer {
+  readonly id = "express";
+  readonly packages = ["express"];
+  protected readonly routerTypes = ["Express", "Application", "Router", "IRouter"];
+
+  /**
+   * express(), express.Router(), Router() and require("express")()
+   */
+  protected getRouterPrefix(expression: Node, bindings: PackageBindings): string | undefined {
+    if (!Node.isCallExpression(expression)) {
+      return undefined;
+    }
+    const callee = unwrapExpression(expression.getExpression());
+    if (Node.isIdentifier(callee)) {
+      const binding = bindings.get(callee.getText());
+      return binding === "default" || binding === "Router" ? "" : undefined;
+    }
+    if (Node.isPropertyAccessExpression(callee) && callee.getName() === "Router") {
+      const target = callee.getExpression();
+      return (Node.isIdentifier(target) && bindings.has(target.getText())) ||
+        this.isPackageRequire(target)
+        ? ""
+        : undefined;
+    }
+    return this.isPackageRequire(callee) ? "" : undefined;
+  }
+
+  /**
+   * app.get(path, ...handlers), and app.route(path).get(...handlers)
+   */
+  protected readRoutes(call: CallExpression, name: string): ServerRouteRegistration[] {
+    const method = ROUTER_METHODS[name];
+    if (!method) {
+      return [];
+    }
+    const args = call.getArguments();
+    const path = getPathLiteral(args[0]);
+    const handlers = flattenHandlers(path !== undefined ? args.slice(1) : args);
+    if (handlers.length === 0 || !handlers.every(isHandlerLike)) {
+      return [];
+    }
+    if (path !== undefined) {
+      return [{ methods: [method], path, handlers }];
+    }
+    return isRouteChain(call) ? [{ methods: [method], path: "", handlers }] : [];
+  }
+
+  /**
+   * app.use(path?, ...routers)
+   */
+  protected readMounts(call: CallExpression, name: string): ServerRouteMount[] {
+    if (name !== "use") {
+      return [];
+    }
+    const args = call.getArguments();
+    const prefix = getPathLiteral(args[0]);
+    return flattenHandlers(prefix !== undefined ? args.slice(1) : args).map((child) => ({
+      prefix: prefix ?? "",
+      child,
+    }));
+  }
+
+  protected getChainPrefix(call: CallExpression, name: string): string | undefined {
+    return name === "route" ? getPathLiteral(call.getArguments()[0]) : undefined;
+  }
+}
+
+/**
+ * Whether a method call is made on router.route(path) (possibly after other method calls)
+ */
+function isRouteChain(call: CallExpression): boolean {
+  let receiver = unwrapExpression(call.getExpression());
+  while (Node.isPropertyAccessExpression(receiver)) {
+    const target = unwrapExpression(receiver.getExpression());
+    if (!Node.isCallExpression(target)) {
+      return false;
+    }
+    const callee = target.getExpression();
+    if (!Node.isPropertyAccessExpression(callee)) {
+      return false;
+    }
+    if (callee.getName() === "route") {
+      return true;
+    }
+    if (!ROUTER_METHODS[callee.getName()]) {
+      return false;
+    }
+    receiver = callee;
+  }
+  return false;
+}
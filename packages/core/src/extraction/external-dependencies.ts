@@ -0,0 +1,493 @@
+/**
+ * Outbound dependency inventory - static analysis only.
+ * For calls whose function is an API route handler under apiRoutesDir (exported GET, POST, ...),
+ * walks the handler and the project functions it calls, and records third-party SDK clients
+ * and HTTP requests to absolute hosts. Runs as a separate phase after extraction.
+ *
+ * Output (added to ApiCall):
+ * - externalDependencies?: ExternalDependency[]
+ *
+ * Example:
+ *   const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+ *   export async function POST(req: Request) {
+ *     await stripe.customers.create({ email });
+ *     await notifySlack(email); // helper: fetch("https://hooks.slack.com/services/x", { method: "POST" })
+ *   }
+ *   -> [{ kind: "sdk", name: "stripe", operations: ["customers.create"] },
+ *       { kind: "http", name: "hooks.slack.com", operations: ["POST /services/x"] }]
+ */
+
+import {
+  Project,
+  SourceFile,
+  Node,
+  CallExpression,
+  SyntaxKind,
+  Identifier,
+} from "ts-morph";
+import * as path from "path";
+import { ApiCall, ExternalDependency } from "@api-surface/types";
+import { resolveUrlExpression } from "../detector/url-resolver";
+import { isApiRouteCall } from "./function-extractor";
+
+/** SDK packages: module specifier -> dependency name (@aws-sdk/client-<service> -> aws-<service>) */
+const SDK_MODULES: Record<string, string> = {
+  stripe: "stripe",
+  openai: "openai",
+  "@anthropic-ai/sdk": "anthropic",
+  twilio: "twilio",
+  resend: "resend",
+  "@sendgrid/mail": "sendgrid",
+  postmark: "postmark",
+  "@slack/web-api": "slack",
+  "@google/generative-ai": "google-generative-ai",
+  "@supabase/supabase-js": "supabase",
+  "@octokit/rest": "github",
+  "@pusher/push-notifications-server": "pusher",
+  pusher: "pusher",
+  "@mailchimp/mailchimp_marketing": "mailchimp",
+};
+
+const AWS_CLIENT_PREFIX = "@aws-sdk/client-";
+
+/** Route handler export names (Next.js App Router) */
+const HANDLER_NAMES = new Set(["GET", "POST", "PUT", "PATCH", "DELETE", "HEAD", "OPTIONS"]);
+
+const AXIOS_METHODS = new Set(["get", "post", "put", "patch", "delete", "head", "options"]);
+
+/** Max nested project helpers followed from a handler (handler -> helper -> helper ...) */
+const MAX_HELPER_DEPTH = 3;
+
+/** Max hops when following a client variable to its SDK constructor (const stripe = getStripe()) */
+const MAX_CLIENT_DEPTH = 3;
+
+/** ${process.env.USERS_SERVICE_URL}/users -> base "process.env.USERS_SERVICE_URL", path "/users" */
+const ENV_BASE_RE = /^\$\{(process\.env\.[A-Za-z_][A-Za-z0-9_]*)\}(.*)$/;
+
+const ABSOLUTE_URL_RE = /^https?:\/\/([^/?#]+)([^?#]*)/i;
+
+/**
+ * Collects the SDKs and external hosts used by API route handlers
+ */
+export class ExternalDependencyAnalyzer {
+  private apiDirAbs: string;
+  /** Dependencies per handler (functionFile#functionName) */
+  private cache = new Map<string, ExternalDependency[]>();
+
+  constructor(
+    private project: Project,
+    private rootDir: string,
+    apiRoutesDir: string,
+  ) {
+    this.apiDirAbs = path.resolve(rootDir, apiRoutesDir);
+  }
+
+  /**
+   * Outbound dependencies of the route handler an API call resolved to (empty when
+   * the call's function is not a handler under apiRoutesDir, or when the call is an outbound
+   * request made inside the handler: its function is the handler, but its URL is not the route)
+   */
+  analyze(apiCall: ApiCall): ExternalDependency[] {
+    const { functionFile, functionName } = apiCall;
+    if (!functionFile || !functionName || !HANDLER_NAMES.has(functionName) || !isApiRouteCall(apiCall)) {
+      return [];
+    }
+    if (!path.resolve(functionFile).startsWith(this.apiDirAbs + path.sep)) {
+      return [];
+    }
+
+    const cacheKey = `${functionFile}#${functionName}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const sourceFile = this.getSourceFile(functionFile);
+    const handler = sourceFile ? findRouteHandler(sourceFile, functionName) : undefined;
+    const dependencies = new Map<string, ExternalDependency>();
+    if (handler) {
+      this.visitScope(handler, dependencies, new Set(), 0);
+    }
+
+    const result = sortDependencies(Array.from(dependencies.values()));
+    this.cache.set(cacheKey, result);
+    return result;
+  }
+
+  /**
+   * Record SDK and HTTP calls in a function body, then follow calls into project helpers
+   */
+  private visitScope(
+    scope: Node,
+    dependencies: Map<string, ExternalDependency>,
+    visited: Set<Node>,
+    depth: number,
+  ): void {
+    if (visited.has(scope)) {
+      return;
+    }
+    visited.add(scope);
+
+    for (const call of scope.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+      const dependency = this.getSdkOperation(call) ?? this.getHttpOperation(call);
+      if (dependency) {
+        addDependency(dependencies, dependency.kind, dependency.name, dependency.operation);
+        continue;
+      }
+
+      if (depth < MAX_HELPER_DEPTH) {
+        const helper = this.resolveProjectFunction(call);
+        if (helper) {
+          this.visitScope(helper, dependencies, visited, depth + 1);
+        }
+      }
+    }
+  }
+
+  /**
+   * stripe.customers.create(...) on an SDK client -> { sdk stripe, "customers.create" };
+   * s3.send(new PutObjectCommand(...)) -> { sdk aws-s3, "PutObjectCommand" }
+   */
+  private getSdkOperation(
+    call: CallExpression,
+  ): { kind: "sdk"; name: string; operation: string } | null {
+    const names: string[] = [];
+    let expression: Node = call.getExpression();
+    while (Node.isPropertyAccessExpression(expression)) {
+      names.unshift(expression.getName());
+      expression = expression.getExpression();
+    }
+    if (names.length === 0 || !Node.isIdentifier(expression)) {
+      return null;
+    }
+
+    const sdk = this.getSdkClientName(expression, 0);
+    if (!sdk) {
+      return null;
+    }
+
+    // AWS SDK v3: client.send(new GetObjectCommand(input))
+    const firstArg = call.getArguments()[0];
+    if (names.length === 1 && names[0] === "send" && firstArg && Node.isNewExpression(firstArg)) {
+      return { kind: "sdk", name: sdk, operation: firstArg.getExpression().getText() };
+    }
+    return { kind: "sdk", name: sdk, operation: names.join(".") };
+  }
+
+  /**
+   * SDK name when the identifier is an SDK module import (sgMail from "@sendgrid/mail") or a
+   * variable / property initialized from one (new Stripe(key), twilio(sid, token), getStripe())
+   */
+  private getSdkClientName(identifier: Identifier, depth: number): string | undefined {
+    const imported = getImportedSdk(identifier.getSourceFile(), identifier.getText());
+    if (imported) {
+      return imported;
+    }
+    if (depth >= MAX_CLIENT_DEPTH) {
+      return undefined;
+    }
+
+    let definitions: Node[] = [];
+    try {
+      definitions = identifier.getDefinitionNodes();
+    } catch {
+      return undefined;
+    }
+
+    for (const definition of definitions) {
+      if (!Node.isVariableDeclaration(definition) && !Node.isPropertyDeclaration(definition)) {
+        continue;
+      }
+      const initializer = definition.getInitializer();
+      const sdk = initializer ? this.getSdkFromExpression(initializer, depth + 1) : undefined;
+      if (sdk) {
+        return sdk;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * SDK created by an expression: new Stripe(), twilio(), cached ?? new OpenAI(), createClient()
+   * from "@supabase/supabase-js", or a project factory returning one of these
+   */
+  private getSdkFromExpression(expression: Node, depth: number): string | undefined {
+    const node = unwrap(expression);
+
+    if (Node.isBinaryExpression(node)) {
+      // globalForStripe.stripe ?? new Stripe(key)
+      return (
+        this.getSdkFromExpression(node.getRight(), depth) ??
+        this.getSdkFromExpression(node.getLeft(), depth)
+      );
+    }
+    if (Node.isConditionalExpression(node)) {
+      return (
+        this.getSdkFromExpression(node.getWhenTrue(), depth) ??
+        this.getSdkFromExpression(node.getWhenFalse(), depth)
+      );
+    }
+    if (Node.isIdentifier(node)) {
+      return this.getSdkClientName(node, depth);
+    }
+    if (!Node.isNewExpression(node) && !Node.isCallExpression(node)) {
+      return undefined;
+    }
+
+    // new Stripe(key) / twilio(sid, token) / createClient(url, key) / new S3Client({})
+    let callee: Node = node.getExpression();
+    while (Node.isPropertyAccessExpression(callee)) {
+      callee = callee.getExpression();
+    }
+    if (!Node.isIdentifier(callee)) {
+      return undefined;
+    }
+    const imported = getImportedSdk(callee.getSourceFile(), callee.getText());
+    if (imported || depth >= MAX_CLIENT_DEPTH || !Node.isCallExpression(node)) {
+      return imported;
+    }
+
+    // getStripe(): follow the project factory's returned expression
+    const factory = this.resolveProjectFunction(node);
+    if (!factory) {
+      return undefined;
+    }
+    const returned: Node[] = Node.isArrowFunction(factory) && !Node.isBlock(factory.getBody())
+      ? [factory.getBody()]
+      : factory
+          .getDescendantsOfKind(SyntaxKind.ReturnStatement)
+          .flatMap((statement) => statement.getExpression() ?? []);
+    for (const value of returned) {
+      const sdk = this.getSdkFromExpression(value, depth + 1);
+      if (sdk) {
+        return sdk;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * fetch / axios request to an absolute host or an env-configured base URL
+   */
+  private getHttpOperation(
+    call: CallExpression,
+  ): { kind: "http"; name: string; operation: string } | null {
+    const callee = call.getExpression();
+    const [urlArg, optionsArg] = call.getArguments();
+    if (!urlArg) {
+      return null;
+    }
+
+    let method: string;
+    if (Node.isIdentifier(callee) && callee.getText() === "fetch") {
+      method = getFetchMethod(optionsArg);
+    } else if (
+      Node.isPropertyAccessExpression(callee) &&
+      callee.getExpression().getText() === "axios" &&
+      AXIOS_METHODS.has(callee.getName())
+    ) {
+      method = callee.getName().toUpperCase();
+    } else {
+      return null;
+    }
+
+    const url = Node.isStringLiteral(urlArg) || Node.isNoSubstitutionTemplateLiteral(urlArg)
+      ? urlArg.getLiteralValue()
+      : resolveUrlExpression(urlArg)?.url;
+    if (!url) {
+      return null;
+    }
+
+    const absolute = ABSOLUTE_URL_RE.exec(url);
+    if (absolute) {
+      return { kind: "http", name: absolute[1].toLowerCase(), operation: `${method} ${absolute[2] || "/"}` };
+    }
+    const envBase = ENV_BASE_RE.exec(url);
+    if (envBase) {
+      const pathname = envBase[2].split(/[?#]/)[0];
+      return { kind: "http", name: envBase[1], operation: `${method} ${pathname || "/"}` };
+    }
+    // Relative URLs are this app's own routes
+    return null;
+  }
+
+  /**
+   * Function declared in the project (not node_modules / .d.ts) that a call invokes
+   */
+  private resolveProjectFunction(call: CallExpression): Node | undefined {
+    const callee = call.getExpression();
+    const nameNode = Node.isPropertyAccessExpression(callee) ? callee.getNameNode() : callee;
+    if (!Node.isIdentifier(nameNode)) {
+      return undefined;
+    }
+
+    let definitions: Node[] = [];
+    try {
+      definitions = nameNode.getDefinitionNodes();
+    } catch {
+      return undefined;
+    }
+
+    for (const definition of definitions) {
+      const filePath = definition.getSourceFile().getFilePath();
+      if (
+        !filePath.startsWith(this.rootDir) ||
+        filePath.includes("/node_modules/") ||
+        filePath.endsWith(".d.ts")
+      ) {
+        continue;
+      }
+      if (Node.isFunctionDeclaration(definition) || Node.isMethodDeclaration(definition)) {
+        return definition;
+      }
+      if (Node.isVariableDeclaration(definition) || Node.isPropertyDeclaration(definition)) {
+        const initializer = definition.getInitializer();
+        if (initializer && (Node.isArrowFunction(initializer) || Node.isFunctionExpression(initializer))) {
+          return initializer;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  private getSourceFile(filePath: string): SourceFile | undefined {
+    let sourceFile = this.project.getSourceFile(filePath);
+    if (!sourceFile) {
+      try {
+        sourceFile = this.project.addSourceFileAtPath(filePath);
+      } catch {
+        return undefined;
+      }
+    }
+    return sourceFile;
+  }
+}
+
+/**
+ * Run the outbound dependency phase on a list of API calls (route handlers under apiRoutesDir).
+ * Mutates each ApiCall with externalDependencies.
+ */
+export function inferExternalDependenciesForApiCalls(
+  apiCalls: ApiCall[],
+  project: Project,
+  rootDir: string,
+  apiRoutesDir: string,
+): void {
+  const analyzer = new ExternalDependencyAnalyzer(project, rootDir, apiRoutesDir);
+  for (const call of apiCalls) {
+    try {
+      const dependencies = analyzer.analyze(call);
+      if (dependencies.length > 0) {
+        call.externalDependencies = dependencies;
+      }
+    } catch {
+      // Best-effort: leave the call without dependency info
+    }
+  }
+}
+
+/**
+ * Union of two dependency lists (same kind + name: operations merged)
+ */
+export function mergeExternalDependencies(
+  existing: ExternalDependency[] | undefined,
+  next: ExternalDependency[],
+): ExternalDependency[] {
+  const merged = new Map<string, ExternalDependency>();
+  for (const dependency of [...(existing ?? []), ...next]) {
+    for (const operation of dependency.operations) {
+      addDependency(merged, dependency.kind, dependency.name, operation);
+    }
+  }
+  return sortDependencies(Array.from(merged.values()));
+}
+
+function addDependency(
+  dependencies: Map<string, ExternalDependency>,
+  kind: ExternalDependency["kind"],
+  name: string,
+  operation: string,
+): void {
+  const key = `${kind}:${name}`;
+  const dependency = dependencies.get(key);
+  if (!dependency) {
+    dependencies.set(key, { kind, name, operations: [operation] });
+  } else if (!dependency.operations.includes(operation)) {
+    dependency.operations.push(operation);
+  }
+}
+
+function sortDependencies(dependencies: ExternalDependency[]): ExternalDependency[] {
+  return dependencies
+    .map((dependency) => ({ ...dependency, operations: [...dependency.operations].sort() }))
+    .sort((a, b) => a.kind.localeCompare(b.kind) || a.name.localeCompare(b.name));
+}
+
+/**
+ * Exported handler in a route file: export async function POST() / export const POST = ...
+ */
+function findRouteHandler(sourceFile: SourceFile, name: string): Node | undefined {
+  const fn = sourceFile.getFunction(name);
+  if (fn?.isExported()) {
+    return fn;
+  }
+  const declaration = sourceFile.getVariableDeclaration(name);
+  if (declaration?.getVariableStatement()?.isExported()) {
+    return declaration;
+  }
+  return undefined;
+}
+
+/**
+ * SDK name for a local name imported in the file (default, namespace or named import)
+ */
+function getImportedSdk(sourceFile: SourceFile, localName: string): string | undefined {
+  for (const declaration of sourceFile.getImportDeclarations()) {
+    const bound =
+      declaration.getDefaultImport()?.getText() === localName ||
+      declaration.getNamespaceImport()?.getText() === localName ||
+      declaration
+        .getNamedImports()
+        .some((named) => (named.getAliasNode() ?? named.getNameNode()).getText() === localName);
+    if (bound) {
+      return getSdkName(declaration.getModuleSpecifierValue());
+    }
+  }
+  return undefined;
+}
+
+function getSdkName(moduleSpecifier: string): string | undefined {
+  if (moduleSpecifier.startsWith(AWS_CLIENT_PREFIX)) {
+    return `aws-${moduleSpecifier.slice(AWS_CLIENT_PREFIX.length)}`;
+  }
+  return SDK_MODULES[moduleSpecifier];
+}
+
+/**
+ * HTTP method from fetch(url, { method: 'POST' }) (GET when absent or not a literal)
+ */
+function getFetchMethod(options: Node | undefined): string {
+  if (!options || !Node.isObjectLiteralExpression(options)) {
+    return "GET";
+  }
+  const property = options.getProperty("method");
+  const value = property && Node.isPropertyAssignment(property) ? property.getInitializer() : undefined;
+  if (value && (Node.isStringLiteral(value) || Node.isNoSubstitutionTemplateLiteral(value))) {
+    return value.getLiteralValue().toUpperCase();
+  }
+  return "GET";
+}
+
+function unwrap(node: Node): Node {
+  let current = node;
+  while (
+    Node.isParenthesizedExpression(current) ||
+    Node.isAsExpression(current) ||
+    Node.isNonNullExpression(current) ||
+    Node.isAwaitExpression(current) ||
+    Node.isSatisfiesExpression(current)
+  ) {
+    current = current.getExpression();
+  }
+  return current;
+}
@@ -0,0 +1,172 @@
+/**
+ * Fastify route discoverer
+ *
+ *   const app = Fastify();
+ *   app.register(userRoutes, { prefix: "/users" });
+ *   async function userRoutes(fastify) {
+ *     fastify.get("/:id", { preHandler: [auth] }, getUser);      -> GET /users/:id
+ *     fastify.route({ method: ["PUT", "PATCH"], url: "/:id", handler: updateUser });
+ *   }
+ */
+
+import { CallExpression, Node } from "ts-morph";
+import { getObjectOption } from "../detector/data-hook-utils";
+import { unwrapExpression } from "../detector/url-resolver";
+import {
+  PackageBindings,
+  ROUTER_METHODS,
+  ServerRouteDiscoverer,
+  ServerRouteMount,
+  ServerRouteRegistration,
+  flattenHandlers,
+  getPathLiteral,
+  isHandlerLike,
+} from "./server-route-discoverer";
+
+/** Route hooks listed as the route's middleware */
+const MIDDLEWARE_HOOKS = ["onRequest", "preParsing", "preValidation", "preHandler"];
+
+/** Max hops when following a registered plugin to its function */
+const MAX_PLUGIN_DEPTH = 5;
+
+export class FastifyRouteDiscoverer extends ServerRouteDiscoverer {
+  readonly id = "fastify";
+  readonly packages = ["fastify"];
+  protected readonly routerTypes = ["FastifyInstance"];
+
+  /**
+   * Fastify(), fastify({ logger: true }) and require("fastify")()
+   */
+  protected getRouterPrefix(expression: Node, bindings: PackageBindings): string | undefined {
+    if (!Node.isCallExpression(expression)) {
+      return undefined;
+    }
+    const callee = unwrapExpression(expression.getExpression());
+    if (Node.isIdentifier(callee)) {
+      const binding = bindings.get(callee.getText());
+      return binding === "default" || binding === "fastify" || binding === "Fastify"
+        ? ""
+        : undefined;
+    }
+    return this.isPackageRequire(callee) ? "" : undefined;
+  }
+
+  /**
+   * fastify.get(path, [options], handler), fastify.get(path, { handler }) and
+   * fastify.route({ method, url, handler })
+   */
+  protected readRoutes(call: CallExpression, name: string): ServerRouteRegistration[] {
+    const args = call.getArguments();
+    if (name === "route") {
+      const options = args[0] && unwrapExpression(args[0]);
+      return options && Node.isObjectLiteralExpression(options) ? readRouteOptions(options) : [];
+    }
+
+    const method = ROUTER_METHODS[name];
+    const path = getPathLiteral(args[0]);
+    if (!method || path === undefined || args.length < 2) {
+      return [];
+    }
+    const last = unwrapExpression(args[args.length - 1]);
+    const options = args.length > 2 ? unwrapExpression(args[1]) : undefined;
+    if (Node.isObjectLiteralExpression(last)) {
+      const handler = getObjectOption(last, "handler");
+      return handler ? [{ methods: [method], path, handlers: [...getHookHandlers(last), handler] }] : [];
+    }
+    if (!isHandlerLike(last)) {
+      return [];
+    }
+    const hooks = options && Node.isObjectLiteralExpression(options) ? getHookHandlers(options) : [];
+    return [{ methods: [method], path, handlers: [...hooks, last] }];
+  }
+
+  /**
+   * fastify.register(plugin, { prefix }): the plugin's instance parameter is a router mounted at prefix
+   */
+  protected readMounts(call: CallExpression, name: string): ServerRouteMount[] {
+    if (name !== "register") {
+      return [];
+    }
+    const [plugin, options] = call.getArguments();
+    const instance = plugin ? getPluginInstance(plugin, 0) : undefined;
+    if (!instance) {
+      return [];
+    }
+    const optionsObject = options && unwrapExpression(options);
+    const prefixNode =
+      optionsObject && Node.isObjectLiteralExpression(optionsObject)
+        ? getObjectOption(optionsObject, "prefix")
+        : null;
+    return [{ prefix: getPathLiteral(prefixNode ?? undefined) ?? "", child: instance }];
+  }
+}
+
+/**
+ * Routes of a fastify.route({ method, url, handler }) options object
+ */
+function readRouteOptions(options: Node): ServerRouteRegistration[] {
+  const path = getPathLiteral(getObjectOption(options, "url") ?? getObjectOption(options, "path") ?? undefined);
+  const handler = getObjectOption(options, "handler");
+  const methodNode = getObjectOption(options, "method");
+  if (path === undefined || !handler || !methodNode) {
+    return [];
+  }
+  const methodValue = unwrapExpression(methodNode);
+  const methods = (
+    Node.isArrayLiteralExpression(methodValue) ? methodValue.getElements() : [methodValue]
+  )
+    .map((element) => getPathLiteral(element)?.toUpperCase())
+    .filter((method): method is string => !!method);
+  return methods.length > 0
+    ? [{ methods, path, handlers: [...getHookHandlers(options), handler] }]
+    : [];
+}
+
+/**
+ * Handlers of the route hooks that run before the handler (preHandler: [auth, validate])
+ */
+function getHookHandlers(options: Node): Node[] {
+  return MIDDLEWARE_HOOKS.flatMap((hook) => {
+    const value = getObjectOption(options, hook);
+    return value ? flattenHandlers([value]) : [];
+  });
+}
+
+/**
+ * The instance parameter of a plugin: async (fastify, opts) => ..., a function declaration or
+ * import, and fastify-plugin wrappers fp(plugin)
+ */
+function getPluginInstance(node: Node, depth: number): Node | undefined {
+  if (depth > MAX_PLUGIN_DEPTH) {
+    return undefined;
+  }
+  const expression = unwrapExpression(node);
+  if (
+    Node.isArrowFunction(expression) ||
+    Node.isFunctionExpression(expression) ||
+    Node.isFunctionDeclaration(expression)
+  ) {
+    return expression.getParameters()[0];
+  }
+  if (Node.isCallExpression(expression)) {
+    const [wrapped] = expression.getArguments();
+    return wrapped ? getPluginInstance(wrapped, depth + 1) : undefined;
+  }
+  if (Node.isVariableDeclaration(expression)) {
+    const initializer = expression.getInitializer();
+    return initializer ? getPluginInstance(initializer, depth + 1) : undefined;
+  }
+  if (Node.isExportAssignment(expression)) {
+    return getPluginInstance(expression.getExpression(), depth + 1);
+  }
+  if (Node.isIdentifier(expression)) {
+    let definition: Node | undefined;
+    try {
+      definition = expression.getDefinitionNodes()[0];
+    } catch {
+      return undefined;
+    }
+    return definition ? getPluginInstance(definition, depth + 1) : undefined;
+  }
+  return undefined;
+}
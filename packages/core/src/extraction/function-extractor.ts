@@ -15,6 +15,10 @@
  *
  * Example (medium - resolved import): api.getUsers() where api is from '@/lib/api'
  *   -> functionCode from the getUsers method in the imported file.
+ *
+ * Example (tRPC): trpc.user.byId.useQuery() -> functionCode of the byId procedure in appRouter.
+ *
+ * Example (server action): createUser(data) -> functionCode of the "use server" createUser function.
  */
 
 import {
@@ -32,11 +36,22 @@ import {
   VariableStatement,
   Identifier,
   PropertyAccessExpression,
+  PropertyDeclaration,
 } from "ts-morph";
 import * as path from "path";
-import * as fs from "fs";
 import { ApiCall, FunctionResolutionConfidence } from "@api-surface/types";
 import { AstContext } from "../ast/context";
+import { addProjectSourceFile, getProjectSourceFile } from "../ast/component-script";
+import {
+  TRPC_URL_PREFIX,
+  resolveTrpcClientFactory,
+  getClientRouter,
+  findAppRouterInProject,
+  findTrpcProcedure,
+} from "../detector/trpc-router";
+import { SERVER_ACTION_METHOD, findServerActionByUrl } from "../detector/server-action";
+import { canonicalizeUrl } from "../output/url-template";
+import { buildApiRouteTrie, RouteTrie } from "./route-matcher";
 
 /** Default max lines to extract per function (safety limit; do not extract entire files). */
 export const DEFAULT_MAX_FUNCTION_LINES = 300;
@@ -47,6 +62,8 @@ export interface FunctionExtractionResult {
   functionFile?: string;
   functionCode?: string | null;
   functionResolutionConfidence?: FunctionResolutionConfidence;
+  /** Dynamic segment names of the matched route handler (apiRoutesDir) */
+  routeParams?: string[];
 }
 
 /**
@@ -55,6 +72,11 @@ export interface FunctionExtractionResult {
  * for the called URL from that directory (Next.js App Router style), not the caller.
  */
 export class FunctionExtractor {
+  /** appRouter found by project search (undefined = not searched yet) */
+  private fallbackTrpcRouter: Node | null | undefined;
+  /** Route files under apiRoutesDir (built on first use) */
+  private apiRouteTrie: RouteTrie<string> | undefined;
+
   constructor(
     private project: Project,
     private rootDir: string,
@@ -68,6 +90,22 @@ export class FunctionExtractor {
    * and extract the handler (GET/POST etc.); otherwise locates the caller in the AST.
    */
   extract(apiCall: ApiCall): FunctionExtractionResult {
+    // tRPC procedure calls: extract the procedure from the app router, not the caller.
+    if (apiCall.url.startsWith(TRPC_URL_PREFIX)) {
+      const procedureResult = this.tryResolveTrpcProcedure(apiCall);
+      if (procedureResult) {
+        return procedureResult;
+      }
+    }
+
+    // Server actions: extract the "use server" function, not the component calling it.
+    if (apiCall.method === SERVER_ACTION_METHOD) {
+      const actionResult = this.tryResolveServerAction(apiCall);
+      if (actionResult) {
+        return actionResult;
+      }
+    }
+
     // When apiRoutesDir is set, prefer the API route handler in src/app/api (the "API function").
     if (this.apiRoutesDir) {
       const routeResult = this.tryResolveApiRouteHandler(apiCall);
@@ -115,27 +153,24 @@ export class FunctionExtractor {
   /**
    * Resolve the API call URL to a route file under apiRoutesDir (e.g. src/app/api)
    * and extract the handler for the request method (GET, POST, etc.).
-   * Next.js App Router: /api/users -> src/app/api/users/route.ts with exported GET, POST, etc.
+   * Next.js App Router: /api/users -> src/app/api/users/route.ts with exported GET, POST, etc.;
+   * /api/users/123 and /api/users/${id} -> src/app/api/users/[id]/route.ts (see RouteTrie).
    */
   private tryResolveApiRouteHandler(
     apiCall: ApiCall,
   ): FunctionExtractionResult | null {
-    const pathname = this.getPathnameFromUrl(apiCall.url);
-    if (!pathname.startsWith("/api/")) {
-      return null;
-    }
-    // Route path: /api/users -> "users", /api/users/[id] -> "users/[id]"
-    const routePath =
-      pathname.slice(4).replace(/^\//, "").replace(/\/$/, "") || "";
-    if (!routePath) {
+    if (!isApiRouteCall(apiCall)) {
       return null;
     }
+    const pathname = canonicalizeUrl(apiCall.url, apiCall.baseUrl).path;
 
-    const routeDir = path.join(this.rootDir, this.apiRoutesDir!, routePath);
-    const routeFile = this.findRouteFile(routeDir);
-    if (!routeFile) {
+    this.apiRouteTrie ??= buildApiRouteTrie(this.rootDir, this.apiRoutesDir!);
+    // Route path: /api/users -> "users", /api/users/{id} -> "users/{id}"
+    const match = this.apiRouteTrie.match(pathname.slice(4));
+    if (!match) {
       return null;
     }
+    const routeFile = match.value;
 
     const sourceFile = this.getSourceFile(routeFile);
     if (!sourceFile) {
@@ -159,32 +194,104 @@ export class FunctionExtractor {
       functionFile: routeFile,
       functionCode: code,
       functionResolutionConfidence: "high",
+      ...(match.params.length > 0 ? { routeParams: match.params } : {}),
     };
   }
 
-  /** Get pathname from URL (strip origin if full URL). */
-  private getPathnameFromUrl(url: string): string {
-    try {
-      if (url.startsWith("http://") || url.startsWith("https://")) {
-        const u = new URL(url);
-        return u.pathname;
+  /**
+   * Resolve a tRPC call (url trpc:user.byId) to its procedure in the app router.
+   * The router comes from the client type (createTRPCReact<AppRouter>(), high confidence)
+   * or, failing that, from an `appRouter` variable in the project (medium confidence).
+   */
+  private tryResolveTrpcProcedure(
+    apiCall: ApiCall,
+  ): FunctionExtractionResult | null {
+    const procedurePath = apiCall.url.slice(TRPC_URL_PREFIX.length);
+    const segments = procedurePath.split(".").filter(Boolean);
+    if (segments.length === 0) {
+      return null;
+    }
+
+    let router: Node | null = null;
+    let confidence: FunctionResolutionConfidence = "high";
+
+    const sourceFile = this.getSourceFile(apiCall.file);
+    const offset = sourceFile
+      ? this.getOffsetFromLineColumn(sourceFile.getFullText(), apiCall.line, apiCall.column)
+      : undefined;
+    const callExpr =
+      sourceFile && offset !== undefined
+        ? this.findCallExpressionAtOffset(sourceFile, offset)
+        : null;
+    if (callExpr) {
+      // trpc.user.byId.useQuery() -> root identifier `trpc`
+      let root: Node = callExpr.getExpression();
+      while (root.getKind() === SyntaxKind.PropertyAccessExpression) {
+        root = (root as PropertyAccessExpression).getExpression();
       }
-    } catch {
-      // ignore
+      const clientFactory = resolveTrpcClientFactory(root);
+      router = clientFactory ? getClientRouter(clientFactory) : null;
     }
-    return url.split("?")[0] || url;
-  }
 
-  /** Find route.ts, route.tsx, or route.js in directory. */
-  private findRouteFile(routeDir: string): string | null {
-    const names = ["route.ts", "route.tsx", "route.js"];
-    for (const name of names) {
-      const filePath = path.join(routeDir, name);
-      if (fs.existsSync(filePath)) {
-        return filePath;
+    if (!router) {
+      if (this.fallbackTrpcRouter === undefined) {
+        this.fallbackTrpcRouter = findAppRouterInProject(this.project);
       }
+      router = this.fallbackTrpcRouter;
+      confidence = "medium";
     }
-    return null;
+    if (!router) {
+      return null;
+    }
+
+    const procedure = findTrpcProcedure(router, segments);
+    if (!procedure) {
+      return null;
+    }
+
+    // Procedure declared as its own variable: prefer the full statement.
+    const codeNode = Node.isVariableDeclaration(procedure)
+      ? (procedure.getVariableStatement() ?? procedure)
+      : procedure;
+    const code = this.getNodeTextWithLimit(codeNode);
+    if (!code) {
+      return null;
+    }
+
+    return {
+      functionName: procedurePath,
+      functionFile: procedure.getSourceFile().getFilePath(),
+      functionCode: code,
+      functionResolutionConfidence: confidence,
+    };
+  }
+
+  /**
+   * Resolve a server action call (url action:src/app/actions#createUser) to the "use server" function.
+   */
+  private tryResolveServerAction(
+    apiCall: ApiCall,
+  ): FunctionExtractionResult | null {
+    const action = findServerActionByUrl(this.project, this.rootDir, apiCall.url);
+    if (!action) {
+      return null;
+    }
+
+    // Action declared as a variable (export const createUser = async () => ...): the full statement.
+    const codeNode = Node.isVariableDeclaration(action.declaration)
+      ? (action.declaration.getVariableStatement() ?? action.declaration)
+      : action.declaration;
+    const code = this.getNodeTextWithLimit(codeNode);
+    if (!code) {
+      return null;
+    }
+
+    return {
+      functionName: action.exportName,
+      functionFile: action.declaration.getSourceFile().getFilePath(),
+      functionCode: code,
+      functionResolutionConfidence: "high",
+    };
   }
 
   /**
@@ -245,10 +352,10 @@ export class FunctionExtractor {
     const absolutePath = path.isAbsolute(filePath)
       ? filePath
       : path.resolve(this.rootDir, filePath);
-    let sourceFile = this.project.getSourceFile(absolutePath);
+    let sourceFile = getProjectSourceFile(this.project, absolutePath);
     if (!sourceFile) {
       try {
-        sourceFile = this.project.addSourceFileAtPath(absolutePath);
+        sourceFile = addProjectSourceFile(this.project, absolutePath);
       } catch {
         return null;
       }
@@ -371,6 +478,18 @@ export class FunctionExtractor {
             }
           }
         }
+        // Class property: getUsers = () => this.http.get(...)
+        if (parent && parent.getKind() === SyntaxKind.PropertyDeclaration) {
+          const property = parent as PropertyDeclaration;
+          const code = this.getNodeTextWithLimit(property);
+          if (code === null) return null;
+          return {
+            functionName: property.getName(),
+            functionFile: context.filePath,
+            functionCode: code,
+            functionResolutionConfidence: "high",
+          };
+        }
         // Standalone arrow/function expression (e.g. IIFE or callback).
         const code = this.getNodeTextWithLimit(node);
         if (code === null) return null;
@@ -559,5 +678,14 @@ export function extractFunctionCodeForApiCalls(
     if (result.functionResolutionConfidence !== undefined) {
       call.functionResolutionConfidence = result.functionResolutionConfidence;
     }
+    if (result.routeParams !== undefined) call.routeParams = result.routeParams;
   }
 }
+
+/**
+ * The call targets an API route (/api or /api/...): its handler is looked up under apiRoutesDir
+ */
+export function isApiRouteCall(apiCall: ApiCall): boolean {
+  const pathname = canonicalizeUrl(apiCall.url, apiCall.baseUrl).path;
+  return pathname === "/api" || pathname.startsWith("/api/");
+}
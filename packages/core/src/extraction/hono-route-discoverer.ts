@@ -0,0 +1,90 @@
+/**
+ * Hono route discoverer
+ *
+ *   const users = new Hono();                      const app = new Hono().basePath("/api");
+ *   users.get("/:id", auth, (c) => ...);           app.route("/users", users);
+ *   users.on(["PUT", "PATCH"], "/:id", update);    -> GET /api/users/:id, PUT /api/users/:id, ...
+ */
+
+import { CallExpression, Node } from "ts-morph";
+import { unwrapExpression } from "../detector/url-resolver";
+import {
+  PackageBindings,
+  ROUTER_METHODS,
+  ServerRouteDiscoverer,
+  ServerRouteMount,
+  ServerRouteRegistration,
+  flattenHandlers,
+  getPathLiteral,
+  isHandlerLike,
+} from "./server-route-discoverer";
+
+export class HonoRouteDiscoverer extends ServerRouteDiscoverer {
+  readonly id = "hono";
+  readonly packages = ["hono", "hono/tiny", "hono/quick"];
+  protected readonly routerTypes = ["Hono"];
+
+  /**
+   * new Hono()
+   */
+  protected getRouterPrefix(expression: Node, bindings: PackageBindings): string | undefined {
+    if (!Node.isNewExpression(expression)) {
+      return undefined;
+    }
+    const callee = unwrapExpression(expression.getExpression());
+    return Node.isIdentifier(callee) && bindings.get(callee.getText()) === "Hono" ? "" : undefined;
+  }
+
+  /**
+   * app.get(path, ...handlers) and app.on(method | methods, path | paths, ...handlers)
+   */
+  protected readRoutes(call: CallExpression, name: string): ServerRouteRegistration[] {
+    const args = call.getArguments();
+    if (name === "on") {
+      const methods = getLiterals(args[0]).map((method) => method.toUpperCase());
+      const paths = getLiterals(args[1]);
+      const handlers = flattenHandlers(args.slice(2));
+      if (methods.length === 0 || handlers.length === 0 || !handlers.every(isHandlerLike)) {
+        return [];
+      }
+      return paths.map((path) => ({ methods, path, handlers }));
+    }
+
+    const method = ROUTER_METHODS[name];
+    const path = getPathLiteral(args[0]);
+    const handlers = flattenHandlers(args.slice(1));
+    if (!method || path === undefined || handlers.length === 0 || !handlers.every(isHandlerLike)) {
+      return [];
+    }
+    return [{ methods: [method], path, handlers }];
+  }
+
+  /**
+   * app.route(path, subApp)
+   */
+  protected readMounts(call: CallExpression, name: string): ServerRouteMount[] {
+    const [prefixNode, child] = call.getArguments();
+    const prefix = getPathLiteral(prefixNode);
+    return name === "route" && child && prefix !== undefined ? [{ prefix, child }] : [];
+  }
+
+  protected getChainPrefix(call: CallExpression, name: string): string | undefined {
+    return name === "basePath" ? getPathLiteral(call.getArguments()[0]) : undefined;
+  }
+}
+
+/**
+ * String literals of a value or an array of values ("GET", ["PUT", "PATCH"])
+ */
+function getLiterals(node: Node | undefined): string[] {
+  if (!node) {
+    return [];
+  }
+  const expression = unwrapExpression(node);
+  const elements = Node.isArrayLiteralExpression(expression)
+    ? expression.getElements()
+    : [expression];
+  return elements
+    .map((element) => getPathLiteral(element))
+    .filter((value): value is string => value !== undefined);
+}
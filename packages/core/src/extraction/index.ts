@@ -1,10 +1,11 @@
 /**
- * Extraction module - function code extraction phase (runs after detection).
+ * Extraction module - function code extraction, response usage and outbound dependency phases (run after detection).
  */
 
 export {
   FunctionExtractor,
   extractFunctionCodeForApiCalls,
+  isApiRouteCall,
   DEFAULT_MAX_FUNCTION_LINES,
   type FunctionExtractionResult,
 } from "./function-extractor";
@@ -12,6 +13,44 @@ export {
   discoverAllRouteHandlers,
   discoveredHandlersToApiCalls,
   findAllRouteFiles,
+  findAllRouteFilesSync,
   routeFileToApiPath,
+  getNodeTextWithLimit,
+  loadSourceFilesContaining,
   type DiscoveredRouteHandler,
+  type RouteDiscoverer,
 } from "./route-discoverer";
+export {
+  RouteTrie,
+  buildApiRouteTrie,
+  buildRouteTableTrie,
+  linkCallsToRouteHandlers,
+  findUnreachedRoutes,
+  type RouteMatch,
+} from "./route-matcher";
+export {
+  ServerRouteDiscoverer,
+  ROUTER_METHODS,
+  getPathLiteral,
+  flattenHandlers,
+  isHandlerLike,
+  joinPaths,
+  type ServerRouteRegistration,
+  type ServerRouteMount,
+  type PackageBindings,
+} from "./server-route-discoverer";
+export { ExpressRouteDiscoverer } from "./express-route-discoverer";
+export { FastifyRouteDiscoverer } from "./fastify-route-discoverer";
+export { HonoRouteDiscoverer } from "./hono-route-discoverer";
+export { KoaRouteDiscoverer } from "./koa-route-discoverer";
+export {
+  ResponseUsageAnalyzer,
+  inferResponseUsageForApiCalls,
+  buildConsumedResponseSchema,
+  type ConsumedResponseSchema,
+} from "./response-usage";
+export {
+  ExternalDependencyAnalyzer,
+  inferExternalDependenciesForApiCalls,
+  mergeExternalDependencies,
+} from "./external-dependencies";
@@ -0,0 +1,88 @@
+/**
+ * Koa route discoverer (@koa/router, koa-router)
+ *
+ *   const api = new Router({ prefix: "/api" });    const users = new Router();
+ *   api.use("/users", users.routes());             users.get("user", "/:id", auth, getUser);
+ *   app.use(api.routes());                         -> GET /api/users/:id
+ */
+
+import { CallExpression, Node } from "ts-morph";
+import { getObjectOption } from "../detector/data-hook-utils";
+import { unwrapExpression } from "../detector/url-resolver";
+import {
+  PackageBindings,
+  ROUTER_METHODS,
+  ServerRouteDiscoverer,
+  ServerRouteMount,
+  ServerRouteRegistration,
+  flattenHandlers,
+  getPathLiteral,
+  isHandlerLike,
+} from "./server-route-discoverer";
+
+export class KoaRouteDiscoverer extends ServerRouteDiscoverer {
+  readonly id = "koa";
+  readonly packages = ["@koa/router", "koa-router"];
+  protected readonly routerTypes = ["Router"];
+
+  /**
+   * new Router() and new Router({ prefix })
+   */
+  protected getRouterPrefix(expression: Node, bindings: PackageBindings): string | undefined {
+    if (!Node.isNewExpression(expression)) {
+      return undefined;
+    }
+    const callee = unwrapExpression(expression.getExpression());
+    const binding = Node.isIdentifier(callee) ? bindings.get(callee.getText()) : undefined;
+    if (binding !== "default" && binding !== "Router") {
+      return undefined;
+    }
+    const options = expression.getArguments()[0];
+    const optionsObject = options && unwrapExpression(options);
+    const prefixNode =
+      optionsObject && Node.isObjectLiteralExpression(optionsObject)
+        ? getObjectOption(optionsObject, "prefix")
+        : null;
+    return getPathLiteral(prefixNode ?? undefined) ?? "";
+  }
+
+  /**
+   * router.get([name,] path, ...middleware); router.del is an alias of router.delete
+   */
+  protected readRoutes(call: CallExpression, name: string): ServerRouteRegistration[] {
+    const method = name === "del" ? "DELETE" : ROUTER_METHODS[name];
+    if (!method) {
+      return [];
+    }
+    const args = call.getArguments();
+    const named = getPathLiteral(args[1]) !== undefined;
+    const path = getPathLiteral(named ? args[1] : args[0]);
+    const handlers = flattenHandlers(args.slice(named ? 2 : 1));
+    if (path === undefined || handlers.length === 0 || !handlers.every(isHandlerLike)) {
+      return [];
+    }
+    return [{ methods: [method], path, handlers }];
+  }
+
+  /**
+   * router.use([path,] nested.routes())
+   */
+  protected readMounts(call: CallExpression, name: string): ServerRouteMount[] {
+    if (name !== "use") {
+      return [];
+    }
+    const args = call.getArguments();
+    const prefix = getPathLiteral(args[0]);
+    return flattenHandlers(prefix !== undefined ? args.slice(1) : args).map((child) => ({
+      prefix: prefix ?? "",
+      child,
+    }));
+  }
+
+  /**
+   * router.prefix(path)
+   */
+  protected readRouterPrefix(call: CallExpression, name: string): string | undefined {
+    return name === "prefix" ? getPathLiteral(call.getArguments()[0]) : undefined;
+  }
+}
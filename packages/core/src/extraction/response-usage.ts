@@ -0,0 +1,729 @@
+/**
+ * Response usage inference - static analysis only.
+ * Follows the response of an API call through awaits, .then chains, destructuring,
+ * helper functions, React state and component props, and records which response
+ * fields the frontend reads. Runs as a separate phase after detection.
+ *
+ * Output (added to ApiCall):
+ * - consumedResponseFields?: string[]   e.g. ["items[].name", "total"]
+ *
+ * Example:
+ *   const res = await fetch('/api/users');
+ *   const data = await res.json();
+ *   data.items.map((user) => user.name); setTotal(data.total);
+ *   -> ["items[].name", "total"]
+ *
+ * Example (axios / hooks): const { data } = await api.get('/x') / const { data } = useSWR('/x')
+ *   -> paths are relative to `data` (the parsed body).
+ */
+
+import {
+  Project,
+  SourceFile,
+  Node,
+  CallExpression,
+  SyntaxKind,
+  Identifier,
+  BindingName,
+  ArrowFunction,
+  FunctionDeclaration,
+  FunctionExpression,
+  JsxOpeningElement,
+  JsxSelfClosingElement,
+  MethodDeclaration,
+} from "ts-morph";
+import * as path from "path";
+import { ApiCall } from "@api-surface/types";
+import { getProjectSourceFile } from "../ast/component-script";
+
+/**
+ * What a tracked expression holds:
+ * - response: a fetch Response (body via .json())
+ * - envelope: an object whose `dataProperty` is the body (axios response, hook result, component props)
+ * - data: the parsed body, or a value inside it at `path`
+ */
+type TrackedValue =
+  | { kind: "response" }
+  | { kind: "envelope"; dataProperty: string }
+  | { kind: "data"; path: string[] };
+
+/** Functions whose parameters and results are followed */
+type FunctionImplementation = ArrowFunction | FunctionExpression | FunctionDeclaration | MethodDeclaration;
+
+interface TrackState {
+  fields: Set<string>;
+  visited: Set<Node>;
+}
+
+/** Array element marker in a field path: items[].name */
+const ELEMENT = "[]";
+
+/** Max nodes visited per API call (guards against huge reference graphs) */
+const MAX_VISITED_NODES = 2000;
+
+/** Array methods whose callback receives elements: data.items.map((item) => item.name) */
+const ELEMENT_CALLBACK_METHODS = new Set([
+  "map",
+  "forEach",
+  "filter",
+  "find",
+  "findLast",
+  "findIndex",
+  "some",
+  "every",
+  "flatMap",
+  "sort",
+  "toSorted",
+]);
+
+/** Array methods returning (a subset of) the same array */
+const SAME_ARRAY_METHODS = new Set(["filter", "sort", "toSorted", "slice", "reverse", "toReversed", "concat"]);
+
+/** Array methods returning a single element */
+const ELEMENT_RESULT_METHODS = new Set(["find", "findLast", "at", "pop", "shift"]);
+
+/** Sources whose call resolves to a Response (body via .json()) */
+const RESPONSE_SOURCES = new Set<ApiCall["source"]>(["fetch", "ky", "got"]);
+
+/** Sources whose call resolves to an envelope object (axios-style `data`, superagent `body`) */
+const ENVELOPE_PROPERTY: Partial<Record<ApiCall["source"], string>> = {
+  axios: "data",
+  redaxios: "data",
+  superagent: "body",
+};
+
+/** Sources whose hooks return a query result object with `data` */
+const HOOK_SOURCES = new Set<ApiCall["source"]>(["swr", "tanstack-query", "rtk-query", "graphql", "trpc"]);
+
+/**
+ * Infers the consumed response shape of API calls.
+ */
+export class ResponseUsageAnalyzer {
+  constructor(
+    private project: Project,
+    private rootDir: string,
+  ) {}
+
+  /**
+   * Response field paths read by the code consuming a single API call (sorted, leaf paths only).
+   */
+  analyze(apiCall: ApiCall): string[] {
+    const callExpr = this.findApiCallExpression(apiCall);
+    if (!callExpr) {
+      return [];
+    }
+
+    const state: TrackState = { fields: new Set(), visited: new Set() };
+    this.trackExpression(callExpr, this.getInitialValue(apiCall, callExpr), state);
+    return toLeafPaths(state.fields);
+  }
+
+  /**
+   * What the API call expression evaluates to, by source and callee name
+   */
+  private getInitialValue(apiCall: ApiCall, callExpr: CallExpression): TrackedValue {
+    if (RESPONSE_SOURCES.has(apiCall.source)) {
+      return { kind: "response" };
+    }
+    const envelopeProperty = ENVELOPE_PROPERTY[apiCall.source];
+    if (envelopeProperty) {
+      return { kind: "envelope", dataProperty: envelopeProperty };
+    }
+
+    if (HOOK_SOURCES.has(apiCall.source)) {
+      const calleeName = getCalleeName(callExpr);
+      // useSWR / useQuery / trpc.x.useQuery / useGetPostsQuery -> { data, error, isLoading }
+      if (/^use[A-Z]/.test(calleeName)) {
+        return { kind: "envelope", dataProperty: "data" };
+      }
+      // Apollo client.query / client.mutate -> { data }; graphql-request request() -> data
+      if (apiCall.source === "graphql" && (calleeName === "query" || calleeName === "mutate")) {
+        return { kind: "envelope", dataProperty: "data" };
+      }
+    }
+
+    // ofetch / $fetch, custom clients, tRPC .query() / .mutate(), queryClient.fetchQuery
+    return { kind: "data", path: [] };
+  }
+
+  /**
+   * Follow an expression holding `value` to the places that read it
+   */
+  private trackExpression(expr: Node, value: TrackedValue, state: TrackState): void {
+    if (state.visited.has(expr) || state.visited.size > MAX_VISITED_NODES) {
+      return;
+    }
+    state.visited.add(expr);
+
+    const parent = expr.getParent();
+    if (!parent) {
+      return;
+    }
+
+    // await x, (x), x as T, x!
+    if (
+      Node.isAwaitExpression(parent) ||
+      Node.isParenthesizedExpression(parent) ||
+      Node.isAsExpression(parent) ||
+      Node.isNonNullExpression(parent) ||
+      Node.isSatisfiesExpression(parent)
+    ) {
+      this.trackExpression(parent, value, state);
+      return;
+    }
+
+    // x.name / x.json() / x.then(...)
+    if (Node.isPropertyAccessExpression(parent) && parent.getExpression() === expr) {
+      this.trackMember(parent, parent.getName(), value, state);
+      return;
+    }
+
+    // x[0] / x["name"]
+    if (Node.isElementAccessExpression(parent) && parent.getExpression() === expr) {
+      const argument = parent.getArgumentExpression();
+      if (argument && (Node.isStringLiteral(argument) || Node.isNoSubstitutionTemplateLiteral(argument))) {
+        this.trackMember(parent, argument.getLiteralValue(), value, state);
+      } else if (value.kind === "data") {
+        this.trackExpression(parent, { kind: "data", path: [...value.path, ELEMENT] }, state);
+      }
+      return;
+    }
+
+    // const x = ... / const { data } = ... / const [first] = ...
+    if (Node.isVariableDeclaration(parent) && parent.getInitializer() === expr) {
+      this.trackBinding(parent.getNameNode(), value, state);
+      return;
+    }
+
+    // x = ... (let declared earlier)
+    if (
+      Node.isBinaryExpression(parent) &&
+      parent.getRight() === expr &&
+      parent.getOperatorToken().getKind() === SyntaxKind.EqualsToken
+    ) {
+      const left = parent.getLeft();
+      if (Node.isIdentifier(left)) {
+        for (const reference of findLocalReferences(left)) {
+          this.trackExpression(reference, value, state);
+        }
+      }
+      return;
+    }
+
+    // data ?? [], data || fallback, ok && data
+    if (Node.isBinaryExpression(parent)) {
+      const operator = parent.getOperatorToken().getKind();
+      if (
+        operator === SyntaxKind.QuestionQuestionToken ||
+        operator === SyntaxKind.BarBarToken ||
+        (operator === SyntaxKind.AmpersandAmpersandToken && parent.getRight() === expr)
+      ) {
+        this.trackExpression(parent, value, state);
+      }
+      return;
+    }
+
+    // cond ? data : []
+    if (Node.isConditionalExpression(parent) && parent.getCondition() !== expr) {
+      this.trackExpression(parent, value, state);
+      return;
+    }
+
+    // return x / (r) => r.json()
+    if (Node.isReturnStatement(parent)) {
+      const fn = parent.getFirstAncestor((ancestor) => isFunctionLike(ancestor));
+      if (fn) this.trackFunctionResult(fn, value, state);
+      return;
+    }
+    if (Node.isArrowFunction(parent) && parent.getBody() === expr) {
+      this.trackFunctionResult(parent, value, state);
+      return;
+    }
+
+    // setUsers(data) / render(data)
+    if (Node.isCallExpression(parent) && parent.getArguments().includes(expr)) {
+      this.trackArgument(parent, parent.getArguments().indexOf(expr), value, state);
+      return;
+    }
+
+    // for (const item of data.items)
+    if (Node.isForOfStatement(parent) && parent.getExpression() === expr && value.kind === "data") {
+      const initializer = parent.getInitializer();
+      if (Node.isVariableDeclarationList(initializer)) {
+        for (const declaration of initializer.getDeclarations()) {
+          this.trackBinding(declaration.getNameNode(), { kind: "data", path: [...value.path, ELEMENT] }, state);
+        }
+      }
+      return;
+    }
+
+    // <UserList users={data.users} />
+    if (Node.isJsxExpression(parent)) {
+      this.trackJsxProp(parent, value, state);
+    }
+  }
+
+  /**
+   * x.name on a tracked value
+   */
+  private trackMember(access: Node, name: string, value: TrackedValue, state: TrackState): void {
+    const call = getCallOfCallee(access);
+
+    // Promise chains: .then(cb) passes the value to cb; .catch / .finally keep it
+    if (call && name === "then") {
+      this.trackThen(call, value, state);
+      return;
+    }
+    if (call && (name === "catch" || name === "finally")) {
+      this.trackExpression(call, value, state);
+      return;
+    }
+
+    if (value.kind === "response") {
+      // res.json() -> body; res.ok / res.status are not body fields
+      if (call && name === "json") {
+        this.trackExpression(call, { kind: "data", path: [] }, state);
+      }
+      return;
+    }
+
+    if (value.kind === "envelope") {
+      if (name === value.dataProperty) {
+        this.trackExpression(access, { kind: "data", path: [] }, state);
+      }
+      return;
+    }
+
+    if (call) {
+      this.trackArrayMethod(call, name, value.path, state);
+      return;
+    }
+
+    if (name === "length") {
+      addField(state, value.path);
+      return;
+    }
+
+    const fieldPath = [...value.path, name];
+    addField(state, fieldPath);
+    this.trackExpression(access, { kind: "data", path: fieldPath }, state);
+  }
+
+  /**
+   * data.items.map((item) => item.name), data.items.find(...).id; other method calls are not fields
+   */
+  private trackArrayMethod(call: CallExpression, name: string, arrayPath: string[], state: TrackState): void {
+    const elementPath = [...arrayPath, ELEMENT];
+    const element: TrackedValue = { kind: "data", path: elementPath };
+
+    if (ELEMENT_CALLBACK_METHODS.has(name)) {
+      const callback = call.getArguments()[0];
+      if (callback && isFunctionLike(callback)) {
+        const parameters = callback.getParameters();
+        if (parameters[0]) this.trackBinding(parameters[0].getNameNode(), element, state);
+        // sort((a, b) => ...) compares two elements
+        if (name === "sort" || name === "toSorted") {
+          if (parameters[1]) this.trackBinding(parameters[1].getNameNode(), element, state);
+        }
+      }
+    } else if (name === "reduce") {
+      const callback = call.getArguments()[0];
+      if (callback && isFunctionLike(callback)) {
+        const parameters = callback.getParameters();
+        if (parameters[1]) this.trackBinding(parameters[1].getNameNode(), element, state);
+      }
+    }
+
+    if (SAME_ARRAY_METHODS.has(name)) {
+      this.trackExpression(call, { kind: "data", path: arrayPath }, state);
+    } else if (ELEMENT_RESULT_METHODS.has(name)) {
+      this.trackExpression(call, element, state);
+    } else if (!ELEMENT_CALLBACK_METHODS.has(name) && name !== "reduce" && arrayPath.length > 0) {
+      // user.name.toUpperCase() - the field itself is used
+      addField(state, arrayPath);
+    }
+  }
+
+  /**
+   * x.then((value) => ...): bind the callback parameter; its return value flows out of the .then call
+   */
+  private trackThen(call: CallExpression, value: TrackedValue, state: TrackState): void {
+    const callback = call.getArguments()[0];
+    if (callback && isFunctionLike(callback)) {
+      const parameter = callback.getParameters()[0];
+      if (parameter) {
+        this.trackBinding(parameter.getNameNode(), value, state);
+      }
+    }
+  }
+
+  /**
+   * Bind a tracked value to a declared name: identifier references, object / array destructuring
+   */
+  private trackBinding(nameNode: BindingName, value: TrackedValue, state: TrackState): void {
+    if (Node.isIdentifier(nameNode)) {
+      for (const reference of findLocalReferences(nameNode)) {
+        this.trackExpression(reference, value, state);
+      }
+      return;
+    }
+
+    if (Node.isObjectBindingPattern(nameNode)) {
+      for (const element of nameNode.getElements()) {
+        // const { data, ...rest } = result -> rest holds the same value
+        if (element.getDotDotDotToken()) {
+          this.trackBinding(element.getNameNode(), value, state);
+          continue;
+        }
+        const key = (element.getPropertyNameNode()?.getText() ?? element.getName()).replace(/^['"`]|['"`]$/g, "");
+        if (value.kind === "envelope") {
+          if (key === value.dataProperty) {
+            this.trackBinding(element.getNameNode(), { kind: "data", path: [] }, state);
+          }
+        } else if (value.kind === "data") {
+          const fieldPath = [...value.path, key];
+          addField(state, fieldPath);
+          this.trackBinding(element.getNameNode(), { kind: "data", path: fieldPath }, state);
+        }
+      }
+      return;
+    }
+
+    if (Node.isArrayBindingPattern(nameNode)) {
+      nameNode.getElements().forEach((element, index) => {
+        if (!Node.isBindingElement(element)) {
+          return;
+        }
+        if (value.kind === "data") {
+          this.trackBinding(element.getNameNode(), { kind: "data", path: [...value.path, ELEMENT] }, state);
+        } else if (value.kind === "envelope" && index === 1) {
+          // const [createPost, { data }] = useMutation(CREATE_POST)
+          this.trackBinding(element.getNameNode(), value, state);
+        }
+      });
+    }
+  }
+
+  /**
+   * A function returns the tracked value: follow the .then call it is the callback of,
+   * or the calls of the named function (also across files)
+   */
+  private trackFunctionResult(fn: Node, value: TrackedValue, state: TrackState): void {
+    const parent = fn.getParent();
+    if (Node.isCallExpression(parent) && parent.getArguments()[0] === fn) {
+      const callee = parent.getExpression();
+      if (Node.isPropertyAccessExpression(callee) && callee.getName() === "then") {
+        this.trackExpression(parent, value, state);
+        return;
+      }
+    }
+
+    const nameNode = getFunctionNameNode(fn);
+    if (!nameNode) {
+      return;
+    }
+    let references: Node[];
+    try {
+      references = nameNode.findReferencesAsNodes();
+    } catch {
+      // Reference lookup failed
+      return;
+    }
+    for (const reference of references) {
+      // getUsers() / api.getUsers()
+      const parent = reference.getParent();
+      const callee =
+        Node.isPropertyAccessExpression(parent) && parent.getNameNode() === reference ? parent : reference;
+      const call = getCallOfCallee(callee);
+      if (call) {
+        this.trackExpression(call, value, state);
+      }
+    }
+  }
+
+  /**
+   * The tracked value is passed as an argument: React state setters and local / imported functions
+   */
+  private trackArgument(call: CallExpression, index: number, value: TrackedValue, state: TrackState): void {
+    const callee = call.getExpression();
+    const nameNode = Node.isPropertyAccessExpression(callee) ? callee.getNameNode() : callee;
+    if (!Node.isIdentifier(nameNode)) {
+      return;
+    }
+
+    for (const definition of getDefinitionNodes(nameNode)) {
+      // const [users, setUsers] = useState(...); setUsers(data) -> users
+      if (Node.isBindingElement(definition)) {
+        const pattern = definition.getParent();
+        const declaration = pattern?.getParent();
+        if (
+          index === 0 &&
+          Node.isArrayBindingPattern(pattern) &&
+          pattern.getElements()[1] === definition &&
+          Node.isVariableDeclaration(declaration) &&
+          /\buseState$/.test(getCalleeText(declaration.getInitializer()))
+        ) {
+          const stateElement = pattern.getElements()[0];
+          if (Node.isBindingElement(stateElement)) {
+            this.trackBinding(stateElement.getNameNode(), value, state);
+          }
+        }
+        continue;
+      }
+
+      const fn = getFunctionImplementation(definition);
+      const parameter = fn?.getParameters()[index];
+      if (parameter) {
+        this.trackBinding(parameter.getNameNode(), value, state);
+      }
+    }
+  }
+
+  /**
+   * <UserList users={data.users} /> -> props.users / ({ users }) in the component
+   */
+  private trackJsxProp(jsxExpression: Node, value: TrackedValue, state: TrackState): void {
+    const attribute = jsxExpression.getParent();
+    if (!Node.isJsxAttribute(attribute)) {
+      return;
+    }
+    const element = attribute.getFirstAncestor(
+      (ancestor): ancestor is JsxOpeningElement | JsxSelfClosingElement =>
+        Node.isJsxOpeningElement(ancestor) || Node.isJsxSelfClosingElement(ancestor),
+    );
+    const tagName = element?.getTagNameNode();
+    if (!tagName || !Node.isIdentifier(tagName)) {
+      return;
+    }
+
+    this.trackPropReads(tagName, attribute.getNameNode().getText(), value, state);
+  }
+
+  /**
+   * Reads of a component prop (props.users.map(...) / ({ users }) => users.map(...)) with the value's path
+   */
+  private trackPropReads(tagName: Identifier, propName: string, value: TrackedValue, state: TrackState): void {
+    for (const definition of getDefinitionNodes(tagName)) {
+      const fn = getFunctionImplementation(definition);
+      const props = fn?.getParameters()[0];
+      if (!props) continue;
+
+      const nameNode = props.getNameNode();
+      if (Node.isObjectBindingPattern(nameNode)) {
+        for (const element of nameNode.getElements()) {
+          const key = element.getPropertyNameNode()?.getText() ?? element.getName();
+          if (key === propName) {
+            this.trackBinding(element.getNameNode(), value, state);
+          }
+        }
+      } else if (Node.isIdentifier(nameNode)) {
+        for (const reference of findLocalReferences(nameNode)) {
+          const parent = reference.getParent();
+          if (Node.isPropertyAccessExpression(parent) && parent.getName() === propName) {
+            this.trackExpression(parent, value, state);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Locate the detected call expression (innermost call starting at the recorded position)
+   */
+  private findApiCallExpression(apiCall: ApiCall): CallExpression | null {
+    const sourceFile = this.getSourceFile(apiCall.file);
+    if (!sourceFile) {
+      return null;
+    }
+
+    let offset: number;
+    try {
+      offset = sourceFile.compilerNode.getPositionOfLineAndCharacter(apiCall.line - 1, apiCall.column - 1);
+    } catch {
+      return null;
+    }
+
+    let match: CallExpression | null = null;
+    for (const call of sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+      // fetch(url).then(...) starts at the same position as fetch(url); keep the inner call
+      if (call.getStart() === offset) {
+        match = call;
+      }
+    }
+    return match;
+  }
+
+  private getSourceFile(filePath: string): SourceFile | null {
+    const absolutePath = path.isAbsolute(filePath) ? filePath : path.resolve(this.rootDir, filePath);
+    return getProjectSourceFile(this.project, absolutePath) ?? null;
+  }
+}
+
+/**
+ * Run response usage inference on a list of API calls.
+ * Mutates each ApiCall with consumedResponseFields when any field is read.
+ */
+export function inferResponseUsageForApiCalls(apiCalls: ApiCall[], project: Project, rootDir: string): void {
+  const analyzer = new ResponseUsageAnalyzer(project, rootDir);
+  for (const call of apiCalls) {
+    try {
+      const fields = analyzer.analyze(call);
+      if (fields.length > 0) {
+        call.consumedResponseFields = fields;
+      }
+    } catch {
+      // Best-effort: leave the call without usage info
+    }
+  }
+}
+
+/**
+ * Format a field path: ["items", "[]", "name"] -> "items[].name"
+ */
+function formatPath(segments: string[]): string {
+  return segments.reduce(
+    (result, segment) => (segment === ELEMENT ? `${result}${ELEMENT}` : result ? `${result}.${segment}` : segment),
+    "",
+  );
+}
+
+function addField(state: TrackState, segments: string[]): void {
+  const formatted = formatPath(segments);
+  if (formatted && formatted !== ELEMENT) {
+    state.fields.add(formatted);
+  }
+}
+
+/**
+ * Drop paths that are a prefix of a deeper path (items when items[].name is read)
+ */
+function toLeafPaths(fields: Set<string>): string[] {
+  const all = Array.from(fields);
+  return all
+    .filter(
+      (field) =>
+        !all.some((other) => other !== field && (other.startsWith(`${field}.`) || other.startsWith(`${field}[]`))),
+    )
+    .sort();
+}
+
+/**
+ * References to a local name inside its declaring function (or file for module-level names)
+ */
+function findLocalReferences(identifier: Identifier): Identifier[] {
+  const symbol = identifier.getSymbol();
+  if (!symbol) {
+    return [];
+  }
+  const declaration = symbol.getDeclarations()[0] ?? identifier;
+  const scope =
+    declaration.getFirstAncestor((ancestor) => isFunctionLike(ancestor)) ?? declaration.getSourceFile();
+  const name = identifier.getText();
+  return scope
+    .getDescendantsOfKind(SyntaxKind.Identifier)
+    .filter(
+      (candidate) =>
+        candidate !== identifier &&
+        candidate.getText() === name &&
+        candidate.getSymbol()?.compilerSymbol === symbol.compilerSymbol,
+    );
+}
+
+function getDefinitionNodes(identifier: Identifier): Node[] {
+  try {
+    return identifier.getDefinitionNodes();
+  } catch {
+    // Definition lookup failed (unresolvable import)
+    return [];
+  }
+}
+
+/**
+ * Function with a body for a definition: function f() {}, const f = () => {}, method
+ */
+function getFunctionImplementation(definition: Node): FunctionImplementation | null {
+  if (
+    (Node.isFunctionDeclaration(definition) || Node.isMethodDeclaration(definition)) &&
+    definition.getBody()
+  ) {
+    return definition;
+  }
+  if (Node.isVariableDeclaration(definition)) {
+    const initializer = definition.getInitializer();
+    if (initializer && (Node.isArrowFunction(initializer) || Node.isFunctionExpression(initializer))) {
+      return initializer;
+    }
+  }
+  return null;
+}
+
+/**
+ * Name node of a function for reference lookup: function f, const f = () => ..., method f()
+ */
+function getFunctionNameNode(fn: Node): Identifier | undefined {
+  if (Node.isFunctionDeclaration(fn) || Node.isMethodDeclaration(fn)) {
+    const nameNode = fn.getNameNode();
+    return Node.isIdentifier(nameNode) ? nameNode : undefined;
+  }
+  const parent = fn.getParent();
+  if (Node.isVariableDeclaration(parent)) {
+    const nameNode = parent.getNameNode();
+    return Node.isIdentifier(nameNode) ? nameNode : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * The call whose callee is `node` (node(...)), if any
+ */
+function getCallOfCallee(node: Node): CallExpression | undefined {
+  const parent = node.getParent();
+  return Node.isCallExpression(parent) && parent.getExpression() === node ? parent : undefined;
+}
+
+function getCalleeName(call: CallExpression): string {
+  const callee = call.getExpression();
+  return Node.isPropertyAccessExpression(callee) ? callee.getName() : callee.getText();
+}
+
+function getCalleeText(node: Node | undefined): string {
+  return node && Node.isCallExpression(node) ? node.getExpression().getText() : "";
+}
+
+function isFunctionLike(node: Node): node is FunctionImplementation {
+  return (
+    Node.isArrowFunction(node) ||
+    Node.isFunctionExpression(node) ||
+    Node.isFunctionDeclaration(node) ||
+    Node.isMethodDeclaration(node)
+  );
+}
+
+/** JSON-schema-like view of consumed fields, comparable with an action's responseSchema */
+export interface ConsumedResponseSchema {
+  type?: "object" | "array";
+  properties?: Record<string, ConsumedResponseSchema>;
+  items?: ConsumedResponseSchema;
+}
+
+/**
+ * Build the consumed response shape from field paths:
+ * ["items[].name", "total"] -> { type: "object", properties: { items: { type: "array", items: { ... } }, total: {} } }
+ */
+export function buildConsumedResponseSchema(fields: string[]): ConsumedResponseSchema {
+  const root: ConsumedResponseSchema = {};
+  for (const field of fields) {
+    let node = root;
+    for (const token of field.match(/\[\]|[^.[\]]+/g) ?? []) {
+      if (token === ELEMENT) {
+        node.type = "array";
+        node = node.items ??= {};
+      } else {
+        node.type = "object";
+        node.properties ??= {};
+        node = node.properties[token] ??= {};
+      }
+    }
+  }
+  return root;
+}
@@ -14,20 +14,34 @@ import {
   SyntaxKind,
   Identifier,
 } from "ts-morph";
-import type { ApiCall } from "@api-surface/types";
+import type { ApiCall, BackendRoute, ScanConfig } from "@api-surface/types";
 import { DEFAULT_MAX_FUNCTION_LINES } from "./function-extractor";
+import { addProjectSourceFile, getProjectSourceFile } from "../ast/component-script";
+import { scanFiles } from "../scanner/file-scanner";
 
 const HTTP_METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE"];
 const ROUTE_FILENAMES = ["route.ts", "route.tsx", "route.js"];
 
-export interface DiscoveredRouteHandler {
-  method: string;
-  url: string;
-  functionFile: string;
-  functionName: string;
+export interface DiscoveredRouteHandler extends BackendRoute {
   functionCode: string | null;
 }
 
+/**
+ * Backend route discoverer contributed by a plugin (framework adapters such as @api-surface/nextjs).
+ * Runs once per scan after extraction; its handlers are added to the scan result like the
+ * route files found under apiRoutesDir, and listed in ScanResult.routes.
+ */
+export interface RouteDiscoverer {
+  /** Stable id, recorded as BackendRoute.discoverer when the discoverer does not set one */
+  readonly id: string;
+
+  discover(
+    project: Project,
+    config: ScanConfig,
+    maxFunctionLines: number
+  ): Promise<DiscoveredRouteHandler[]>;
+}
+
 /**
  * Find all route files under apiRoutesDir (any nesting level).
  * e.g. src/app/api -> .../api/commercial-buildings/risk-areas/route.ts
@@ -52,6 +66,51 @@ export async function findAllRouteFiles(
   return [...new Set(files)].sort();
 }
 
+/**
+ * Synchronous findAllRouteFiles (for the route matcher, built during extraction)
+ */
+export function findAllRouteFilesSync(rootDir: string, apiRoutesDir: string): string[] {
+  const apiDirAbs = path.resolve(rootDir, apiRoutesDir);
+  if (!fs.existsSync(apiDirAbs) || !fs.statSync(apiDirAbs).isDirectory()) {
+    return [];
+  }
+  const files = ROUTE_FILENAMES.flatMap((name) =>
+    fg.sync(`**/${name}`, { cwd: apiDirAbs, absolute: true, onlyFiles: true }),
+  );
+  return [...new Set(files)].sort();
+}
+
+/**
+ * Scanned files (config include / exclude) whose text contains one of the markers, loaded into the
+ * project. Route discoverers use this rather than project.getSourceFiles(): files replayed from the
+ * scan cache are not parsed.
+ */
+export async function loadSourceFilesContaining(
+  project: Project,
+  config: ScanConfig,
+  markers: string[],
+): Promise<SourceFile[]> {
+  const { files } = await scanFiles(config);
+  const sourceFiles: SourceFile[] = [];
+  for (const filePath of files) {
+    let text: string;
+    try {
+      text = await fs.promises.readFile(filePath, "utf-8");
+    } catch {
+      continue;
+    }
+    if (!markers.some((marker) => text.includes(marker))) continue;
+    try {
+      sourceFiles.push(
+        getProjectSourceFile(project, filePath) ?? addProjectSourceFile(project, filePath),
+      );
+    } catch {
+      // Unparseable file: not a route source
+    }
+  }
+  return sourceFiles;
+}
+
 /**
  * Given a route file path under apiRoutesDir, compute the API path (no leading /api/).
  * e.g. /repo/src/app/api/commercial-buildings/risk-areas/route.ts
@@ -70,7 +129,10 @@ export function routeFileToApiPath(
   return normalized === "." ? "" : normalized;
 }
 
-function getNodeTextWithLimit(node: Node, maxLines: number): string | null {
+/**
+ * Source text of a handler, truncated to maxLines (null when nothing is left)
+ */
+export function getNodeTextWithLimit(node: Node, maxLines: number): string | null {
   const fullText = node.getText();
   const lines = fullText.split(/\r?\n/);
   if (lines.length > maxLines) {
@@ -199,7 +261,7 @@ export function discoveredHandlersToApiCalls(
   return discovered.map((h) => ({
     method: h.method,
     url: h.url,
-    line: 1,
+    line: h.line ?? 1,
     column: 1,
     file: h.functionFile,
     source: "custom" as const,
@@ -0,0 +1,274 @@
+/**
+ * Route matcher - a trie of file-system routes (Next.js segment syntax) that resolves call URLs
+ * to route handlers:
+ *
+ *   users/[id]/route.ts        <- /api/users/123, /api/users/${user.id}
+ *   users/me/route.ts          <- /api/users/me (static segments win over [id])
+ *   files/[...path]/route.ts   <- /api/files/a/b/c
+ *   docs/[[...slug]]/route.ts  <- /api/docs, /api/docs/intro
+ *
+ * Call URLs are matched in canonical form (see canonicalizeUrl): interpolations and literal ids are
+ * `{name}` segments, which only dynamic and catch-all route segments accept.
+ */
+
+import * as path from "path";
+import type { ApiCall, BackendRoute } from "@api-surface/types";
+import { canonicalizeUrl } from "../output/url-template";
+import { DiscoveredRouteHandler, findAllRouteFilesSync } from "./route-discoverer";
+
+export interface RouteMatch<T> {
+  value: T;
+  /** Names of the dynamic segments the URL went through, in path order */
+  params: string[];
+}
+
+interface TrieNode<T> {
+  value?: T;
+  staticChildren: Map<string, TrieNode<T>>;
+  dynamic?: { name: string; node: TrieNode<T> };
+  catchAll?: { name: string; value: T };
+  optionalCatchAll?: { name: string; value: T };
+}
+
+/**
+ * Route trie keyed by path segments. Precedence at each level: static segment, dynamic [id],
+ * catch-all [...slug], optional catch-all [[...slug]]; a failed deeper match backtracks.
+ */
+export class RouteTrie<T> {
+  private root: TrieNode<T> = createNode();
+
+  /**
+   * Add a route ("users/[id]", "/docs/[[...slug]]"). Route groups (group) and slots @slot
+   * are not part of the URL and are skipped.
+   */
+  insert(routePath: string, value: T): void {
+    let node = this.root;
+    for (const segment of splitSegments(routePath)) {
+      if (/^\(.*\)$/.test(segment) || segment.startsWith("@")) {
+        continue;
+      }
+      let match = /^\[\[\.\.\.([^\]]+)\]\]$/.exec(segment);
+      if (match) {
+        node.optionalCatchAll = { name: match[1], value };
+        return;
+      }
+      match = /^\[\.\.\.([^\]]+)\]$/.exec(segment);
+      if (match) {
+        node.catchAll = { name: match[1], value };
+        return;
+      }
+      match = /^\[([^\]]+)\]$/.exec(segment);
+      if (match) {
+        node.dynamic ??= { name: match[1], node: createNode() };
+        node = node.dynamic.node;
+        continue;
+      }
+      let child = node.staticChildren.get(segment);
+      if (!child) {
+        child = createNode();
+        node.staticChildren.set(segment, child);
+      }
+      node = child;
+    }
+    node.value = value;
+  }
+
+  /**
+   * Match a canonical path ("users/{userId}", "/files/a/b"); null when no route accepts it
+   */
+  match(pathname: string): RouteMatch<T> | null {
+    return matchNode(this.root, splitSegments(pathname), 0, []);
+  }
+}
+
+/**
+ * Trie of the route files under apiRoutesDir (paths relative to it, i.e. without /api)
+ */
+export function buildApiRouteTrie(rootDir: string, apiRoutesDir: string): RouteTrie<string> {
+  const apiDirAbs = path.resolve(rootDir, apiRoutesDir);
+  const trie = new RouteTrie<string>();
+  for (const routeFile of findAllRouteFilesSync(rootDir, apiRoutesDir)) {
+    const routePath = path.relative(apiDirAbs, path.dirname(routeFile));
+    // Private folders (_lib) are not routable
+    if (splitSegments(routePath).some((segment) => segment.startsWith("_"))) {
+      continue;
+    }
+    trie.insert(routePath, routeFile);
+  }
+  return trie;
+}
+
+/**
+ * Trie of route table handlers by URL. Server framework segments are read as their Next.js
+ * equivalent: `:id` -> [id], `:path+` / `*` -> [...path], `:path*` -> [[...path]].
+ */
+export function buildRouteTableTrie(
+  routes: DiscoveredRouteHandler[],
+): RouteTrie<DiscoveredRouteHandler[]> {
+  const byPath = new Map<string, DiscoveredRouteHandler[]>();
+  for (const route of routes) {
+    if (!route.url.startsWith("/")) continue;
+    const routePath = splitSegments(route.url).map(toTrieSegment).join("/");
+    byPath.set(routePath, [...(byPath.get(routePath) ?? []), route]);
+  }
+  const trie = new RouteTrie<DiscoveredRouteHandler[]>();
+  for (const [routePath, handlers] of byPath) {
+    trie.insert(routePath, handlers);
+  }
+  return trie;
+}
+
+/**
+ * Link calls to the route table handler their method and URL reach (handler code, file and name,
+ * route params). Returns the calls with linked copies; calls already resolved to a route table
+ * handler, non-HTTP calls and calls no route accepts are returned as they are.
+ * Routes without functionCode (ScanResult.routes) take it from a call resolved to the handler.
+ */
+export function linkCallsToRouteHandlers(
+  apiCalls: ApiCall[],
+  routes: Array<BackendRoute & { functionCode?: string | null }>,
+): ApiCall[] {
+  const handlerKeys = new Set(routes.map((route) => getHandlerKey(route)));
+  const codeByHandler = new Map<string, string>();
+  for (const call of apiCalls) {
+    const key = getHandlerKey(call);
+    if (call.functionCode && handlerKeys.has(key) && !codeByHandler.has(key)) {
+      codeByHandler.set(key, call.functionCode);
+    }
+  }
+  const trie = buildRouteTableTrie(
+    routes.map((route) => ({
+      ...route,
+      functionCode: route.functionCode ?? codeByHandler.get(getHandlerKey(route)) ?? null,
+    })),
+  );
+  return apiCalls.map((call) => {
+    if (call.protocol || call.graphql || handlerKeys.has(getHandlerKey(call))) {
+      return call;
+    }
+    const match = matchCall(trie, call);
+    const handler = match && findMethodHandler(match.value, call.method);
+    if (!match || !handler) {
+      return call;
+    }
+    return {
+      ...call,
+      functionName: handler.functionName,
+      functionFile: handler.functionFile,
+      functionCode: handler.functionCode ?? undefined,
+      functionResolutionConfidence: "high",
+      ...(match.params.length > 0 ? { routeParams: match.params } : {}),
+    };
+  });
+}
+
+/**
+ * Route table handlers no call reaches, neither by URL nor by being resolved to the handler
+ * already (apiRoutesDir extraction). Only these become endpoints of their own: a reached
+ * handler is represented by the calls reaching it.
+ */
+export function findUnreachedRoutes<T extends DiscoveredRouteHandler>(
+  apiCalls: ApiCall[],
+  routes: T[],
+): T[] {
+  const byHandlerKey = new Map<string, T[]>();
+  for (const route of routes) {
+    const key = getHandlerKey(route);
+    byHandlerKey.set(key, [...(byHandlerKey.get(key) ?? []), route]);
+  }
+  const trie = buildRouteTableTrie(routes);
+  const reached = new Set<DiscoveredRouteHandler>();
+  for (const call of apiCalls) {
+    if (call.protocol || call.graphql) continue;
+    const candidates = byHandlerKey.get(getHandlerKey(call)) ?? matchCall(trie, call)?.value;
+    const handler = candidates && findMethodHandler(candidates, call.method);
+    if (handler) reached.add(handler);
+  }
+  return routes.filter((route) => !reached.has(route));
+}
+
+function matchCall(
+  trie: RouteTrie<DiscoveredRouteHandler[]>,
+  call: ApiCall,
+): RouteMatch<DiscoveredRouteHandler[]> | null {
+  const pathname = canonicalizeUrl(call.url, call.baseUrl).path;
+  return pathname.startsWith("/") ? trie.match(pathname) : null;
+}
+
+/**
+ * The handler for a method among a route's handlers, falling back to an ALL handler
+ */
+function findMethodHandler<T extends DiscoveredRouteHandler>(
+  handlers: T[],
+  method: string,
+): T | undefined {
+  const upper = method.toUpperCase();
+  return (
+    handlers.find((route) => route.method === upper) ??
+    handlers.find((route) => route.method === "ALL")
+  );
+}
+
+/**
+ * Route table key of a handler: its file and function name
+ */
+function getHandlerKey(handler: { functionFile?: string; functionName?: string }): string {
+  return `${path.normalize(handler.functionFile ?? "")}#${handler.functionName ?? ""}`;
+}
+
+function toTrieSegment(segment: string): string {
+  const named = /^:(\w+)(?:\([^)]*\)|\{[^}]*\})?([?*+])?/.exec(segment);
+  if (named) {
+    return named[2] === "*"
+      ? `[[...${named[1]}]]`
+      : named[2] === "+"
+        ? `[...${named[1]}]`
+        : `[${named[1]}]`;
+  }
+  return segment.startsWith("*") ? `[...${segment.slice(1) || "*"}]` : segment;
+}
+
+function matchNode<T>(
+  node: TrieNode<T>,
+  segments: string[],
+  index: number,
+  params: string[],
+): RouteMatch<T> | null {
+  if (index === segments.length) {
+    if (node.value !== undefined) {
+      return { value: node.value, params };
+    }
+    return node.optionalCatchAll
+      ? { value: node.optionalCatchAll.value, params: [...params, node.optionalCatchAll.name] }
+      : null;
+  }
+
+  const segment = segments[index];
+  // {name} and partly interpolated segments ({name}.json) are values only dynamic segments accept
+  if (!segment.includes("{")) {
+    const child = node.staticChildren.get(segment);
+    const staticMatch = child ? matchNode(child, segments, index + 1, params) : null;
+    if (staticMatch) {
+      return staticMatch;
+    }
+  }
+  if (node.dynamic) {
+    const dynamicMatch = matchNode(node.dynamic.node, segments, index + 1, [
+      ...params,
+      node.dynamic.name,
+    ]);
+    if (dynamicMatch) {
+      return dynamicMatch;
+    }
+  }
+  const catchAll = node.catchAll ?? node.optionalCatchAll;
+  return catchAll ? { value: catchAll.value, params: [...params, catchAll.name] } : null;
+}
+
+function createNode<T>(): TrieNode<T> {
+  return { staticChildren: new Map() };
+}
+
+function splitSegments(routePath: string): string[] {
+  return routePath.split(/[\\/]/).filter(Boolean);
+}
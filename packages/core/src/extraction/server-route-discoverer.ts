@@ -0,0 +1,524 @@
+/**
+ * Server route discoverers - the route table of Node.js server apps, from the calls that register
+ * routes and mount routers:
+ *
+ *   const users = express.Router();
+ *   users.get("/:id", auth, getUser);     -> GET /api/users/:id (handler getUser, middleware auth)
+ *   app.use("/api/users", users);
+ *
+ * ServerRouteDiscoverer finds the routers (apps, routers, plugin instances) of a framework, the
+ * routes registered on them and where they are mounted; subclasses describe the framework's API
+ * (ExpressRouteDiscoverer, FastifyRouteDiscoverer, HonoRouteDiscoverer, KoaRouteDiscoverer).
+ */
+
+import {
+  CallExpression,
+  Node,
+  Project,
+  SourceFile,
+} from "ts-morph";
+import type { RouteParam, ScanConfig } from "@api-surface/types";
+import { resolveStringValue, unwrapExpression } from "../detector/url-resolver";
+import {
+  DiscoveredRouteHandler,
+  RouteDiscoverer,
+  getNodeTextWithLimit,
+  loadSourceFilesContaining,
+} from "./route-discoverer";
+
+/** Methods registered as router.<method>() by every supported framework */
+export const ROUTER_METHODS: Record<string, string> = {
+  get: "GET",
+  post: "POST",
+  put: "PUT",
+  delete: "DELETE",
+  patch: "PATCH",
+  options: "OPTIONS",
+  head: "HEAD",
+  all: "ALL",
+};
+
+/** Max router hops when resolving a receiver or computing mount prefixes (guards against cycles) */
+const MAX_RESOLVE_DEPTH = 8;
+
+/** Rounds of mount discovery (mounted plugin parameters become routers for the next round) */
+const MAX_MOUNT_ROUNDS = 4;
+
+/** A route registered on a router */
+export interface ServerRouteRegistration {
+  /** HTTP methods ("ALL" for every method) */
+  methods: string[];
+  /** Path relative to the router */
+  path: string;
+  /** Handler chain: middleware first, the handler last */
+  handlers: Node[];
+}
+
+/** A router mounted on another one */
+export interface ServerRouteMount {
+  /** Path the child is mounted under */
+  prefix: string;
+  /** Expression or parameter declaration naming the child router */
+  child: Node;
+}
+
+/** Local names a file binds to the framework's packages -> imported name ("default", "*" or the export) */
+export type PackageBindings = Map<string, string>;
+
+/** Router reached by an expression, with the path prefix of the chain leading to it */
+interface RouterReference {
+  router: Node;
+  prefix: string;
+}
+
+interface RouterEdge {
+  parent: Node;
+  prefix: string;
+  child: Node;
+}
+
+/**
+ * Base class of the built-in server framework route discoverers
+ */
+export abstract class ServerRouteDiscoverer implements RouteDiscoverer {
+  abstract readonly id: string;
+  /** Packages of the framework; files that mention none of them are not inspected */
+  abstract readonly packages: string[];
+  /** Type names of router instances (parameters of these types are routers) */
+  protected abstract readonly routerTypes: string[];
+
+  /** Mounted parameters of the current discovery (fastify.register(plugin) -> plugin's instance) */
+  private mountedParameters = new Set<Node>();
+  private bindingsCache = new Map<SourceFile, PackageBindings>();
+
+  /**
+   * Own prefix of the router an expression creates (express.Router(), new Hono(),
+   * new Router({ prefix })); undefined when the expression does not create a router
+   */
+  protected abstract getRouterPrefix(expression: Node, bindings: PackageBindings): string | undefined;
+
+  /**
+   * Routes registered by a call on a router (`name` is the called method)
+   */
+  protected abstract readRoutes(call: CallExpression, name: string): ServerRouteRegistration[];
+
+  /**
+   * Routers mounted by a call on a router
+   */
+  protected abstract readMounts(call: CallExpression, name: string): ServerRouteMount[];
+
+  /**
+   * Prefix a call in a receiver chain adds to routes registered through it
+   * (app.route("/x").get(...), app.basePath("/api").get(...))
+   */
+  protected getChainPrefix(_call: CallExpression, _name: string): string | undefined {
+    return undefined;
+  }
+
+  /**
+   * Prefix a call sets on the router it is called on (router.prefix("/v1"))
+   */
+  protected readRouterPrefix(_call: CallExpression, _name: string): string | undefined {
+    return undefined;
+  }
+
+  async discover(
+    project: Project,
+    config: ScanConfig,
+    maxFunctionLines: number,
+  ): Promise<DiscoveredRouteHandler[]> {
+    this.mountedParameters = new Set();
+    this.bindingsCache = new Map();
+    const sourceFiles = await loadSourceFilesContaining(project, config, this.packages);
+    const calls = sourceFiles.flatMap((sourceFile) => getRouterCalls(sourceFile));
+
+    // Mounts first: plugin parameters they reach are routers too (their files are inspected next round)
+    let edges: RouterEdge[] = [];
+    const inspectedFiles = new Set(sourceFiles);
+    for (let round = 0; round < MAX_MOUNT_ROUNDS; round++) {
+      edges = [];
+      const mountedBefore = this.mountedParameters.size;
+      for (const { call, name, receiver } of calls) {
+        const mounts = this.readMounts(call, name);
+        const parent = mounts.length > 0 ? this.resolveRouter(receiver) : undefined;
+        if (!parent) continue;
+        for (const mount of mounts) {
+          if (Node.isParameterDeclaration(mount.child)) {
+            this.mountedParameters.add(mount.child);
+          }
+          // The child's own prefix is part of its routes' receiver chain, not of the edge
+          const child = this.resolveRouter(mount.child);
+          if (child) {
+            edges.push({
+              parent: parent.router,
+              prefix: joinPaths(parent.prefix, mount.prefix),
+              child: child.router,
+            });
+          }
+        }
+      }
+      for (const parameter of this.mountedParameters) {
+        const sourceFile = parameter.getSourceFile();
+        if (!inspectedFiles.has(sourceFile)) {
+          inspectedFiles.add(sourceFile);
+          calls.push(...getRouterCalls(sourceFile));
+        }
+      }
+      if (this.mountedParameters.size === mountedBefore) break;
+    }
+
+    const ownPrefixes = new Map<Node, string>();
+    for (const { call, name, receiver } of calls) {
+      const prefix = this.readRouterPrefix(call, name);
+      const target = prefix !== undefined ? this.resolveRouter(receiver) : undefined;
+      if (target) {
+        ownPrefixes.set(target.router, prefix!);
+      }
+    }
+
+    const handlers: DiscoveredRouteHandler[] = [];
+    const seen = new Set<string>();
+    for (const { call, name, receiver } of calls) {
+      const registrations = this.readRoutes(call, name);
+      const target = registrations.length > 0 ? this.resolveRouter(receiver) : undefined;
+      if (!target) continue;
+      const mountPrefixes = getMountPrefixes(target.router, edges, ownPrefixes, 0);
+      for (const registration of registrations) {
+        const handler = registration.handlers[registration.handlers.length - 1];
+        if (!handler) continue;
+        const code = resolveHandlerCode(handler);
+        const middleware = registration.handlers
+          .slice(0, -1)
+          .map(getMiddlewareName)
+          .filter((middlewareName): middlewareName is string => !!middlewareName);
+
+        for (const mountPrefix of mountPrefixes) {
+          const url = joinPaths(mountPrefix, target.prefix, registration.path);
+          for (const method of registration.methods) {
+            const key = `${method} ${url} ${call.getSourceFile().getFilePath()}:${call.getStart()}`;
+            if (seen.has(key)) continue;
+            seen.add(key);
+            const params = getPathParams(url);
+            handlers.push({
+              method,
+              url,
+              functionFile: code.node.getSourceFile().getFilePath(),
+              functionName: code.name ?? method,
+              functionCode: getNodeTextWithLimit(code.node, maxFunctionLines),
+              line: code.node.getStartLineNumber(),
+              ...(params.length > 0 ? { params } : {}),
+              ...(middleware.length > 0 ? { middleware } : {}),
+            });
+          }
+        }
+      }
+    }
+    return handlers;
+  }
+
+  /**
+   * The router an expression refers to: a variable holding a router (through imports), a router
+   * creation, a call chain on a router, or a router parameter
+   */
+  protected resolveRouter(node: Node, depth = 0): RouterReference | undefined {
+    if (depth > MAX_RESOLVE_DEPTH) {
+      return undefined;
+    }
+    const expression = unwrapExpression(node);
+
+    if (Node.isParameterDeclaration(expression)) {
+      return this.mountedParameters.has(expression) || this.isRouterParameter(expression)
+        ? { router: expression, prefix: "" }
+        : undefined;
+    }
+    if (Node.isVariableDeclaration(expression)) {
+      const initializer = expression.getInitializer();
+      return initializer ? this.resolveRouter(initializer, depth + 1) : undefined;
+    }
+    if (Node.isIdentifier(expression)) {
+      const declaration = getDefinition(expression);
+      return declaration ? this.resolveRouter(declaration, depth + 1) : undefined;
+    }
+
+    const ownPrefix = this.getRouterPrefix(expression, this.getBindings(expression.getSourceFile()));
+    if (ownPrefix !== undefined) {
+      return { router: expression, prefix: ownPrefix };
+    }
+
+    // app.get(...).post(...), app.route("/x").get(...), app.basePath("/api")
+    if (Node.isCallExpression(expression)) {
+      const callee = expression.getExpression();
+      if (Node.isPropertyAccessExpression(callee)) {
+        const inner = this.resolveRouter(callee.getExpression(), depth + 1);
+        if (inner) {
+          const chainPrefix = this.getChainPrefix(expression, callee.getName()) ?? "";
+          return { router: inner.router, prefix: joinPaths(inner.prefix, chainPrefix) };
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Parameters typed as a router instance (app: Express, fastify: FastifyInstance)
+   */
+  private isRouterParameter(parameter: Node): boolean {
+    if (!Node.isParameterDeclaration(parameter)) {
+      return false;
+    }
+    const typeNode = parameter.getTypeNode();
+    if (typeNode) {
+      const typeName = typeNode.getText().replace(/<[\s\S]*$/, "").split(".").pop() ?? "";
+      return this.routerTypes.includes(typeName);
+    }
+    try {
+      const type = parameter.getType();
+      const symbol = type.getAliasSymbol() ?? type.getSymbol();
+      return !!symbol && this.routerTypes.includes(symbol.getName());
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Local names bound to the framework's packages by imports and require() calls
+   */
+  protected getBindings(sourceFile: SourceFile): PackageBindings {
+    const cached = this.bindingsCache.get(sourceFile);
+    if (cached) {
+      return cached;
+    }
+    const bindings: PackageBindings = new Map();
+    for (const importDecl of sourceFile.getImportDeclarations()) {
+      if (!this.packages.includes(importDecl.getModuleSpecifierValue())) continue;
+      const defaultImport = importDecl.getDefaultImport();
+      if (defaultImport) bindings.set(defaultImport.getText(), "default");
+      const namespaceImport = importDecl.getNamespaceImport();
+      if (namespaceImport) bindings.set(namespaceImport.getText(), "*");
+      for (const namedImport of importDecl.getNamedImports()) {
+        bindings.set(
+          namedImport.getAliasNode()?.getText() ?? namedImport.getName(),
+          namedImport.getName(),
+        );
+      }
+    }
+    // const express = require("express"); const { Router } = require("express")
+    for (const declaration of sourceFile.getVariableDeclarations()) {
+      const initializer = declaration.getInitializer();
+      if (!initializer || !this.isPackageRequire(initializer)) continue;
+      const nameNode = declaration.getNameNode();
+      if (Node.isIdentifier(nameNode)) {
+        bindings.set(nameNode.getText(), "default");
+      } else if (Node.isObjectBindingPattern(nameNode)) {
+        for (const element of nameNode.getElements()) {
+          const importedName = element.getPropertyNameNode()?.getText() ?? element.getName();
+          bindings.set(element.getName(), importedName);
+        }
+      }
+    }
+    this.bindingsCache.set(sourceFile, bindings);
+    return bindings;
+  }
+
+  /**
+   * require("<package>") of one of the framework's packages
+   */
+  protected isPackageRequire(node: Node): boolean {
+    const expression = unwrapExpression(node);
+    if (!Node.isCallExpression(expression)) {
+      return false;
+    }
+    const callee = expression.getExpression();
+    const [argument] = expression.getArguments();
+    return (
+      Node.isIdentifier(callee) &&
+      callee.getText() === "require" &&
+      !!argument &&
+      Node.isStringLiteral(argument) &&
+      this.packages.includes(argument.getLiteralValue())
+    );
+  }
+}
+
+/**
+ * Literal path of a route or mount argument ("/users", a const, `${API}/users`); undefined for
+ * non-literal paths (arrays, regular expressions, runtime values)
+ */
+export function getPathLiteral(node: Node | undefined): string | undefined {
+  if (!node) {
+    return undefined;
+  }
+  return resolveStringValue(unwrapExpression(node)) ?? undefined;
+}
+
+/**
+ * Route handler arguments, flattening arrays of middleware ([auth, validate], handler)
+ */
+export function flattenHandlers(nodes: Node[]): Node[] {
+  return nodes.flatMap((node) => {
+    const expression = unwrapExpression(node);
+    return Node.isArrayLiteralExpression(expression)
+      ? flattenHandlers(expression.getElements())
+      : [expression];
+  });
+}
+
+/**
+ * Whether a node can be a route handler or middleware (function, reference or wrapper call)
+ */
+export function isHandlerLike(node: Node): boolean {
+  const expression = unwrapExpression(node);
+  return (
+    Node.isArrowFunction(expression) ||
+    Node.isFunctionExpression(expression) ||
+    Node.isIdentifier(expression) ||
+    Node.isPropertyAccessExpression(expression) ||
+    Node.isCallExpression(expression) ||
+    Node.isArrayLiteralExpression(expression)
+  );
+}
+
+/**
+ * Join path segments with single slashes: ("/api", "users/", "/:id") -> "/api/users/:id"
+ */
+export function joinPaths(...parts: string[]): string {
+  const joined = parts
+    .filter(Boolean)
+    .join("/")
+    .replace(/\/{2,}/g, "/")
+    .replace(/(.)\/$/, "$1");
+  return joined.startsWith("/") ? joined : `/${joined}`;
+}
+
+/**
+ * Calls of the form <receiver>.<name>(...) in a file
+ */
+function getRouterCalls(
+  sourceFile: SourceFile,
+): Array<{ call: CallExpression; name: string; receiver: Node }> {
+  const calls: Array<{ call: CallExpression; name: string; receiver: Node }> = [];
+  sourceFile.forEachDescendant((node) => {
+    if (!Node.isCallExpression(node)) return;
+    const callee = node.getExpression();
+    if (Node.isPropertyAccessExpression(callee)) {
+      calls.push({ call: node, name: callee.getName(), receiver: callee.getExpression() });
+    }
+  });
+  return calls;
+}
+
+/**
+ * Prefixes a router is reachable under, following mounts up to the root routers
+ */
+function getMountPrefixes(
+  router: Node,
+  edges: RouterEdge[],
+  ownPrefixes: Map<Node, string>,
+  depth: number,
+): string[] {
+  const ownPrefix = ownPrefixes.get(router) ?? "";
+  const incoming = edges.filter((edge) => edge.child === router);
+  if (incoming.length === 0 || depth > MAX_RESOLVE_DEPTH) {
+    return [joinPaths(ownPrefix)];
+  }
+  const prefixes = new Set<string>();
+  for (const edge of incoming) {
+    for (const parentPrefix of getMountPrefixes(edge.parent, edges, ownPrefixes, depth + 1)) {
+      prefixes.add(joinPaths(parentPrefix, edge.prefix, ownPrefix));
+    }
+  }
+  return Array.from(prefixes);
+}
+
+/**
+ * Declaration an identifier refers to (following imports); undefined when it cannot be resolved
+ */
+function getDefinition(identifier: Node): Node | undefined {
+  if (!Node.isIdentifier(identifier)) {
+    return undefined;
+  }
+  try {
+    return identifier.getDefinitionNodes()[0];
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The code to extract for a handler argument and its name: inline functions, referenced functions
+ * and methods (controller.list), and the function inside a wrapper (asyncHandler(async (req, res) => ...))
+ */
+function resolveHandlerCode(handler: Node, depth = 0): { node: Node; name?: string } {
+  const expression = unwrapExpression(handler);
+  if (depth > MAX_RESOLVE_DEPTH) {
+    return { node: expression };
+  }
+  if (Node.isCallExpression(expression)) {
+    const wrapped = [...expression.getArguments()]
+      .reverse()
+      .find((argument) => isHandlerLike(argument) && !Node.isArrayLiteralExpression(argument));
+    return wrapped ? resolveHandlerCode(wrapped, depth + 1) : { node: expression };
+  }
+
+  const nameNode = Node.isPropertyAccessExpression(expression)
+    ? expression.getNameNode()
+    : Node.isIdentifier(expression)
+      ? expression
+      : undefined;
+  if (!nameNode) {
+    return { node: expression };
+  }
+  const name = nameNode.getText();
+  const definition = getDefinition(nameNode);
+  if (!definition) {
+    return { node: expression, name };
+  }
+  if (Node.isVariableDeclaration(definition)) {
+    const initializer = definition.getInitializer();
+    // const getUser = asyncHandler(async (req, res) => ...) -> the wrapped function
+    if (initializer && Node.isCallExpression(unwrapExpression(initializer))) {
+      return { node: resolveHandlerCode(initializer, depth + 1).node, name };
+    }
+    return { node: definition.getVariableStatement() ?? definition, name };
+  }
+  if (Node.isPropertyAssignment(definition)) {
+    const initializer = definition.getInitializer();
+    return { node: initializer ?? definition, name };
+  }
+  return { node: definition, name };
+}
+
+/**
+ * Display name of a middleware argument: auth, passport.authenticate (for passport.authenticate("jwt"))
+ */
+function getMiddlewareName(node: Node): string | undefined {
+  const expression = unwrapExpression(node);
+  if (Node.isIdentifier(expression) || Node.isPropertyAccessExpression(expression)) {
+    return expression.getText();
+  }
+  if (Node.isCallExpression(expression)) {
+    return getMiddlewareName(expression.getExpression());
+  }
+  return undefined;
+}
+
+/**
+ * Path parameters: `:id` (also `:id?`, `:id(\\d+)`, `:id{[0-9]+}`) and wildcards `*`, `*splat`,
+ * `:path*`, `:path+`
+ */
+function getPathParams(url: string): RouteParam[] {
+  const params: RouteParam[] = [];
+  for (const segment of url.split("/")) {
+    const named = /^:(\w+)(?:\([^)]*\)|\{[^}]*\})?([?*+])?/.exec(segment);
+    if (named) {
+      const modifier = named[2];
+      params.push({
+        name: named[1],
+        kind: modifier === "*" ? "optional-catch-all" : modifier === "+" ? "catch-all" : "dynamic",
+      });
+    } else if (segment.startsWith("*")) {
+      params.push({ name: segment.slice(1) || "*", kind: "catch-all" });
+    }
+  }
+  return params;
+}
@@ -2,24 +2,96 @@
  * Core scanner - framework-agnostic API call detection
  */
 
+import * as fs from "fs";
+import * as path from "path";
 import { ScanConfig, ScanResult, ScanError } from "@api-surface/types";
 import { scanFiles } from "./scanner/file-scanner";
 import { getApiDirFilesWithRelated } from "./scanner/api-dir-resolver";
+import {
+  FileAnalysisResult,
+  analyzeFilesInWorkers,
+  getDefaultConcurrency,
+  getWorkerCount,
+} from "./scanner/parallel-scan";
 import { AstParser } from "./ast/parser";
+import { getModuleResolver } from "./ast/module-resolver";
+import { getProjectSourceFile } from "./ast/component-script";
 import { DetectorRegistry } from "./detector/registry";
 import { DetectorVisitor } from "./detector/visitor";
 import { FetchDetector } from "./detector/fetch-detector";
 import { AxiosDetector } from "./detector/axios-detector";
+import { CustomClientDetector } from "./detector/custom-detector";
+import { KyDetector } from "./detector/ky-detector";
+import { OfetchDetector } from "./detector/ofetch-detector";
+import { GotDetector } from "./detector/got-detector";
+import { SuperagentDetector } from "./detector/superagent-detector";
+import { RedaxiosDetector } from "./detector/redaxios-detector";
+import { GraphQLDetector } from "./detector/graphql-detector";
+import { SwrDetector } from "./detector/swr-detector";
+import { TanstackQueryDetector } from "./detector/tanstack-query-detector";
+import { RtkQueryDetector } from "./detector/rtk-query-detector";
+import { TrpcDetector } from "./detector/trpc-detector";
+import { ServerActionDetector } from "./detector/server-action-detector";
+import { WebSocketDetector } from "./detector/websocket-detector";
+import { EventSourceDetector } from "./detector/eventsource-detector";
+import { SocketIoDetector } from "./detector/socketio-detector";
+import { XhrDetector } from "./detector/xhr-detector";
+import { JqueryDetector } from "./detector/jquery-detector";
+import { BeaconDetector } from "./detector/beacon-detector";
+import { AngularHttpDetector } from "./detector/angular-detector";
+import { getPluginModuleFiles, loadPlugin, loadPlugins, ScanPlugin } from "./plugins";
+import {
+  ScanCache,
+  FileDependencyGraph,
+  createCacheFingerprint,
+  hashFiles,
+  DEFAULT_CACHE_DIR,
+} from "./cache";
 import {
   extractFunctionCodeForApiCalls,
+  isApiRouteCall,
+  findAllRouteFilesSync,
   discoverAllRouteHandlers,
   discoveredHandlersToApiCalls,
+  inferResponseUsageForApiCalls,
+  inferExternalDependenciesForApiCalls,
   DEFAULT_MAX_FUNCTION_LINES,
+  DiscoveredRouteHandler,
+  ExpressRouteDiscoverer,
+  FastifyRouteDiscoverer,
+  HonoRouteDiscoverer,
+  KoaRouteDiscoverer,
+  ServerRouteDiscoverer,
+  linkCallsToRouteHandlers,
+  findUnreachedRoutes,
 } from "./extraction";
 
+/** @api-surface/core version (part of the scan cache fingerprint) */
+const CORE_VERSION: string = require("../package.json").version;
+
+/** Adapter plugin loaded for config.framework (route discovery for the framework's backend) */
+const FRAMEWORK_ADAPTERS: Record<string, string> = {
+  nextjs: "@api-surface/nextjs",
+  next: "@api-surface/nextjs",
+};
+
+/** Plugin holding the built-in server route discoverers of the frameworks the project depends on */
+const SERVER_ROUTES_PLUGIN = "server-routes";
+
 export class ApiScanner {
   private astParser: AstParser;
   private detectorRegistry: DetectorRegistry;
+  private plugins: ScanPlugin[] = [];
+  private configPluginsLoaded = false;
+  /** Source files of config and adapter plugins (their contents are part of the cache fingerprint) */
+  private pluginModuleFiles: string[] = [];
+  /** Detectors a worker thread's scanner also has (built-ins + config plugins) */
+  private workerDetectorCount = 0;
+  /** registerPlugin was called from code (hooks that worker threads would not have) */
+  private hasCodeRegisteredPlugins = false;
+  /** Kept across scan() calls, so rescans (watch mode) only analyze changed files */
+  private scanCache: ScanCache | undefined;
+  private scanCount = 0;
 
   constructor(private config: ScanConfig) {
     // Initialize AST parser
@@ -46,6 +118,45 @@ export class ApiScanner {
     const axiosDetector = new AxiosDetector();
     this.detectorRegistry.register(axiosDetector);
 
+    // Register import-aware HTTP client library detectors
+    this.detectorRegistry.register(new KyDetector());
+    this.detectorRegistry.register(new OfetchDetector());
+    this.detectorRegistry.register(new GotDetector());
+    this.detectorRegistry.register(new SuperagentDetector());
+    this.detectorRegistry.register(new RedaxiosDetector());
+
+    // Register Angular HttpClient detector (injected HttpClient in services)
+    this.detectorRegistry.register(new AngularHttpDetector());
+
+    // Register GraphQL operation detector (Apollo, urql, graphql-request)
+    this.detectorRegistry.register(new GraphQLDetector());
+
+    // Register data-fetching hook detectors (SWR, TanStack Query, RTK Query)
+    this.detectorRegistry.register(new SwrDetector());
+    this.detectorRegistry.register(new TanstackQueryDetector());
+    this.detectorRegistry.register(new RtkQueryDetector());
+
+    // Register tRPC procedure detector
+    this.detectorRegistry.register(new TrpcDetector());
+
+    // Register server action detector ("use server" functions called from components)
+    this.detectorRegistry.register(new ServerActionDetector());
+
+    // Register real-time channel detectors (WebSocket, EventSource, Socket.IO)
+    this.detectorRegistry.register(new WebSocketDetector());
+    this.detectorRegistry.register(new EventSourceDetector());
+    this.detectorRegistry.register(new SocketIoDetector());
+
+    // Register legacy request detectors (XMLHttpRequest, jQuery Ajax, navigator.sendBeacon)
+    this.detectorRegistry.register(new XhrDetector());
+    this.detectorRegistry.register(new JqueryDetector());
+    this.detectorRegistry.register(new BeaconDetector());
+
+    // Register custom client detector (runs only when apiClients lists a "custom" entry)
+    const customDetector = new CustomClientDetector();
+    this.detectorRegistry.register(customDetector);
+
+    this.workerDetectorCount = this.detectorRegistry.getCount();
     console.log(
       `Registered ${this.detectorRegistry.getCount()} built-in detector(s)`,
     );
@@ -55,6 +166,18 @@ export class ApiScanner {
    * Scan the repository for API calls
    */
   async scan(): Promise<ScanResult> {
+    // Step 0: Load plugins from config and run their beforeScan hooks
+    await this.loadConfigPlugins();
+    for (const plugin of this.plugins) {
+      await plugin.beforeScan?.(this.config);
+    }
+
+    // Rescan with the same scanner (watch mode): pick up edited files, drop per-file detector caches
+    if (this.scanCount++ > 0) {
+      this.astParser.refresh();
+      this.detectorRegistry.clearCaches();
+    }
+
     // Step 1: Scan files
     let fileScanResult = await scanFiles(this.config);
 
@@ -90,50 +213,74 @@ export class ApiScanner {
 
     console.log(`Found ${fileScanResult.count} files to scan`);
 
-    // Step 2: Parse AST for each file and run detectors
+    // Step 2: Parse AST for each file and run detectors (unchanged files are replayed from the cache)
     const errors: ScanError[] = [];
     let filesParsed = 0;
     const allApiCalls: ScanResult["apiCalls"] = [];
+    // Calls of files analyzed in this run (the extraction phases only run on these)
+    const freshCallsByFile = new Map<string, ScanResult["apiCalls"]>();
 
-    for (const filePath of fileScanResult.files) {
-      try {
-        const context = this.astParser.parseFile(filePath);
+    const cache = await this.openCache(fileScanResult.files);
+    const validCachedFiles = cache.scanCache.getValidFiles(fileScanResult.files, cache.graph);
 
-        if (context) {
-          // Step 3: Create detector visitor and traverse AST
-          const detectorVisitor = new DetectorVisitor(
-            this.detectorRegistry,
-            this.config,
-          );
-          detectorVisitor.traverse(context);
+    const filesToAnalyze = fileScanResult.files.filter((file) => !validCachedFiles.has(file));
+    const analyzed = new Map(
+      (await this.analyzeFilesWithConcurrency(filesToAnalyze)).map((result) => [result.file, result]),
+    );
 
-          // Step 4: Collect API calls from detectors
-          const apiCalls = detectorVisitor.getApiCalls();
-          allApiCalls.push(...apiCalls);
+    // Merge in file order, so the result does not depend on how files were sharded
+    for (const filePath of fileScanResult.files) {
+      if (validCachedFiles.has(filePath)) {
+        allApiCalls.push(...(cache.scanCache.get(filePath) ?? []));
+        continue;
+      }
 
-          filesParsed++;
-        }
-      } catch (error) {
-        errors.push({
-          file: filePath,
-          message: error instanceof Error ? error.message : String(error),
-        });
+      const result = analyzed.get(filePath);
+      if (result?.error !== undefined) {
+        errors.push({ file: filePath, message: result.error });
+      } else if (result?.parsed) {
+        allApiCalls.push(...result.apiCalls);
+        freshCallsByFile.set(filePath, result.apiCalls);
+        filesParsed++;
       }
     }
 
     console.log(`Parsed ${filesParsed} files successfully`);
+    if (validCachedFiles.size > 0) {
+      console.log(`Replayed ${validCachedFiles.size} unchanged file(s) from cache`);
+    }
     console.log(`Detected ${allApiCalls.length} API calls`);
 
+    const freshApiCalls = Array.from(freshCallsByFile.values()).flat();
+    if (validCachedFiles.size > 0) {
+      // Response usage follows calls into importing files; make sure unchanged importers are loaded
+      for (const [filePath, apiCalls] of freshCallsByFile) {
+        if (apiCalls.length === 0) continue;
+        for (const importer of cache.graph.getImporterClosure(filePath)) {
+          if (!getProjectSourceFile(this.astParser.getProject(), importer)) {
+            this.astParser.parseFile(importer);
+          }
+        }
+      }
+    }
+
     // Step 5: Extraction phase - when apiRoutesDir is set, extract API route handlers from e.g. src/app/api
     const maxLines = this.config.maxFunctionLines ?? DEFAULT_MAX_FUNCTION_LINES;
     extractFunctionCodeForApiCalls(
-      allApiCalls,
+      freshApiCalls,
       this.astParser.getProject(),
       this.config.rootDir,
       maxLines,
       this.config.apiRoutesDir,
     );
 
+    // Step 5b: Response usage - which response fields the consuming frontend code reads
+    inferResponseUsageForApiCalls(
+      freshApiCalls,
+      this.astParser.getProject(),
+      this.config.rootDir,
+    );
+
     // Step 6: When apiRoutesDir is set, discover all nested route files (inner route.ts) and add any handlers not already present
     if (this.config.apiRoutesDir?.trim()) {
       try {
@@ -143,16 +290,10 @@ export class ApiScanner {
           this.config.apiRoutesDir.trim(),
           maxLines
         );
-        const existingKeys = new Set(
-          allApiCalls.map((c) => `${c.method.toUpperCase()}:${c.url}`)
-        );
-        const newCalls = discoveredHandlersToApiCalls(discovered).filter(
-          (c) => !existingKeys.has(`${c.method.toUpperCase()}:${c.url}`)
-        );
-        if (newCalls.length > 0) {
-          allApiCalls.push(...newCalls);
+        const added = addDiscoveredHandlers(discovered, allApiCalls, freshApiCalls);
+        if (added > 0) {
           console.log(
-            `Discovered ${newCalls.length} inner route handler(s) from nested route files`
+            `Discovered ${added} inner route handler(s) from nested route files`
           );
         }
       } catch (err) {
@@ -163,11 +304,279 @@ export class ApiScanner {
       }
     }
 
-    return {
-      apiCalls: allApiCalls,
-      filesScanned: filesParsed,
+    // Step 6a: Route discoverers of plugins (framework adapters) - the backend route table
+    const hasRouteDiscoverers = this.plugins.some(
+      (plugin) => (plugin.routeDiscoverers?.length ?? 0) > 0
+    );
+    const routes = hasRouteDiscoverers ? await this.discoverPluginRoutes(maxLines) : [];
+    if (routes.length > 0) {
+      const added = addDiscoveredHandlers(routes, allApiCalls, freshApiCalls);
+      console.log(
+        `Route table: ${routes.length} route handler(s), ${added} without a matching call`
+      );
+    }
+
+    if (this.config.apiRoutesDir?.trim()) {
+      // Step 6b: Outbound dependencies - SDKs and external hosts called by each route handler
+      inferExternalDependenciesForApiCalls(
+        freshApiCalls,
+        this.astParser.getProject(),
+        this.config.rootDir,
+        this.config.apiRoutesDir.trim(),
+      );
+    }
+
+    // Store the final calls of analyzed files (route discovery and afterScan hooks run on every scan);
+    // calls of API routes depend on the route files, so added or removed handlers re-resolve them
+    for (const [filePath, apiCalls] of freshCallsByFile) {
+      const routeListing =
+        cache.routeListing && apiCalls.some(isApiRouteCall) ? [cache.routeListing] : [];
+      cache.scanCache.set(filePath, apiCalls, cache.graph, routeListing);
+    }
+    cache.scanCache.prune(fileScanResult.files);
+    try {
+      await cache.scanCache.save();
+    } catch (err) {
+      console.warn(
+        "Could not write scan cache:",
+        err instanceof Error ? err.message : String(err)
+      );
+    }
+
+    let result: ScanResult = {
+      // Calls are linked to route table handlers on every scan (the cache keeps them unlinked)
+      apiCalls: routes.length > 0 ? linkCallsToRouteHandlers(allApiCalls, routes) : allApiCalls,
+      filesScanned: filesParsed + validCachedFiles.size,
       errors,
+      ...(hasRouteDiscoverers
+        ? { routes: routes.map(({ functionCode: _code, ...route }) => route) }
+        : {}),
     };
+
+    // Step 7: Plugin afterScan hooks
+    for (const plugin of this.plugins) {
+      if (plugin.afterScan) {
+        result = (await plugin.afterScan(result)) ?? result;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Run detectors (and plugin afterFile hooks) on files in this thread.
+   * Results are in the order of `files`.
+   */
+  async analyzeFiles(files: string[]): Promise<FileAnalysisResult[]> {
+    await this.loadConfigPlugins();
+
+    const results: FileAnalysisResult[] = [];
+    for (const filePath of files) {
+      try {
+        const context = this.astParser.parseFile(filePath);
+        if (!context) {
+          results.push({ file: filePath, apiCalls: [], parsed: false });
+          continue;
+        }
+
+        // Step 3: Create detector visitor and traverse AST
+        const detectorVisitor = new DetectorVisitor(
+          this.detectorRegistry,
+          this.config,
+        );
+        detectorVisitor.traverse(context);
+
+        // Step 4: Collect API calls from detectors (plugins may post-process them per file)
+        let apiCalls = detectorVisitor.getApiCalls();
+        for (const plugin of this.plugins) {
+          if (plugin.afterFile) {
+            apiCalls = (await plugin.afterFile(filePath, apiCalls, context)) ?? apiCalls;
+          }
+        }
+        results.push({ file: filePath, apiCalls, parsed: true });
+      } catch (error) {
+        results.push({
+          file: filePath,
+          apiCalls: [],
+          parsed: false,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Analyze files in worker threads when config.concurrency (default: CPU count) and the
+   * file count allow it, otherwise in this thread. Detectors and plugins registered in code
+   * (registerDetector / registerPlugin / the registry) only exist here, so they force in-thread scanning.
+   */
+  private async analyzeFilesWithConcurrency(files: string[]): Promise<FileAnalysisResult[]> {
+    const concurrency = this.config.concurrency ?? getDefaultConcurrency();
+    const hasCodeRegisteredExtensions =
+      this.hasCodeRegisteredPlugins ||
+      this.detectorRegistry.getCount() !== this.workerDetectorCount;
+    const workerCount = hasCodeRegisteredExtensions
+      ? 1
+      : getWorkerCount(files.length, concurrency);
+    if (workerCount <= 1) {
+      return this.analyzeFiles(files);
+    }
+
+    let results: FileAnalysisResult[];
+    try {
+      results = await analyzeFilesInWorkers(this.config, files, workerCount);
+    } catch (err) {
+      console.warn(
+        "Parallel scan failed, scanning in a single thread:",
+        err instanceof Error ? err.message : String(err)
+      );
+      return this.analyzeFiles(files);
+    }
+
+    // Extraction runs here: load the files the workers parsed, so callers and callees
+    // (route handlers, helpers, tRPC routers) are in this thread's project too
+    const project = this.astParser.getProject();
+    for (const result of results) {
+      if (result.parsed && !getProjectSourceFile(project, result.file)) {
+        this.astParser.parseFile(result.file);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Run the route discoverers of plugins (a failing discoverer is reported and skipped)
+   */
+  private async discoverPluginRoutes(maxLines: number): Promise<DiscoveredRouteHandler[]> {
+    const handlers: DiscoveredRouteHandler[] = [];
+    for (const plugin of this.plugins) {
+      for (const discoverer of plugin.routeDiscoverers ?? []) {
+        try {
+          const discovered = await discoverer.discover(
+            this.astParser.getProject(),
+            this.config,
+            maxLines
+          );
+          handlers.push(
+            ...discovered.map((handler) => ({
+              ...handler,
+              discoverer: handler.discoverer ?? discoverer.id,
+            }))
+          );
+        } catch (err) {
+          console.warn(
+            `Route discoverer "${discoverer.id}" failed:`,
+            err instanceof Error ? err.message : String(err)
+          );
+        }
+      }
+    }
+    return handlers;
+  }
+
+  /**
+   * Open the scan cache: on disk unless disabled (config.cache === false), in memory otherwise.
+   * The cache of the previous scan is reused while the fingerprint is unchanged.
+   */
+  private async openCache(
+    files: string[],
+  ): Promise<{ scanCache: ScanCache; graph: FileDependencyGraph; routeListing?: string }> {
+    const cacheDir = path.resolve(
+      this.config.rootDir,
+      this.config.cacheDir?.trim() || DEFAULT_CACHE_DIR,
+    );
+    const compilerOptions = this.astParser.getProject().getCompilerOptions();
+    const fingerprint = createCacheFingerprint({
+      coreVersion: CORE_VERSION,
+      detectors: this.detectorRegistry
+        .filterByConfig(this.config)
+        .map((detector) => `${detector.id}@${detector.version ?? ""}`)
+        .sort(),
+      plugins: this.plugins.map((plugin) => plugin.name),
+      pluginFiles: hashFiles(this.pluginModuleFiles),
+      compilerOptions,
+      config: {
+        rootDir: this.config.rootDir,
+        include: this.config.include,
+        exclude: this.config.exclude,
+        framework: this.config.framework,
+        apiClients: this.config.apiClients,
+        apiRoutesDir: this.config.apiRoutesDir,
+        maxFunctionLines: this.config.maxFunctionLines,
+        plugins: this.config.plugins,
+      },
+    });
+
+    if (this.scanCache?.fingerprint !== fingerprint) {
+      this.scanCache =
+        this.config.cache === false
+          ? ScanCache.inMemory(fingerprint)
+          : await ScanCache.open(cacheDir, fingerprint);
+    }
+    const graph = new FileDependencyGraph(files, getModuleResolver(this.astParser.getProject()));
+
+    // Route files under apiRoutesDir (empty while the directory does not exist)
+    const apiRoutesDir = this.config.apiRoutesDir?.trim();
+    if (!apiRoutesDir) {
+      return { scanCache: this.scanCache, graph };
+    }
+    const routeListing = path.join(path.resolve(this.config.rootDir, apiRoutesDir), "**");
+    graph.addListing(routeListing, findAllRouteFilesSync(this.config.rootDir, apiRoutesDir));
+    return { scanCache: this.scanCache, graph, routeListing };
+  }
+
+  /**
+   * Load the plugins listed in config.plugins (once per scanner)
+   */
+  private async loadConfigPlugins(): Promise<void> {
+    if (this.configPluginsLoaded) {
+      return;
+    }
+    this.configPluginsLoaded = true;
+
+    for (const plugin of await loadPlugins(this.config)) {
+      this.addPlugin(plugin);
+      this.workerDetectorCount += plugin.detectors?.length ?? 0;
+    }
+    for (const entry of this.config.plugins ?? []) {
+      this.pluginModuleFiles.push(...getPluginModuleFiles(entry, this.config.rootDir));
+    }
+
+    // framework: "nextjs" -> @api-surface/nextjs, unless listed in config.plugins or registered in code
+    const adapter = FRAMEWORK_ADAPTERS[this.config.framework ?? ""];
+    if (adapter && !this.plugins.some((plugin) => plugin.name === adapter)) {
+      try {
+        const plugin = await loadPlugin(adapter, this.config);
+        this.addPlugin(plugin);
+        this.workerDetectorCount += plugin.detectors?.length ?? 0;
+        this.pluginModuleFiles.push(...getPluginModuleFiles(adapter, this.config.rootDir));
+      } catch (err) {
+        console.warn(
+          `Could not load the ${this.config.framework} adapter:`,
+          err instanceof Error ? err.message : String(err)
+        );
+      }
+    }
+
+    // Express, Fastify, Hono, Koa dependencies -> their route discoverers (unless a plugin has one)
+    const dependencies = readDependencies(this.config.rootDir);
+    const registeredIds = new Set(
+      this.plugins.flatMap((plugin) => plugin.routeDiscoverers ?? []).map((d) => d.id)
+    );
+    const serverDiscoverers: ServerRouteDiscoverer[] = [
+      new ExpressRouteDiscoverer(),
+      new FastifyRouteDiscoverer(),
+      new HonoRouteDiscoverer(),
+      new KoaRouteDiscoverer(),
+    ].filter(
+      (discoverer) =>
+        !registeredIds.has(discoverer.id) &&
+        discoverer.packages.some((pkg) => dependencies.has(pkg))
+    );
+    if (serverDiscoverers.length > 0) {
+      this.addPlugin({ name: SERVER_ROUTES_PLUGIN, routeDiscoverers: serverDiscoverers });
+    }
   }
 
   /**
@@ -190,6 +599,55 @@ export class ApiScanner {
   registerDetector(detector: import("./detector/detector").Detector): void {
     this.detectorRegistry.register(detector);
   }
+
+  /**
+   * Register a plugin: its detectors (ids must not collide) and lifecycle hooks
+   */
+  registerPlugin(plugin: ScanPlugin): void {
+    this.addPlugin(plugin);
+    this.hasCodeRegisteredPlugins = true;
+  }
+
+  private addPlugin(plugin: ScanPlugin): void {
+    for (const detector of plugin.detectors ?? []) {
+      this.detectorRegistry.registerPluginDetector(detector, plugin.name);
+    }
+    this.plugins.push(plugin);
+
+    console.log(
+      `Loaded plugin "${plugin.name}" (${plugin.detectors?.length ?? 0} detector(s))`,
+    );
+  }
+}
+
+/**
+ * Dependency names (dependencies and devDependencies) of the package.json in rootDir
+ */
+function readDependencies(rootDir: string): Set<string> {
+  try {
+    const pkg = JSON.parse(fs.readFileSync(path.join(rootDir, "package.json"), "utf-8"));
+    return new Set([
+      ...Object.keys(pkg.dependencies ?? {}),
+      ...Object.keys(pkg.devDependencies ?? {}),
+    ]);
+  } catch {
+    return new Set();
+  }
+}
+
+/**
+ * Add discovered route handlers as API calls unless a call reaches them (matched by the route
+ * trie or already resolved to the handler); returns how many were added
+ */
+function addDiscoveredHandlers(
+  discovered: DiscoveredRouteHandler[],
+  allApiCalls: ScanResult["apiCalls"],
+  freshApiCalls: ScanResult["apiCalls"],
+): number {
+  const newCalls = discoveredHandlersToApiCalls(findUnreachedRoutes(allApiCalls, discovered));
+  allApiCalls.push(...newCalls);
+  freshApiCalls.push(...newCalls);
+  return newCalls.length;
 }
 
 export * from "@api-surface/types";
@@ -199,6 +657,7 @@ export type {
   ConfigFileInput,
   ConfigInput,
   ApiClientConfigInput,
+  PluginConfigInput,
 } from "./config/schema";
 export * from "./scanner";
 export { getFilesInApiDir } from "./scanner/api-dir-resolver";
@@ -206,3 +665,6 @@ export * from "./ast";
 export * from "./detector";
 export * from "./output";
 export * from "./extraction";
+export * from "./plugins";
+export * from "./cache";
+export * from "./workspace";
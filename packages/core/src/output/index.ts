@@ -3,6 +3,7 @@
  */
 
 export * from './normalize';
+export * from './url-template';
 export * from './writer';
 export * from './summary';
 export * from './system-params';
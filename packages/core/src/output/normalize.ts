@@ -2,7 +2,9 @@
  * Result normalization - deduplicate and group API calls
  */
 
-import { ApiCall, NormalizedEndpoint, CallSite } from '@api-surface/types';
+import { ApiCall, NormalizedEndpoint, CallSite, RequestShape, RealtimeEvents } from '@api-surface/types';
+import { canonicalizeUrl, getCanonicalUrlKey, resolveEndpointUrl } from './url-template';
+import { mergeExternalDependencies } from '../extraction/external-dependencies';
 
 export interface NormalizedResult {
   endpoints: NormalizedEndpoint[];
@@ -11,40 +13,100 @@ export interface NormalizedResult {
   byMethod: Record<string, number>;
   bySource: Record<string, number>;
   byConfidence: Record<string, number>;
+  /** Endpoints per workspace package (workspace scans) */
+  byPackage?: Record<string, number>;
 }
 
 /**
  * Normalize API calls by grouping identical endpoints
  */
 export function normalizeResults(apiCalls: ApiCall[]): NormalizedResult {
-  // Create a map keyed by method + URL
+  // Create a map keyed by method + canonical URL (/api/users/{userId} for every spelling of the route)
   const endpointMap = new Map<string, NormalizedEndpoint>();
 
   for (const call of apiCalls) {
-    const key = createEndpointKey(call.method, call.url);
+    const canonical = canonicalizeUrl(call.url, call.baseUrl);
+    const key = createEndpointKey(
+      call.method,
+      getCanonicalUrlKey(canonical),
+      call.graphql?.operationName,
+    );
     
     if (!endpointMap.has(key)) {
       // Create new normalized endpoint
       endpointMap.set(key, {
         method: call.method,
-        url: call.url,
+        url: canonical.path,
         source: call.source,
         callSites: [],
         confidence: call.confidence || 'low',
         callCount: 0,
+        ...(call.graphql ? { graphql: call.graphql } : {}),
+        ...(canonical.baseUrl ? { baseUrl: canonical.baseUrl } : {}),
+        ...(call.clientDefaults ? { clientDefaults: call.clientDefaults } : {}),
+        ...(canonical.pathParams.length > 0 ? { pathParams: canonical.pathParams } : {}),
+        ...(canonical.queryParams.length > 0 ? { queryParams: canonical.queryParams } : {}),
+        ...(call.protocol ? { protocol: call.protocol } : {}),
       });
     }
 
     const endpoint = endpointMap.get(key)!;
+
+    // Declared response type (Angular this.http.get<User[]>) from the first call site that has one
+    if (call.responseType && !endpoint.responseType) {
+      endpoint.responseType = call.responseType;
+    }
+
+    // Merge query params seen at other call sites (?page=1 here, ?sort=asc there, axios params)
+    for (const name of [...canonical.queryParams, ...(call.request?.queryParams ?? [])]) {
+      if (!endpoint.queryParams?.includes(name)) {
+        endpoint.queryParams = [...(endpoint.queryParams ?? []), name];
+      }
+    }
     
-    // Add call site
+    // Add call site (raw URL as written, before canonicalization)
     const callSite: CallSite = {
       file: call.file,
       line: call.line,
       column: call.column,
       confidence: call.confidence,
+      rawUrl: resolveEndpointUrl(call.url, call.baseUrl),
+      ...(call.request ? { request: call.request } : {}),
+      ...(call.consumedResponseFields ? { consumedResponseFields: call.consumedResponseFields } : {}),
+      ...(call.namespace ? { namespace: call.namespace } : {}),
+      ...(call.package ? { package: call.package } : {}),
     };
     endpoint.callSites.push(callSite);
+
+    // Workspace packages calling the endpoint
+    if (call.package && !endpoint.packages?.includes(call.package)) {
+      endpoint.packages = [...(endpoint.packages ?? []), call.package].sort();
+    }
+
+    // Socket.IO events are the union over all connections to the endpoint
+    if (call.events) {
+      endpoint.events = mergeRealtimeEvents(endpoint.events, call.events);
+    }
+
+    // Consumed response shape is the union of the fields read at all call sites
+    if (call.consumedResponseFields) {
+      endpoint.consumedResponseFields = Array.from(
+        new Set([...(endpoint.consumedResponseFields ?? []), ...call.consumedResponseFields]),
+      ).sort();
+    }
+
+    // Outbound SDKs / hosts of the route handler (the same handler for every call site)
+    if (call.externalDependencies) {
+      endpoint.externalDependencies = mergeExternalDependencies(
+        endpoint.externalDependencies,
+        call.externalDependencies,
+      );
+    }
+
+    // Endpoint request shape is the union of all call sites
+    if (call.request) {
+      endpoint.request = mergeRequestShapes(endpoint.request, call.request);
+    }
     endpoint.callCount++;
 
     // Update confidence to highest level
@@ -55,22 +117,32 @@ export function normalizeResults(apiCalls: ApiCall[]): NormalizedResult {
 
   // Convert to array and sort
   const endpoints = Array.from(endpointMap.values()).sort((a, b) => {
-    // Sort by method, then URL
+    // Sort by method, then URL, then base URL, then GraphQL operation name
     if (a.method !== b.method) {
       return a.method.localeCompare(b.method);
     }
-    return a.url.localeCompare(b.url);
+    if (a.url !== b.url) {
+      return a.url.localeCompare(b.url);
+    }
+    if (a.baseUrl !== b.baseUrl) {
+      return (a.baseUrl ?? '').localeCompare(b.baseUrl ?? '');
+    }
+    return (a.graphql?.operationName ?? '').localeCompare(b.graphql?.operationName ?? '');
   });
 
   // Calculate statistics
   const byMethod: Record<string, number> = {};
   const bySource: Record<string, number> = {};
   const byConfidence: Record<string, number> = {};
+  const byPackage: Record<string, number> = {};
 
   for (const endpoint of endpoints) {
     byMethod[endpoint.method] = (byMethod[endpoint.method] || 0) + 1;
     bySource[endpoint.source] = (bySource[endpoint.source] || 0) + 1;
     byConfidence[endpoint.confidence] = (byConfidence[endpoint.confidence] || 0) + 1;
+    for (const pkg of endpoint.packages ?? []) {
+      byPackage[pkg] = (byPackage[pkg] || 0) + 1;
+    }
   }
 
   return {
@@ -80,14 +152,16 @@ export function normalizeResults(apiCalls: ApiCall[]): NormalizedResult {
     byMethod,
     bySource,
     byConfidence,
+    ...(Object.keys(byPackage).length > 0 ? { byPackage } : {}),
   };
 }
 
 /**
- * Create a unique key for an endpoint (method + URL)
+ * Create a unique key for an endpoint (method + URL, plus operation name for GraphQL)
  */
-function createEndpointKey(method: string, url: string): string {
-  return `${method.toUpperCase()}:${url}`;
+export function createEndpointKey(method: string, url: string, operationName?: string): string {
+  const key = `${method.toUpperCase()}:${url}`;
+  return operationName ? `${key}#${operationName}` : key;
 }
 
 /**
@@ -100,3 +174,37 @@ function getHighestConfidence(
   const levels = { low: 0, medium: 1, high: 2 };
   return levels[newConfidence] > levels[current] ? newConfidence : current;
 }
+
+/**
+ * Union of two request shapes; differing body encodings become 'unknown'
+ */
+function mergeRequestShapes(existing: RequestShape | undefined, next: RequestShape): RequestShape {
+  if (!existing) {
+    return { ...next };
+  }
+
+  const merged: RequestShape = {};
+  if (existing.bodyType || next.bodyType) {
+    merged.bodyType =
+      existing.bodyType && next.bodyType && existing.bodyType !== next.bodyType
+        ? 'unknown'
+        : existing.bodyType ?? next.bodyType;
+  }
+  for (const key of ['bodyFields', 'headers', 'queryParams'] as const) {
+    const names = Array.from(new Set([...(existing[key] ?? []), ...(next[key] ?? [])]));
+    if (names.length > 0) {
+      merged[key] = names;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Union of the events sent / received on two connections
+ */
+function mergeRealtimeEvents(existing: RealtimeEvents | undefined, next: RealtimeEvents): RealtimeEvents {
+  return {
+    sent: Array.from(new Set([...(existing?.sent ?? []), ...next.sent])).sort(),
+    received: Array.from(new Set([...(existing?.received ?? []), ...next.received])).sort(),
+  };
+}
@@ -4,6 +4,7 @@
 
 import { ScanResult } from '@api-surface/types';
 import { NormalizedResult, normalizeResults } from './normalize';
+import { resolveEndpointUrl } from './url-template';
 
 /**
  * Format scan results as a terminal summary
@@ -30,6 +31,33 @@ export function formatSummary(scanResult: ScanResult): string {
   }
   lines.push('');
 
+  // Per workspace package, and endpoints called from more than one package
+  if (scanResult.packages && scanResult.packages.length > 0) {
+    lines.push('By Package:');
+    for (const pkg of scanResult.packages) {
+      const calls = scanResult.apiCalls.filter((call) => call.package === pkg.name).length;
+      const endpoints = normalized.byPackage?.[pkg.name] ?? 0;
+      lines.push(
+        `  ${pkg.name.padEnd(24)} ${endpoints} endpoint${endpoints === 1 ? '' : 's'}, ` +
+        `${calls} call${calls === 1 ? '' : 's'}, ${pkg.filesScanned} file${pkg.filesScanned === 1 ? '' : 's'}`
+      );
+    }
+    lines.push('');
+
+    const shared = normalized.endpoints.filter((endpoint) => (endpoint.packages?.length ?? 0) > 1);
+    if (shared.length > 0) {
+      lines.push('Shared Across Packages:');
+      for (const endpoint of shared.slice(0, 10)) {
+        const url = resolveEndpointUrl(endpoint.url, endpoint.baseUrl);
+        lines.push(`  ${endpoint.method.padEnd(8)} ${url.padEnd(40)} ${endpoint.packages!.join(', ')}`);
+      }
+      if (shared.length > 10) {
+        lines.push(`  ... and ${shared.length - 10} more`);
+      }
+      lines.push('');
+    }
+  }
+
   // By method
   if (Object.keys(normalized.byMethod).length > 0) {
     lines.push('By HTTP Method:');
@@ -76,14 +104,63 @@ export function formatSummary(scanResult: ScanResult): string {
     for (const endpoint of topEndpoints) {
       const confidenceEmoji = endpoint.confidence === 'high' ? '✓' : 
                              endpoint.confidence === 'medium' ? '~' : '?';
+      const url = resolveEndpointUrl(endpoint.url, endpoint.baseUrl);
+      const label = endpoint.graphql?.operationName
+        ? `${url} ${endpoint.graphql.operationName}`
+        : url;
       lines.push(
-        `  ${endpoint.method.padEnd(8)} ${endpoint.url.padEnd(40)} ` +
+        `  ${endpoint.method.padEnd(8)} ${label.padEnd(40)} ` +
         `${confidenceEmoji} (${endpoint.callCount} call${endpoint.callCount > 1 ? 's' : ''})`
       );
     }
     lines.push('');
   }
 
+  // Real-time channels (WebSocket, EventSource, Socket.IO)
+  const channels = normalized.endpoints.filter((endpoint) => endpoint.protocol);
+  if (channels.length > 0) {
+    lines.push('Real-time Channels:');
+    for (const channel of channels) {
+      const url = resolveEndpointUrl(channel.url, channel.baseUrl);
+      lines.push(`  ${channel.protocol!.padEnd(8)} ${url}`);
+      if (channel.events?.sent.length) {
+        lines.push(`           emits:  ${channel.events.sent.join(', ')}`);
+      }
+      if (channel.events?.received.length) {
+        lines.push(`           listens: ${channel.events.received.join(', ')}`);
+      }
+    }
+    lines.push('');
+  }
+
+  // Backend route table (framework adapters), with the middleware that runs for each route
+  if (scanResult.routes && scanResult.routes.length > 0) {
+    lines.push(`Route Table (${scanResult.routes.length} handler${scanResult.routes.length === 1 ? '' : 's'}):`);
+    for (const route of scanResult.routes.slice(0, 20)) {
+      const middleware = route.middleware ? `  [${route.middleware.join(', ')}]` : '';
+      lines.push(`  ${route.method.padEnd(8)} ${route.url.padEnd(40)} ${route.discoverer ?? ''}${middleware}`);
+    }
+    if (scanResult.routes.length > 20) {
+      lines.push(`  ... and ${scanResult.routes.length - 20} more`);
+    }
+    lines.push('');
+  }
+
+  // Outbound dependencies of API route handlers (SDKs and external hosts)
+  const routesWithDependencies = normalized.endpoints.filter(
+    (endpoint) => endpoint.externalDependencies?.length,
+  );
+  if (routesWithDependencies.length > 0) {
+    lines.push('External Dependencies:');
+    for (const endpoint of routesWithDependencies) {
+      lines.push(`  ${endpoint.method.padEnd(8)} ${resolveEndpointUrl(endpoint.url, endpoint.baseUrl)}`);
+      for (const dependency of endpoint.externalDependencies!) {
+        lines.push(`           ${dependency.kind.padEnd(5)} ${dependency.name}: ${dependency.operations.join(', ')}`);
+      }
+    }
+    lines.push('');
+  }
+
   // Errors summary
   if (scanResult.errors.length > 0) {
     lines.push('Errors:');
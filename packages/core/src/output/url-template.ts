@@ -0,0 +1,251 @@
+/**
+ * URL canonicalization - turns detected URLs into canonical templates for grouping.
+ *
+ *   `https://api.example.com/users/${user.id}/posts?page=${p}&sort=asc`
+ *   -> baseUrl: "https://api.example.com"
+ *      path: "/users/{userId}/posts"
+ *      pathParams: [{ name: "userId", type: "string", expression: "user.id" }]
+ *      queryParams: ["page", "sort"]
+ *
+ * Also recognises `:id`, `{id}` and `[id]` params, and numeric / UUID literal segments.
+ */
+
+import type { PathParam } from "@api-surface/types";
+
+export interface CanonicalUrl {
+  /** Canonical path template (or the URL unchanged when it is not URL-like, e.g. trpc:user.byId) */
+  path: string;
+  /** Origin or leading base expression split off the path */
+  baseUrl?: string;
+  pathParams: PathParam[];
+  queryParams: string[];
+}
+
+/** Placeholder for an interpolation while the URL is parsed: \u0000<index>\u0001 */
+const PLACEHOLDER_RE = /\u0000(\d+)\u0001/g;
+
+/** URL-like strings: absolute, protocol-relative, root-relative, leading ${base}, or a/b paths */
+const URL_LIKE_RE = /^(?:[a-z][a-z0-9+.-]*:\/\/|\/|\u0000|[\w.~-]+\/)/i;
+
+/** Object names that carry no meaning in a param name: params.id -> id */
+const GENERIC_OBJECT_NAMES = new Set([
+  "params",
+  "props",
+  "query",
+  "this",
+  "router",
+  "args",
+  "data",
+  "input",
+  "req",
+  "request",
+  "ctx",
+  "options",
+  "opts",
+  "payload",
+  "variables",
+  "route",
+]);
+
+/** Call wrappers around a param value: encodeURIComponent(id) -> id */
+const VALUE_WRAPPER_RE = /^(?:encodeURIComponent|encodeURI|String|Number|parseInt)\((.*)\)$/;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Join a client base URL with a request URL (absolute request URLs ignore the base, as in axios)
+ */
+export function resolveEndpointUrl(url: string, baseUrl?: string): string {
+  if (!baseUrl || /^[a-z][a-z0-9+.-]*:\/\//i.test(url)) {
+    return url;
+  }
+  return `${baseUrl.replace(/\/+$/, "")}/${url.replace(/^\/+/, "")}`;
+}
+
+/**
+ * Canonicalize a detected URL (optionally relative to a client base URL)
+ */
+export function canonicalizeUrl(rawUrl: string, clientBaseUrl?: string): CanonicalUrl {
+  const { text, expressions } = extractInterpolations(
+    resolveEndpointUrl(rawUrl, clientBaseUrl),
+  );
+  if (!URL_LIKE_RE.test(text)) {
+    return { path: rawUrl, pathParams: [], queryParams: [] };
+  }
+
+  const restore = (value: string) =>
+    value.replace(PLACEHOLDER_RE, (_, index) => `\${${expressions[Number(index)]}}`);
+
+  // Drop the fragment, split off the query string
+  const withoutHash = text.split("#")[0];
+  const queryIndex = withoutHash.indexOf("?");
+  let pathText = queryIndex >= 0 ? withoutHash.slice(0, queryIndex) : withoutHash;
+  const queryText = queryIndex >= 0 ? withoutHash.slice(queryIndex + 1) : "";
+
+  // Origin (https://host, //host) or a leading base expression (${API_URL}/users)
+  let baseUrl: string | undefined;
+  const originMatch =
+    /^(?:[a-z][a-z0-9+.-]*:)?\/\/[^/]*/i.exec(pathText) ??
+    /^\u0000\d+\u0001(?=\/|$)/.exec(pathText);
+  if (originMatch) {
+    baseUrl = restore(originMatch[0]);
+    pathText = pathText.slice(originMatch[0].length);
+  }
+
+  const pathParams: PathParam[] = [];
+  const usedNames = new Set<string>();
+  const segments = pathText.split("/").filter(Boolean);
+  const canonicalSegments = segments.map((segment, index) => {
+    const previous = index > 0 ? segments[index - 1] : undefined;
+    return canonicalizeSegment(segment, previous, expressions, pathParams, usedNames);
+  });
+
+  return {
+    path: `/${canonicalSegments.join("/")}`,
+    ...(baseUrl ? { baseUrl } : {}),
+    pathParams,
+    queryParams: parseQueryParams(queryText),
+  };
+}
+
+/**
+ * Grouping form of a canonical URL: param names are dropped so every spelling of a route matches
+ * (/users/${id} and /users/${user.id} -> /users/{})
+ */
+export function getCanonicalUrlKey(canonical: CanonicalUrl): string {
+  return `${canonical.baseUrl ?? ""}${canonical.path.replace(/\{[^}]*\}/g, "{}")}`;
+}
+
+/**
+ * Replace ${...} interpolations (with nested braces) by placeholders
+ */
+function extractInterpolations(url: string): { text: string; expressions: string[] } {
+  const expressions: string[] = [];
+  let text = "";
+  let index = 0;
+  while (index < url.length) {
+    if (url[index] === "$" && url[index + 1] === "{") {
+      let depth = 1;
+      let end = index + 2;
+      while (end < url.length && depth > 0) {
+        if (url[end] === "{") depth++;
+        else if (url[end] === "}") depth--;
+        end++;
+      }
+      expressions.push(url.slice(index + 2, end - 1).trim());
+      text += `\u0000${expressions.length - 1}\u0001`;
+      index = end;
+    } else {
+      text += url[index];
+      index++;
+    }
+  }
+  return { text, expressions };
+}
+
+function canonicalizeSegment(
+  segment: string,
+  previous: string | undefined,
+  expressions: string[],
+  pathParams: PathParam[],
+  usedNames: Set<string>,
+): string {
+  const addParam = (baseName: string, type: PathParam["type"], expression?: string) => {
+    const name = uniqueName(baseName, usedNames);
+    pathParams.push({ name, type, ...(expression !== undefined ? { expression } : {}) });
+    return `{${name}}`;
+  };
+
+  // Interpolations: users/${user.id}, files/${name}.json
+  if (segment.includes("\u0000")) {
+    return segment.replace(PLACEHOLDER_RE, (_, index) => {
+      const expression = expressions[Number(index)];
+      return addParam(nameFromExpression(expression, previous), "string", expression);
+    });
+  }
+
+  // Express / OpenAPI / Next.js style params: :id, {id}, [id], [...slug], [[...slug]]
+  const namedMatch = /^(?::(\w+)|\{(\w+)\}|\[(?:\.\.\.)?(\w+)\]|\[\[\.\.\.(\w+)\]\])$/.exec(segment);
+  if (namedMatch) {
+    return addParam(namedMatch[1] ?? namedMatch[2] ?? namedMatch[3] ?? namedMatch[4], "string");
+  }
+
+  // Literal ids: /users/42, /orders/3fa85f64-5717-4562-b3fc-2c963f66afa6
+  if (previous !== undefined && /^\d+$/.test(segment)) {
+    return addParam(nameFromSegment(previous), "number");
+  }
+  if (UUID_RE.test(segment)) {
+    return addParam(nameFromSegment(previous), "uuid");
+  }
+
+  return segment;
+}
+
+/**
+ * Param name from the interpolated expression: user.id -> userId, params.slug -> slug,
+ * encodeURIComponent(postId) -> postId; other expressions use the previous segment (users -> userId)
+ */
+function nameFromExpression(expression: string, previous: string | undefined): string {
+  let value = expression.replace(/\?\./g, ".").replace(/!/g, "").trim();
+  let wrapped = VALUE_WRAPPER_RE.exec(value);
+  while (wrapped) {
+    value = wrapped[1].split(",")[0].trim();
+    wrapped = VALUE_WRAPPER_RE.exec(value);
+  }
+  value = value.replace(/\.toString\(\)$/, "");
+
+  if (/^[\w$]+(?:\.[\w$]+)*$/.test(value)) {
+    const parts = value.split(".");
+    while (parts.length > 1 && GENERIC_OBJECT_NAMES.has(parts[0])) {
+      parts.shift();
+    }
+    const last = parts[parts.length - 1];
+    if (parts.length >= 2 && /^(?:id|uuid|slug|key)$/i.test(last)) {
+      return `${parts[parts.length - 2]}${capitalize(last)}`;
+    }
+    return last.replace(/\$/g, "") || "param";
+  }
+  return nameFromSegment(previous);
+}
+
+/** users -> userId, categories -> categoryId */
+function nameFromSegment(segment: string | undefined): string {
+  if (!segment || !/^[a-z][\w-]*$/i.test(segment)) {
+    return "param";
+  }
+  const camel = segment.replace(/-(\w)/g, (_, c: string) => c.toUpperCase());
+  const singular = camel.endsWith("ies")
+    ? `${camel.slice(0, -3)}y`
+    : camel.length > 3 && camel.endsWith("s") && !camel.endsWith("ss")
+      ? camel.slice(0, -1)
+      : camel;
+  return `${singular}Id`;
+}
+
+function uniqueName(baseName: string, usedNames: Set<string>): string {
+  let name = baseName;
+  let suffix = 2;
+  while (usedNames.has(name)) {
+    name = `${baseName}${suffix++}`;
+  }
+  usedNames.add(name);
+  return name;
+}
+
+/**
+ * Static query parameter names: page=${p}&sort=asc -> ["page", "sort"]
+ */
+function parseQueryParams(queryText: string): string[] {
+  const names: string[] = [];
+  for (const pair of queryText.split("&")) {
+    const key = pair.split("=")[0].trim();
+    // Dynamic query strings (?${qs}) have no static names
+    if (!key || /\u0000/.test(key) || names.includes(key)) continue;
+    names.push(key);
+  }
+  return names;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
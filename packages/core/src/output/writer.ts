@@ -4,9 +4,34 @@
 
 import * as fs from "fs/promises";
 import * as path from "path";
-import { ScanResult, ApiCall } from "@api-surface/types";
-import type { RequiredSystemParam } from "@api-surface/types";
-import { NormalizedResult, normalizeResults } from "./normalize";
+import { ScanResult, ApiCall, BackendRoute } from "@api-surface/types";
+import type {
+  RequiredSystemParam,
+  GraphQLOperationInfo,
+  ClientDefaults,
+  PathParam,
+  RequestShape,
+  ApiProtocol,
+  RealtimeEvents,
+  ExternalDependency,
+} from "@api-surface/types";
+import {
+  NormalizedResult,
+  normalizeResults,
+  createEndpointKey,
+} from "./normalize";
+import {
+  canonicalizeUrl,
+  getCanonicalUrlKey,
+  resolveEndpointUrl,
+} from "./url-template";
+import {
+  buildConsumedResponseSchema,
+  type ConsumedResponseSchema,
+} from "../extraction/response-usage";
+import { mergeExternalDependencies } from "../extraction/external-dependencies";
+import { TRPC_URL_PREFIX } from "../detector/trpc-router";
+import { parseServerActionUrl } from "../detector/server-action";
 
 /**
  * Per-endpoint JSON shape when writing one file per endpoint (function code storage).
@@ -14,16 +39,43 @@ import { NormalizedResult, normalizeResults } from "./normalize";
  */
 export interface EndpointFunctionCodePayload {
   method: string;
+  /** Canonical path template (/api/users/{userId}) */
   url: string;
+  /** GraphQL operation details when the endpoint is a GraphQL operation */
+  graphql?: GraphQLOperationInfo;
+  /** Origin / client base URL split off the path, and client instance defaults (axios.create) */
+  baseUrl?: string;
+  clientDefaults?: ClientDefaults;
+  pathParams?: PathParam[];
+  queryParams?: string[];
+  /** Response fields read by the frontend, as a schema comparable with an action's responseSchema */
+  consumedResponse?: ConsumedResponseSchema;
+  /** Real-time transport and Socket.IO events (WebSocket / EventSource / Socket.IO endpoints) */
+  protocol?: ApiProtocol;
+  events?: RealtimeEvents;
+  /** Declared response type (generic argument, e.g. "User[]") */
+  responseType?: string;
+  /** SDKs and external hosts called by the route handler */
+  externalDependencies?: ExternalDependency[];
+  /** Workspace packages with call sites of the endpoint (workspace scans) */
+  packages?: string[];
   callSites: Array<{
     file: string;
     line: number;
     column: number;
     confidence?: string;
+    /** URL as written at this call site */
+    rawUrl?: string;
+    /** Body / headers / query names sent at this call site */
+    request?: RequestShape;
+    package?: string;
+    /** Response field paths read at this call site */
+    consumedResponseFields?: string[];
     functionName?: string;
     functionFile?: string;
     functionCode?: string | null;
     functionResolutionConfidence?: string;
+    routeParams?: string[];
   }>;
 }
 
@@ -34,10 +86,23 @@ export interface EndpointFunctionCodePayload {
 export interface ApiFunctionOnlyPayload {
   method: string;
   url: string;
+  graphql?: GraphQLOperationInfo;
+  baseUrl?: string;
+  pathParams?: PathParam[];
+  queryParams?: string[];
+  consumedResponse?: ConsumedResponseSchema;
+  protocol?: ApiProtocol;
+  events?: RealtimeEvents;
+  responseType?: string;
+  externalDependencies?: ExternalDependency[];
+  /** Workspace package of the route handler (workspace scans) */
+  package?: string;
   functionName?: string;
   functionFile?: string;
   functionCode?: string | null;
   functionResolutionConfidence?: string;
+  /** Dynamic segment names of the route handler (["id"] for users/[id]/route.ts) */
+  routeParams?: string[];
 }
 
 export interface WriteOptions {
@@ -55,12 +120,18 @@ export interface OutputData {
     byMethod: Record<string, number>;
     bySource: Record<string, number>;
     byConfidence: Record<string, number>;
+    /** Endpoints per workspace package (workspace scans) */
+    byPackage?: Record<string, number>;
   };
   endpoints: NormalizedResult["endpoints"];
   errors?: ScanResult["errors"];
   rawCalls?: ScanResult["apiCalls"];
   /** Required system parameters (e.g. env vars) inferred from route handlers, with optional descriptions. */
   requiredSystemParams?: RequiredSystemParam[];
+  /** Per-package scan statistics (workspace scans) */
+  packages?: ScanResult["packages"];
+  /** Backend route table from route discoverers (framework adapters) */
+  routes?: ScanResult["routes"];
 }
 
 /**
@@ -83,8 +154,11 @@ export async function writeResults(
       byMethod: normalized.byMethod,
       bySource: normalized.bySource,
       byConfidence: normalized.byConfidence,
+      ...(normalized.byPackage ? { byPackage: normalized.byPackage } : {}),
     },
     endpoints: normalized.endpoints,
+    ...(scanResult.packages ? { packages: scanResult.packages } : {}),
+    ...(scanResult.routes ? { routes: scanResult.routes } : {}),
   };
 
   // Include errors if any
@@ -133,7 +207,11 @@ function endpointToSafeFilename(method: string, url: string): string {
  * (method, url, functionName, functionFile, functionCode) with no frontend call sites.
  * When apiRoutesDir and rootDir are set, only writes endpoints whose handler was resolved
  * from that directory (functionFile under rootDir/apiRoutesDir); skips external URLs and
- * callers outside the API directory.
+ * callers outside the API directory. tRPC procedures resolved from the app router, server
+ * actions resolved to their "use server" function and handlers of the route table (`routes`,
+ * e.g. Express or Fastify handlers outside apiRoutesDir) are kept.
+ * Workspace scans pass apiRoutesRoots (the API directory of every package) instead.
+ * Returns the filenames written (files whose content is unchanged are not rewritten).
  */
 export async function writeFunctionCodePerEndpoint(
   apiCalls: ApiCall[],
@@ -145,8 +223,12 @@ export async function writeFunctionCodePerEndpoint(
     apiRoutesDir?: string;
     /** Project root; used with apiRoutesDir to filter by functionFile path */
     rootDir?: string;
+    /** Absolute API route directories (workspace scans: one per package); replaces apiRoutesDir + rootDir */
+    apiRoutesRoots?: string[];
+    /** Route table of the scan (ScanResult.routes); its handlers are API functions wherever they live */
+    routes?: BackendRoute[];
   },
-): Promise<void> {
+): Promise<string[]> {
   const pretty = options?.pretty !== false;
   const apiFunctionOnly = options?.apiFunctionOnly === true;
   const apiRoutesDir = options?.apiRoutesDir;
@@ -155,66 +237,191 @@ export async function writeFunctionCodePerEndpoint(
   await fs.mkdir(resolvedDir, { recursive: true });
 
   /** Only include endpoints whose handler was resolved from apiRoutesDir (under rootDir/apiRoutesDir). */
-  const apiRoutesAbsolute =
-    apiRoutesDir && rootDir
-      ? path.normalize(path.resolve(rootDir, apiRoutesDir)) + path.sep
-      : "";
+  const apiRoutesAbsolute = (
+    options?.apiRoutesRoots ??
+    (apiRoutesDir && rootDir ? [path.resolve(rootDir, apiRoutesDir)] : [])
+  ).map((dir) => path.normalize(dir) + path.sep);
 
+  const written: string[] = [];
   const endpointMap = new Map<string, ApiCall[]>();
   for (const call of apiCalls) {
-    const key = `${call.method.toUpperCase()}:${call.url}`;
+    const key = createEndpointKey(
+      call.method,
+      getCanonicalUrlKey(canonicalizeUrl(call.url, call.baseUrl)),
+      call.graphql?.operationName,
+    );
     if (!endpointMap.has(key)) {
       endpointMap.set(key, []);
     }
     endpointMap.get(key)!.push(call);
   }
 
+  const routeHandlers = new Set(
+    (options?.routes ?? []).map(
+      (route) => `${path.normalize(route.functionFile)}#${route.functionName}`,
+    ),
+  );
+
+  /**
+   * Handler resolved from an API routes dir or in the route table; tRPC procedures resolved from
+   * the app router and server actions resolved to their "use server" function are API functions too
+   */
+  const isResolvedFromApi = (call: ApiCall): boolean => {
+    const functionFile = call.functionFile && path.normalize(call.functionFile);
+    return (
+      (!!functionFile &&
+        apiRoutesAbsolute.some((dir) => functionFile.startsWith(dir))) ||
+      (!!functionFile && routeHandlers.has(`${functionFile}#${call.functionName}`)) ||
+      (call.url.startsWith(TRPC_URL_PREFIX) &&
+        call.functionName === call.url.slice(TRPC_URL_PREFIX.length)) ||
+      (!!functionFile &&
+        call.functionName === parseServerActionUrl(call.url)?.exportName)
+    );
+  };
+
   for (const [, calls] of endpointMap) {
-    const first = calls[0];
-    if (apiFunctionOnly && apiRoutesAbsolute) {
-      const resolvedFromApi =
-        first.functionFile &&
-        path.normalize(first.functionFile).startsWith(apiRoutesAbsolute);
-      if (!resolvedFromApi) continue;
+    let first = calls[0];
+    if (apiFunctionOnly && apiRoutesAbsolute.length > 0) {
+      // Workspace scans: the handler may be found in another package than the first caller
+      const handlerCall = calls.find(isResolvedFromApi);
+      if (!handlerCall) continue;
+      first = handlerCall;
     }
 
     const method = first.method;
-    const url = first.url;
-    const filename = endpointToSafeFilename(method, url);
+    const canonical = canonicalizeUrl(first.url, first.baseUrl);
+    const url = canonical.path;
+    const resolvedUrl = `${canonical.baseUrl ?? ""}${url}`;
+    const filename = endpointToSafeFilename(
+      method,
+      first.graphql?.operationName
+        ? `${resolvedUrl}_${first.graphql.operationName}`
+        : resolvedUrl,
+    );
+    const templateFields = {
+      ...(canonical.baseUrl ? { baseUrl: canonical.baseUrl } : {}),
+      ...(canonical.pathParams.length > 0
+        ? { pathParams: canonical.pathParams }
+        : {}),
+      ...(canonical.queryParams.length > 0
+        ? { queryParams: canonical.queryParams }
+        : {}),
+    };
+    // Union of response fields read at every call site of the endpoint
+    const consumedFields = Array.from(
+      new Set(calls.flatMap((c) => c.consumedResponseFields ?? [])),
+    ).sort();
+    const consumedField =
+      consumedFields.length > 0
+        ? { consumedResponse: buildConsumedResponseSchema(consumedFields) }
+        : {};
+    // Real-time endpoints: protocol and the events used on any connection
+    const sentEvents = new Set(calls.flatMap((c) => c.events?.sent ?? []));
+    const receivedEvents = new Set(
+      calls.flatMap((c) => c.events?.received ?? []),
+    );
+    const channelFields = {
+      ...(first.protocol ? { protocol: first.protocol } : {}),
+      ...(sentEvents.size > 0 || receivedEvents.size > 0
+        ? {
+            events: {
+              sent: Array.from(sentEvents).sort(),
+              received: Array.from(receivedEvents).sort(),
+            },
+          }
+        : {}),
+    };
+    // Declared response type (Angular generic argument) from the first call that has one
+    const responseType = calls.find((c) => c.responseType)?.responseType;
+    const responseTypeField = responseType ? { responseType } : {};
+    // Outbound SDKs / hosts of the route handler serving the endpoint
+    const externalDependencies = calls.reduce<ExternalDependency[] | undefined>(
+      (merged, c) =>
+        c.externalDependencies ? mergeExternalDependencies(merged, c.externalDependencies) : merged,
+      undefined,
+    );
+    const dependencyField = externalDependencies ? { externalDependencies } : {};
+    const packages = Array.from(
+      new Set(calls.flatMap((c) => (c.package ? [c.package] : []))),
+    ).sort();
     const filePath = path.join(resolvedDir, filename);
+    written.push(filename);
 
     if (apiFunctionOnly) {
       const payload: ApiFunctionOnlyPayload = {
         method,
         url,
+        ...(first.graphql ? { graphql: first.graphql } : {}),
+        ...templateFields,
+        ...consumedField,
+        ...channelFields,
+        ...responseTypeField,
+        ...dependencyField,
+        ...(first.package ? { package: first.package } : {}),
         functionName: first.functionName,
         functionFile: first.functionFile,
         functionCode: first.functionCode,
         functionResolutionConfidence: first.functionResolutionConfidence,
+        ...(first.routeParams ? { routeParams: first.routeParams } : {}),
       };
       const json = pretty
         ? JSON.stringify(payload, null, 2)
         : JSON.stringify(payload);
-      await fs.writeFile(filePath, json, "utf-8");
+      await writeFileIfChanged(filePath, json);
     } else {
       const payload: EndpointFunctionCodePayload = {
         method,
         url,
+        ...(first.graphql ? { graphql: first.graphql } : {}),
+        ...templateFields,
+        ...(first.clientDefaults
+          ? { clientDefaults: first.clientDefaults }
+          : {}),
+        ...consumedField,
+        ...channelFields,
+        ...responseTypeField,
+        ...dependencyField,
+        ...(packages.length > 0 ? { packages } : {}),
         callSites: calls.map((c) => ({
           file: c.file,
           line: c.line,
           column: c.column,
           confidence: c.confidence,
+          rawUrl: resolveEndpointUrl(c.url, c.baseUrl),
+          ...(c.request ? { request: c.request } : {}),
+          ...(c.package ? { package: c.package } : {}),
+          ...(c.consumedResponseFields
+            ? { consumedResponseFields: c.consumedResponseFields }
+            : {}),
           functionName: c.functionName,
           functionFile: c.functionFile,
           functionCode: c.functionCode,
           functionResolutionConfidence: c.functionResolutionConfidence,
+          ...(c.routeParams ? { routeParams: c.routeParams } : {}),
         })),
       };
       const json = pretty
         ? JSON.stringify(payload, null, 2)
         : JSON.stringify(payload);
-      await fs.writeFile(filePath, json, "utf-8");
+      await writeFileIfChanged(filePath, json);
+    }
+  }
+  return written;
+}
+
+/**
+ * Write a file unless it already has this content (keeps mtimes stable for watchers of the output)
+ */
+async function writeFileIfChanged(
+  filePath: string,
+  content: string,
+): Promise<void> {
+  try {
+    if ((await fs.readFile(filePath, "utf-8")) === content) {
+      return;
     }
+  } catch {
+    // Missing file - write it
   }
+  await fs.writeFile(filePath, content, "utf-8");
 }
@@ -0,0 +1,6 @@
+/**
+ * Plugin module exports
+ */
+
+export * from "./plugin";
+export * from "./loader";
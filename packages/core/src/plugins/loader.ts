@@ -0,0 +1,181 @@
+/**
+ * Plugin loader - resolves plugin modules from config and normalizes their exports
+ */
+
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { PluginConfig, ScanConfig } from "@api-surface/types";
+import { Detector } from "../detector/detector";
+import { ScanPlugin } from "./plugin";
+
+/**
+ * import() that stays a dynamic import in the CommonJS build: TypeScript compiles `import()` to
+ * require(), which cannot load ES module plugins (.mjs files, "type": "module" packages)
+ */
+const importModule = new Function("specifier", "return import(specifier)") as (
+  specifier: string,
+) => Promise<Record<string, unknown>>;
+
+/**
+ * Load all plugins listed in config.plugins (in order)
+ */
+export async function loadPlugins(config: ScanConfig): Promise<ScanPlugin[]> {
+  const plugins: ScanPlugin[] = [];
+  for (const entry of config.plugins ?? []) {
+    plugins.push(await loadPlugin(entry, config));
+  }
+  return plugins;
+}
+
+/**
+ * Load one plugin: "package-name", "./local/file.js" or { module, options }
+ */
+export async function loadPlugin(
+  entry: PluginConfig,
+  config: ScanConfig,
+): Promise<ScanPlugin> {
+  const specifier = typeof entry === "string" ? entry : entry.module;
+  const options = typeof entry === "string" ? {} : entry.options ?? {};
+
+  let exported: unknown;
+  try {
+    const modulePath = resolvePluginPath(specifier, config.rootDir);
+    const pluginModule = await importModule(pathToFileURL(require.resolve(modulePath)).href);
+    // Support both default export and module.exports (import() of CommonJS gives { default: module.exports })
+    exported = pluginModule.default ?? pluginModule;
+    if (isCompiledEsModule(exported)) {
+      // CommonJS compiled from ES modules: module.exports = { __esModule: true, default: plugin }
+      exported = exported.default;
+    }
+  } catch (error) {
+    throw new Error(
+      `Failed to load plugin "${specifier}": ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  return toScanPlugin(exported, specifier, options, config);
+}
+
+/**
+ * Source files of a loaded plugin: its entry module and the modules it required that are not
+ * installed packages (a local plugin's helpers, a linked workspace package). Their contents are
+ * part of the scan cache fingerprint, so editing a plugin invalidates cached results. Modules an
+ * ES module plugin imports are not tracked (only CommonJS modules are in require.cache).
+ */
+export function getPluginModuleFiles(entry: PluginConfig, rootDir: string): string[] {
+  const specifier = typeof entry === "string" ? entry : entry.module;
+  let entryPath: string;
+  try {
+    entryPath = require.resolve(resolvePluginPath(specifier, rootDir));
+  } catch {
+    return [];
+  }
+
+  // Installed dependencies of the plugin (ts-morph, ...) are covered by its own version
+  const entryDir = path.dirname(entryPath) + path.sep;
+  const isOwnFile = (file: string): boolean =>
+    file.startsWith(entryDir) || !file.split(path.sep).includes("node_modules");
+
+  const files = new Set<string>([entryPath]);
+  const visit = (module: NodeModule | undefined): void => {
+    for (const child of module?.children ?? []) {
+      if (files.has(child.filename) || !isOwnFile(child.filename)) {
+        continue;
+      }
+      files.add(child.filename);
+      visit(child);
+    }
+  };
+  visit(require.cache[entryPath]);
+  return Array.from(files).sort();
+}
+
+/**
+ * module.exports of a CommonJS module compiled from ES module source (TypeScript, Babel)
+ */
+function isCompiledEsModule(value: unknown): value is { default: unknown } {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as { __esModule?: boolean }).__esModule === true &&
+    "default" in value
+  );
+}
+
+/**
+ * Local files resolve against rootDir; package names resolve from rootDir's node_modules,
+ * then from the scanner's own install (framework adapters shipped with the CLI)
+ */
+function resolvePluginPath(specifier: string, rootDir: string): string {
+  if (specifier.startsWith(".") || path.isAbsolute(specifier)) {
+    return path.resolve(rootDir, specifier);
+  }
+  return require.resolve(specifier, { paths: [rootDir, __dirname] });
+}
+
+/**
+ * Normalize a plugin module export to a ScanPlugin
+ */
+async function toScanPlugin(
+  exported: unknown,
+  specifier: string,
+  options: Record<string, unknown>,
+  config: ScanConfig,
+): Promise<ScanPlugin> {
+  let value = exported;
+
+  if (typeof value === "function") {
+    if (isDetectorClass(value)) {
+      // export default class AcmeDetector implements Detector { ... }
+      value = new (value as new (opts: Record<string, unknown>) => Detector)(options);
+    } else {
+      // export default (options, config) => detector | detectors | plugin
+      value = await (value as (opts: Record<string, unknown>, cfg: ScanConfig) => unknown)(
+        options,
+        config,
+      );
+    }
+  }
+
+  if (isDetector(value)) {
+    return { name: specifier, detectors: [value] };
+  }
+  if (Array.isArray(value) && value.every(isDetector)) {
+    return { name: specifier, detectors: value };
+  }
+  if (isScanPlugin(value)) {
+    return { ...value, name: value.name || specifier };
+  }
+
+  throw new Error(
+    `Plugin "${specifier}" must export a Detector, an array of Detectors, a Detector class, ` +
+      `a plugin object ({ detectors, routeDiscoverers, beforeScan, afterFile, afterScan }) or a factory returning one of these`,
+  );
+}
+
+function isDetector(value: unknown): value is Detector {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    typeof (value as Detector).id === "string" &&
+    typeof (value as Detector).detect === "function"
+  );
+}
+
+function isDetectorClass(value: Function): boolean {
+  return typeof value.prototype?.detect === "function";
+}
+
+function isScanPlugin(value: unknown): value is ScanPlugin {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return false;
+  }
+  const plugin = value as ScanPlugin;
+  return (
+    Array.isArray(plugin.detectors) ||
+    Array.isArray(plugin.routeDiscoverers) ||
+    typeof plugin.beforeScan === "function" ||
+    typeof plugin.afterFile === "function" ||
+    typeof plugin.afterScan === "function"
+  );
+}
@@ -0,0 +1,62 @@
+/**
+ * Plugin interface and types
+ */
+
+import { ApiCall, ScanConfig, ScanResult } from "@api-surface/types";
+import { AstContext } from "../ast/context";
+import { Detector } from "../detector/detector";
+import { RouteDiscoverer } from "../extraction/route-discoverer";
+
+/**
+ * Scan plugin - extra detectors plus optional lifecycle hooks
+ */
+export interface ScanPlugin {
+  /**
+   * Plugin name (defaults to the module specifier it was loaded from)
+   */
+  readonly name: string;
+
+  /**
+   * Detectors registered with the DetectorRegistry (ids must not collide)
+   */
+  detectors?: Detector[];
+
+  /**
+   * Backend route discoverers (framework adapters); their routes form ScanResult.routes
+   */
+  routeDiscoverers?: RouteDiscoverer[];
+
+  /**
+   * Called before files are collected; may adjust the scan config
+   */
+  beforeScan?(config: ScanConfig): void | Promise<void>;
+
+  /**
+   * Called after detectors ran on a file; return an array to replace the file's API calls
+   */
+  afterFile?(
+    filePath: string,
+    apiCalls: ApiCall[],
+    context: AstContext,
+  ): ApiCall[] | void | Promise<ApiCall[] | void>;
+
+  /**
+   * Called with the final result; return a result to replace it
+   */
+  afterScan?(result: ScanResult): ScanResult | void | Promise<ScanResult | void>;
+}
+
+/**
+ * What a plugin module may export (default or module.exports):
+ * a Detector, an array of Detectors, a Detector class (constructed with the options),
+ * a ScanPlugin, or a factory (options, config) => any of the above.
+ */
+export type PluginExport =
+  | Detector
+  | Detector[]
+  | ScanPlugin
+  | (new (options: Record<string, unknown>) => Detector)
+  | ((
+      options: Record<string, unknown>,
+      config: ScanConfig,
+    ) => Detector | Detector[] | ScanPlugin | Promise<Detector | Detector[] | ScanPlugin>);
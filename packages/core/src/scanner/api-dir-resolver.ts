@@ -10,8 +10,6 @@ import * as path from "path";
 import type { AstParser } from "../ast/parser";
 import type { AstContext } from "../ast/context";
 
-const DEFAULT_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs"];
-
 export interface ApiDirResolutionResult {
   /** All files under the API directory */
   apiDirFiles: string[];
@@ -21,76 +19,6 @@ export interface ApiDirResolutionResult {
   allFiles: string[];
 }
 
-/**
- * Resolve a relative module specifier to an absolute file path.
- * Tries the exact path, then with extensions, then as directory with index.
- */
-function resolveRelativeSpecifier(
-  specifier: string,
-  fromFile: string,
-  rootDir: string
-): string | null {
-  if (!specifier.startsWith(".")) return null;
-  const fromDir = path.dirname(fromFile);
-  const resolved = path.resolve(fromDir, specifier);
-  const normalizedRoot = path.resolve(rootDir);
-  if (!resolved.startsWith(normalizedRoot)) return null;
-
-  if (fs.existsSync(resolved)) {
-    const stat = fs.statSync(resolved);
-    if (stat.isFile()) return resolved;
-    if (stat.isDirectory()) {
-      for (const ext of DEFAULT_EXTENSIONS) {
-        const indexPath = path.join(resolved, `index${ext}`);
-        if (fs.existsSync(indexPath)) return indexPath;
-      }
-    }
-    return null;
-  }
-
-  for (const ext of DEFAULT_EXTENSIONS) {
-    const withExt = resolved + ext;
-    if (fs.existsSync(withExt)) return withExt;
-  }
-
-  return null;
-}
-
-/**
- * Try to resolve path alias (e.g. @/lib/foo) using rootDir.
- * Common pattern: @/ -> rootDir or rootDir/src
- */
-function resolvePathAlias(
-  specifier: string,
-  rootDir: string
-): string | null {
-  const normalizedRoot = path.resolve(rootDir);
-  let candidate: string | undefined;
-  if (specifier.startsWith("@/")) {
-    candidate = path.join(normalizedRoot, specifier.slice(2));
-  } else if (specifier.startsWith("~/")) {
-    candidate = path.join(normalizedRoot, specifier.slice(2));
-  } else {
-    return null;
-  }
-  if (!candidate.startsWith(normalizedRoot)) return null;
-  if (fs.existsSync(candidate)) {
-    const stat = fs.statSync(candidate);
-    if (stat.isFile()) return candidate;
-    if (stat.isDirectory()) {
-      for (const ext of DEFAULT_EXTENSIONS) {
-        const indexPath = path.join(candidate, `index${ext}`);
-        if (fs.existsSync(indexPath)) return indexPath;
-      }
-    }
-  }
-  for (const ext of DEFAULT_EXTENSIONS) {
-    const withExt = candidate + ext;
-    if (fs.existsSync(withExt)) return withExt;
-  }
-  return null;
-}
-
 /**
  * Get all files under the API routes directory (same extensions as main scan).
  */
@@ -134,26 +62,15 @@ export async function getApiDirFilesWithRelated(
 
     const imports = context.getImports();
     for (const imp of imports) {
-      const specifier = imp.moduleSpecifier;
-      let resolved: string | null = null;
-
-      if (specifier.startsWith(".")) {
-        resolved = resolveRelativeSpecifier(specifier, filePath, rootDir);
-      } else if (specifier.startsWith("@/") || specifier.startsWith("~/")) {
-        resolved = resolvePathAlias(specifier, rootDir);
-      }
-      if (!resolved && !specifier.startsWith(".") && !path.isAbsolute(specifier)) {
-        try {
-          resolved = context.resolveImportPath(specifier);
-        } catch {
-          // ignore
-        }
-      }
-      if (resolved && resolved.startsWith(normalizedRoot) && fs.existsSync(resolved)) {
-        const stat = fs.statSync(resolved);
-        if (stat.isFile()) {
-          relatedSet.add(resolved);
-        }
+      // Relative paths, tsconfig paths / baseUrl aliases, package.json imports (shared module resolver)
+      const resolved = context.resolveImportPath(imp.moduleSpecifier);
+      if (
+        resolved &&
+        resolved.startsWith(normalizedRoot) &&
+        !resolved.includes(`${path.sep}node_modules${path.sep}`) &&
+        !resolved.endsWith(".d.ts")
+      ) {
+        relatedSet.add(resolved);
       }
     }
   }
@@ -42,7 +42,7 @@ export async function scanFiles(config: ScanConfig): Promise<FileScanResult> {
   // Build include patterns - use config or defaults
   const includePatterns = include && include.length > 0 
     ? include 
-    : ['**/*.{js,jsx,ts,tsx}'];
+    : ['**/*.{js,jsx,ts,tsx,vue,svelte,astro}'];
 
   // Build exclude patterns - merge defaults with config excludes
   const excludePatterns = [
@@ -97,5 +97,5 @@ export function getFileExtension(filePath: string): string {
  */
 export function isSupportedFile(filePath: string): boolean {
   const ext = getFileExtension(filePath);
-  return ['.js', '.jsx', '.ts', '.tsx', '.mjs', '.cjs'].includes(ext);
+  return ['.js', '.jsx', '.ts', '.tsx', '.mjs', '.cjs', '.vue', '.svelte', '.astro'].includes(ext);
 }
@@ -4,3 +4,4 @@
 
 export * from './file-scanner';
 export * from './api-dir-resolver';
+export * from './parallel-scan';
@@ -0,0 +1,91 @@
+/**
+ * Parallel scanning - shards files across worker_threads, each running its own ApiScanner
+ * (own AstParser / ts-morph Project), and merges the per-file results in input order.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Worker } from "worker_threads";
+import { ApiCall, ScanConfig } from "@api-surface/types";
+
+/** Detection result of one file */
+export interface FileAnalysisResult {
+  file: string;
+  apiCalls: ApiCall[];
+  /** false when the file could not be parsed */
+  parsed: boolean;
+  /** Error message when detection failed for this file */
+  error?: string;
+}
+
+/** Data passed to each worker */
+export interface ScanWorkerData {
+  config: ScanConfig;
+  files: string[];
+}
+
+/** Fewer files than this per worker is not worth a worker's project startup */
+const MIN_FILES_PER_WORKER = 50;
+
+/** Compiled worker entry next to this module (absent when running from TypeScript sources) */
+const WORKER_FILE = path.join(__dirname, "scan-worker.js");
+
+/**
+ * Default concurrency: the number of CPUs available to the process
+ */
+export function getDefaultConcurrency(): number {
+  return (os as { availableParallelism?: () => number }).availableParallelism?.() ?? os.cpus().length;
+}
+
+/**
+ * Workers to start for a file count: at most `concurrency`, each with at least
+ * MIN_FILES_PER_WORKER files; 1 means scan in-process
+ */
+export function getWorkerCount(fileCount: number, concurrency: number): number {
+  if (!fs.existsSync(WORKER_FILE)) {
+    return 1;
+  }
+  return Math.max(1, Math.min(concurrency, Math.floor(fileCount / MIN_FILES_PER_WORKER)));
+}
+
+/**
+ * Analyze files in `workerCount` workers (contiguous shards, so files of one directory
+ * share a worker's parsed imports). Results are returned in the order of `files`.
+ */
+export async function analyzeFilesInWorkers(
+  config: ScanConfig,
+  files: string[],
+  workerCount: number,
+): Promise<FileAnalysisResult[]> {
+  const shardSize = Math.ceil(files.length / workerCount);
+  const shards: string[][] = [];
+  for (let i = 0; i < files.length; i += shardSize) {
+    shards.push(files.slice(i, i + shardSize));
+  }
+
+  console.log(`Scanning ${files.length} files in ${shards.length} worker(s)`);
+  const results = await Promise.all(shards.map((shard) => runWorker({ config, files: shard })));
+  return results.flat();
+}
+
+function runWorker(data: ScanWorkerData): Promise<FileAnalysisResult[]> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(WORKER_FILE, { workerData: data });
+    let settled = false;
+
+    worker.once("message", (results: FileAnalysisResult[]) => {
+      settled = true;
+      resolve(results);
+    });
+    worker.once("error", (error) => {
+      settled = true;
+      reject(error);
+    });
+    worker.once("exit", (code) => {
+      if (!settled) {
+        reject(new Error(`Scan worker exited with code ${code} before reporting results`));
+      }
+    });
+  });
+}
@@ -0,0 +1,17 @@
+/**
+ * Scan worker entry - analyzes one shard of files with its own ApiScanner and
+ * posts the per-file results back to the main thread (see parallel-scan.ts).
+ */
+
+import { parentPort, workerData } from "worker_threads";
+import { ApiScanner } from "../index";
+import { ScanWorkerData } from "./parallel-scan";
+
+async function run(): Promise<void> {
+  const { config, files } = workerData as ScanWorkerData;
+  const scanner = new ApiScanner({ ...config, concurrency: 1 });
+  parentPort!.postMessage(await scanner.analyzeFiles(files));
+}
+
+// A rejection is unhandled and surfaces as the worker's "error" event on the main thread
+void run();
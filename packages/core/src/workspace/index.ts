@@ -0,0 +1,6 @@
+/**
+ * Workspace (monorepo) scanning exports
+ */
+
+export * from "./workspace-packages";
+export * from "./workspace-scanner";
@@ -0,0 +1,125 @@
+/**
+ * Workspace package discovery - npm / Yarn ("workspaces" in package.json) and pnpm (pnpm-workspace.yaml)
+ */
+
+import fg from "fast-glob";
+import * as fs from "fs/promises";
+import * as path from "path";
+
+export interface WorkspacePackage {
+  /** package.json name (directory relative to the workspace root when unnamed) */
+  name: string;
+  /** Absolute package directory */
+  dir: string;
+  /** Package directory relative to the workspace root (posix separators) */
+  relativeDir: string;
+}
+
+/**
+ * Find the packages of the workspace rooted at rootDir, sorted by directory.
+ * Empty when rootDir is not a workspace root.
+ */
+export async function findWorkspacePackages(
+  rootDir: string,
+): Promise<WorkspacePackage[]> {
+  const patterns =
+    (await readPackageJsonWorkspaces(rootDir)) ??
+    (await readPnpmWorkspacePackages(rootDir)) ??
+    [];
+  const include = patterns.filter((pattern) => !pattern.startsWith("!"));
+  if (include.length === 0) {
+    return [];
+  }
+
+  const dirs = await fg(
+    include.map((pattern) => pattern.replace(/\/+$/, "")),
+    {
+      cwd: rootDir,
+      onlyDirectories: true,
+      ignore: [
+        "**/node_modules/**",
+        ...patterns
+          .filter((pattern) => pattern.startsWith("!"))
+          .map((pattern) => pattern.slice(1).replace(/\/+$/, "")),
+      ],
+    },
+  );
+
+  const packages: WorkspacePackage[] = [];
+  for (const relativeDir of Array.from(new Set(dirs)).sort()) {
+    const dir = path.resolve(rootDir, relativeDir);
+    if (dir === path.resolve(rootDir)) continue;
+    const packageJson = await readJson(path.join(dir, "package.json"));
+    if (!packageJson) continue;
+    packages.push({
+      name: typeof packageJson.name === "string" && packageJson.name ? packageJson.name : relativeDir,
+      dir,
+      relativeDir,
+    });
+  }
+  return packages;
+}
+
+/**
+ * "workspaces": ["packages/*"] (npm, Yarn) or "workspaces": { "packages": [...] } (Yarn classic)
+ */
+async function readPackageJsonWorkspaces(
+  rootDir: string,
+): Promise<string[] | null> {
+  const packageJson = await readJson(path.join(rootDir, "package.json"));
+  const workspaces = packageJson?.workspaces;
+  const patterns = Array.isArray(workspaces) ? workspaces : workspaces?.packages;
+  return Array.isArray(patterns)
+    ? patterns.filter((pattern): pattern is string => typeof pattern === "string")
+    : null;
+}
+
+/**
+ * packages list of pnpm-workspace.yaml:
+ *   packages:
+ *     - "apps/*"
+ *     - "!apps/legacy"
+ */
+async function readPnpmWorkspacePackages(
+  rootDir: string,
+): Promise<string[] | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(path.join(rootDir, "pnpm-workspace.yaml"), "utf-8");
+  } catch {
+    return null;
+  }
+
+  const patterns: string[] = [];
+  let inPackages = false;
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/\s+#.*$/, "");
+    if (!line.trim() || line.trim().startsWith("#")) continue;
+    if (/^\S/.test(line)) {
+      // Top-level key; packages may also be an inline list (packages: ["apps/*"])
+      inPackages = /^packages\s*:/.test(line);
+      const inline = line.match(/^packages\s*:\s*\[(.*)\]\s*$/);
+      if (inline) {
+        patterns.push(...inline[1].split(",").map(unquote).filter(Boolean));
+      }
+      continue;
+    }
+    const item = line.match(/^\s+-\s*(.+)$/);
+    if (inPackages && item) {
+      patterns.push(unquote(item[1]));
+    }
+  }
+  return patterns;
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(["'])(.*)\1$/, "$2");
+}
+
+async function readJson(filePath: string): Promise<Record<string, any> | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, "utf-8"));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Workspace scanner - scans every package of a monorepo with its own ApiScanner
+ * (the package's tsconfig, and its config file over the root config) and tags calls with the package
+ */
+
+import * as path from "path";
+import { ScanConfig, ScanResult } from "@api-surface/types";
+import { ApiScanner } from "../index";
+import { loadConfigOverrides } from "../config/loader";
+import { DEFAULT_CACHE_DIR } from "../cache";
+import { linkCallsToRouteHandlers } from "../extraction";
+import { findWorkspacePackages, WorkspacePackage } from "./workspace-packages";
+
+interface PackageScanner {
+  pkg: WorkspacePackage;
+  config: ScanConfig;
+  scanner: ApiScanner;
+}
+
+/**
+ * Scanner for a workspace root (config.workspaces). Packages are found on the first scan;
+ * the per-package scanners are kept, so repeated scans (watch mode) stay incremental.
+ */
+export class WorkspaceScanner {
+  private packageScanners: PackageScanner[] | undefined;
+
+  constructor(private config: ScanConfig) {}
+
+  /**
+   * Scan all packages and merge their results (files and calls in package order)
+   */
+  async scan(): Promise<ScanResult> {
+    const packageScanners = await this.getPackageScanners();
+
+    const result: ScanResult = {
+      apiCalls: [],
+      filesScanned: 0,
+      errors: [],
+      packages: [],
+    };
+    for (const { pkg, scanner } of packageScanners) {
+      console.log(`\n[${pkg.name}] Scanning ${pkg.relativeDir}...`);
+      const packageResult = await scanner.scan();
+      for (const call of packageResult.apiCalls) {
+        call.package = pkg.name;
+      }
+      result.apiCalls.push(...packageResult.apiCalls);
+      result.filesScanned += packageResult.filesScanned;
+      result.errors.push(...packageResult.errors);
+      if (packageResult.routes) {
+        result.routes = [...(result.routes ?? []), ...packageResult.routes];
+      }
+      result.packages!.push({
+        name: pkg.name,
+        dir: pkg.relativeDir,
+        filesScanned: packageResult.filesScanned,
+        errors: packageResult.errors.length,
+      });
+    }
+    // Calls of one package reach handlers of another (frontend app -> API server package)
+    if (result.routes?.length) {
+      result.apiCalls = linkCallsToRouteHandlers(result.apiCalls, result.routes);
+    }
+    return result;
+  }
+
+  /**
+   * Effective config of each package (after the first scan, or once packages are resolved)
+   */
+  async getPackageConfigs(): Promise<ScanConfig[]> {
+    return (await this.getPackageScanners()).map(({ config }) => config);
+  }
+
+  private async getPackageScanners(): Promise<PackageScanner[]> {
+    if (this.packageScanners) {
+      return this.packageScanners;
+    }
+
+    const packages = await findWorkspacePackages(this.config.rootDir);
+    if (packages.length === 0) {
+      throw new Error(
+        `No workspace packages found in ${this.config.rootDir} (expected "workspaces" in package.json or pnpm-workspace.yaml)`,
+      );
+    }
+    console.log(
+      `Workspace: ${packages.length} package(s): ${packages.map((pkg) => pkg.name).join(", ")}`,
+    );
+
+    this.packageScanners = [];
+    for (const pkg of packages) {
+      const config = await this.createPackageConfig(pkg);
+      this.packageScanners.push({ pkg, config, scanner: new ApiScanner(config) });
+    }
+    return this.packageScanners;
+  }
+
+  /**
+   * Root config with the package directory as rootDir, overridden by the package's own config file.
+   * Relative paths (apiRoutesDir, include) are relative to the package; caches go to a
+   * per-package directory under the root cache dir.
+   */
+  private async createPackageConfig(pkg: WorkspacePackage): Promise<ScanConfig> {
+    const overrides = await loadConfigOverrides(pkg.dir);
+    const rootCacheDir = path.resolve(
+      this.config.rootDir,
+      this.config.cacheDir?.trim() || DEFAULT_CACHE_DIR,
+    );
+    return {
+      ...this.config,
+      cacheDir: path.join(rootCacheDir, pkg.relativeDir),
+      ...(overrides ?? {}),
+      rootDir: pkg.dir,
+      workspaces: false,
+      additionalIncludeFiles: this.config.additionalIncludeFiles?.filter((file) =>
+        file.startsWith(pkg.dir + path.sep),
+      ),
+    };
+  }
+}
@@ -1,21 +1,40 @@
 /**
  * Next.js-specific adapter
+ *
+ * A scan plugin with a route discoverer for App Router route handlers, Pages Router API
+ * routes and server actions. ApiScanner loads it automatically for `framework: "nextjs"`.
  */
 
-import { ApiScanner } from '@api-surface/core';
-import { ScanConfig, ScanResult } from '@api-surface/types';
+import { ApiScanner, ScanPlugin } from '@api-surface/core';
+import { ScanConfig } from '@api-surface/types';
+import { NextjsRouteDiscoverer } from './route-discoverer';
 
+export { NextjsRouteDiscoverer } from './route-discoverer';
+export { appDirToRoutePath, pagesFileToRoutePath, type RoutePath } from './segments';
+export { readBasePath } from './next-config';
+export { findServerActions } from './server-actions';
+export { findMiddleware, middlewareMatches, type NextMiddleware } from './middleware-matcher';
+
+/** Plugin name; ApiScanner does not load the adapter again when a plugin of this name is registered */
+export const NEXTJS_PLUGIN_NAME = '@api-surface/nextjs';
+
+/**
+ * The Next.js adapter plugin
+ */
+export function createNextjsPlugin(): ScanPlugin {
+  return {
+    name: NEXTJS_PLUGIN_NAME,
+    routeDiscoverers: [new NextjsRouteDiscoverer()],
+  };
+}
+
+/**
+ * ApiScanner for a Next.js app (same as framework: "nextjs" in the config)
+ */
 export class NextjsApiScanner extends ApiScanner {
   constructor(config: ScanConfig) {
-    super(config);
-    // TODO: Extend base scanner with Next.js-specific detection
-  }
-
-  /**
-   * Override scan to add Next.js-specific patterns
-   */
-  async scan(): Promise<ScanResult> {
-    // TODO: Add Next.js route handlers, API routes, server components detection
-    return super.scan();
+    super({ ...config, framework: 'nextjs' });
   }
 }
+
+export default createNextjsPlugin;
@@ -0,0 +1,151 @@
+/**
+ * Middleware matchers - which routes middleware.ts (proxy.ts in Next.js 16) runs for,
+ * from its `export const config = { matcher }`
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { Node, Project, SourceFile } from "ts-morph";
+import { addProjectSourceFile, getProjectSourceFile } from "@api-surface/core";
+
+const MIDDLEWARE_FILES = ["middleware", "proxy"].flatMap((name) =>
+  [".ts", ".js", ".mjs"].map((extension) => name + extension),
+);
+
+export interface NextMiddleware {
+  /** Middleware file path relative to rootDir */
+  file: string;
+  /** Matcher patterns as regular expressions; undefined when the middleware runs on every path */
+  matchers?: RegExp[];
+}
+
+/**
+ * Middleware files next to the app / pages directories (rootDir or rootDir/src)
+ */
+export function findMiddleware(project: Project, rootDir: string): NextMiddleware[] {
+  const middleware: NextMiddleware[] = [];
+  for (const dir of [rootDir, path.join(rootDir, "src")]) {
+    for (const name of MIDDLEWARE_FILES) {
+      const file = path.join(dir, name);
+      if (!fs.existsSync(file)) continue;
+      let sourceFile: SourceFile;
+      try {
+        sourceFile = getProjectSourceFile(project, file) ?? addProjectSourceFile(project, file);
+      } catch {
+        continue;
+      }
+      middleware.push({
+        file: path.relative(rootDir, file).replace(/\\/g, "/"),
+        matchers: readMatchers(sourceFile)?.map(matcherToRegExp),
+      });
+    }
+  }
+  return middleware;
+}
+
+/**
+ * Whether the middleware runs for a path (without basePath; matchers are relative to it)
+ */
+export function middlewareMatches(middleware: NextMiddleware, pathname: string): boolean {
+  return !middleware.matchers || middleware.matchers.some((matcher) => matcher.test(pathname));
+}
+
+/**
+ * `config.matcher`: a string, an array of strings and / or `{ source }` objects.
+ * undefined when there is no static matcher (the middleware runs everywhere).
+ */
+function readMatchers(sourceFile: SourceFile): string[] | undefined {
+  const config = sourceFile.getVariableDeclaration("config");
+  const initializer = config?.getInitializer();
+  if (!initializer || !Node.isObjectLiteralExpression(initializer)) {
+    return undefined;
+  }
+  const matcherProperty = initializer.getProperty("matcher");
+  if (!matcherProperty || !Node.isPropertyAssignment(matcherProperty)) {
+    return undefined;
+  }
+
+  let value = matcherProperty.getInitializer();
+  while (value && (Node.isAsExpression(value) || Node.isSatisfiesExpression(value))) {
+    value = value.getExpression();
+  }
+  const elements = value && Node.isArrayLiteralExpression(value) ? value.getElements() : [value];
+  const matchers: string[] = [];
+  for (const element of elements) {
+    if (element && (Node.isStringLiteral(element) || Node.isNoSubstitutionTemplateLiteral(element))) {
+      matchers.push(element.getLiteralValue());
+    } else if (element && Node.isObjectLiteralExpression(element)) {
+      const source = element.getProperty("source");
+      const sourceValue = source && Node.isPropertyAssignment(source) ? source.getInitializer() : undefined;
+      if (sourceValue && Node.isStringLiteral(sourceValue)) {
+        matchers.push(sourceValue.getLiteralValue());
+      }
+    }
+  }
+  return matchers.length > 0 ? matchers : undefined;
+}
+
+/**
+ * A path-to-regexp matcher as a RegExp over the whole path: `:name`, `:name?`, `:name*`,
+ * `:name+`, custom patterns `:id(\d+)` and raw groups `/((?!api|_next).*)`
+ */
+function matcherToRegExp(matcher: string): RegExp {
+  let pattern = "";
+  let i = 0;
+  while (i < matcher.length) {
+    const char = matcher[i];
+    if (char === "(") {
+      const end = findGroupEnd(matcher, i);
+      const modifier = readModifier(matcher, end + 1);
+      pattern += matcher.slice(i, end + 1) + modifier;
+      i = end + 1 + modifier.length;
+      continue;
+    }
+    if (char === ":") {
+      const name = /^\w+/.exec(matcher.slice(i + 1))?.[0] ?? "";
+      i += 1 + name.length;
+      let segment = "[^/]+";
+      if (matcher[i] === "(") {
+        const end = findGroupEnd(matcher, i);
+        segment = matcher.slice(i + 1, end);
+        i = end + 1;
+      }
+      const modifier = readModifier(matcher, i);
+      i += modifier.length;
+      if (modifier && pattern.endsWith("\\/")) {
+        // "/:path*" - the slash belongs to the optional / repeated segment
+        pattern = pattern.slice(0, -2) + `(?:\\/(?:${segment}))${modifier}`;
+      } else {
+        pattern += `(${segment})${modifier}`;
+      }
+      continue;
+    }
+    pattern += char.replace(/[.*+?^${}|[\]\\/]/g, "\\$&");
+    i++;
+  }
+  try {
+    return new RegExp(`^${pattern}\\/?$`);
+  } catch {
+    // A pattern we cannot translate: assume the middleware runs
+    return /^/;
+  }
+}
+
+function readModifier(matcher: string, index: number): string {
+  const char = matcher[index];
+  return char === "?" || char === "*" || char === "+" ? char : "";
+}
+
+function findGroupEnd(matcher: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < matcher.length; i++) {
+    if (matcher[i] === "\\") {
+      i++;
+    } else if (matcher[i] === "(") {
+      depth++;
+    } else if (matcher[i] === ")" && --depth === 0) {
+      return i;
+    }
+  }
+  return matcher.length - 1;
+}
@@ -0,0 +1,80 @@
+/**
+ * next.config.* - the settings route discovery needs (basePath)
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { Node, Project, SourceFile, SyntaxKind } from "ts-morph";
+import { addProjectSourceFile, getProjectSourceFile } from "@api-surface/core";
+
+const NEXT_CONFIG_FILES = [
+  "next.config.js",
+  "next.config.mjs",
+  "next.config.cjs",
+  "next.config.ts",
+  "next.config.mts",
+];
+
+/**
+ * basePath of the Next.js config in rootDir ("" when there is none or it is not a static string).
+ * Reads `basePath: "/docs"` anywhere in the config module, also through a const
+ * (`const basePath = "/docs"`) or a fallback (`process.env.BASE_PATH ?? "/docs"`).
+ */
+export function readBasePath(project: Project, rootDir: string): string {
+  const configFile = NEXT_CONFIG_FILES.map((name) => path.join(rootDir, name)).find((file) =>
+    fs.existsSync(file),
+  );
+  if (!configFile) {
+    return "";
+  }
+
+  let sourceFile: SourceFile;
+  try {
+    sourceFile = getProjectSourceFile(project, configFile) ?? addProjectSourceFile(project, configFile);
+  } catch {
+    return "";
+  }
+
+  for (const property of sourceFile.getDescendantsOfKind(SyntaxKind.PropertyAssignment)) {
+    if (property.getName().replace(/["']/g, "") !== "basePath") continue;
+    const value = getStaticString(property.getInitializer());
+    if (value !== undefined) {
+      return value.replace(/\/+$/, "");
+    }
+  }
+  for (const property of sourceFile.getDescendantsOfKind(SyntaxKind.ShorthandPropertyAssignment)) {
+    if (property.getName() !== "basePath") continue;
+    const value = getStaticString(property.getNameNode());
+    if (value !== undefined) {
+      return value.replace(/\/+$/, "");
+    }
+  }
+  return "";
+}
+
+function getStaticString(node: Node | undefined): string | undefined {
+  if (!node) {
+    return undefined;
+  }
+  if (Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node)) {
+    return node.getLiteralValue();
+  }
+  if (Node.isParenthesizedExpression(node) || Node.isAsExpression(node)) {
+    return getStaticString(node.getExpression());
+  }
+  if (Node.isBinaryExpression(node)) {
+    const operator = node.getOperatorToken().getKind();
+    if (operator === SyntaxKind.QuestionQuestionToken || operator === SyntaxKind.BarBarToken) {
+      return getStaticString(node.getRight());
+    }
+    return undefined;
+  }
+  if (Node.isIdentifier(node)) {
+    for (const definition of node.getDefinitionNodes()) {
+      if (Node.isVariableDeclaration(definition)) {
+        return getStaticString(definition.getInitializer());
+      }
+    }
+  }
+  return undefined;
+}
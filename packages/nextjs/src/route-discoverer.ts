@@ -0,0 +1,320 @@
+/**
+ * Next.js route discoverer - the backend route table of an app: App Router route handlers
+ * (app/**\/route.ts) and Pages Router API routes (pages/api/**), with basePath and the
+ * middleware that runs for each route, and the app's server actions
+ */
+
+import fg from "fast-glob";
+import * as fs from "fs";
+import * as path from "path";
+import { Node, Project, SourceFile, SyntaxKind } from "ts-morph";
+import { ScanConfig } from "@api-surface/types";
+import {
+  DiscoveredRouteHandler,
+  RouteDiscoverer,
+  addProjectSourceFile,
+  getNodeTextWithLimit,
+  getProjectSourceFile,
+} from "@api-surface/core";
+import { readBasePath } from "./next-config";
+import { findMiddleware, middlewareMatches, NextMiddleware } from "./middleware-matcher";
+import { findServerActions } from "./server-actions";
+import { appDirToRoutePath, pagesFileToRoutePath, RoutePath, toSamplePath } from "./segments";
+
+/** Methods a route.ts may export */
+const APP_ROUTE_METHODS = ["GET", "HEAD", "POST", "PUT", "DELETE", "PATCH", "OPTIONS"];
+
+const METHOD_COMPARISONS = new Set([
+  SyntaxKind.EqualsEqualsEqualsToken,
+  SyntaxKind.EqualsEqualsToken,
+  SyntaxKind.ExclamationEqualsEqualsToken,
+  SyntaxKind.ExclamationEqualsToken,
+]);
+
+const ROUTE_FILE_EXTENSIONS = "{ts,tsx,js,jsx,mjs}";
+
+/** Pages Router API routes that are not handlers */
+const IGNORED_PAGES_FILES = ["**/*.d.ts", "**/*.test.*", "**/*.spec.*"];
+
+/**
+ * Route discoverer for Next.js (registered by the adapter plugin)
+ */
+export class NextjsRouteDiscoverer implements RouteDiscoverer {
+  readonly id = "nextjs";
+
+  async discover(
+    project: Project,
+    config: ScanConfig,
+    maxFunctionLines: number,
+  ): Promise<DiscoveredRouteHandler[]> {
+    const rootDir = config.rootDir;
+    const basePath = readBasePath(project, rootDir);
+    const middleware = findMiddleware(project, rootDir);
+
+    const routes: Array<{ routePath: RoutePath; handler: Omit<DiscoveredRouteHandler, "url"> }> =
+      [];
+
+    const appDir = findRouterDir(rootDir, "app");
+    if (appDir) {
+      const routeFiles = await fg(`**/route.${ROUTE_FILE_EXTENSIONS}`, {
+        cwd: appDir,
+        absolute: true,
+        onlyFiles: true,
+      });
+      for (const routeFile of routeFiles.sort()) {
+        const routePath = appDirToRoutePath(path.relative(appDir, path.dirname(routeFile)));
+        const sourceFile = routePath ? loadSourceFile(project, routeFile) : undefined;
+        if (!routePath || !sourceFile) continue;
+        for (const handler of findAppRouteHandlers(sourceFile, maxFunctionLines)) {
+          routes.push({ routePath, handler: { ...handler, discoverer: "nextjs-app" } });
+        }
+      }
+    }
+
+    const pagesDir = findRouterDir(rootDir, "pages");
+    if (pagesDir && fs.existsSync(path.join(pagesDir, "api"))) {
+      const apiFiles = await fg(`api/**/*.${ROUTE_FILE_EXTENSIONS}`, {
+        cwd: pagesDir,
+        absolute: true,
+        onlyFiles: true,
+        ignore: IGNORED_PAGES_FILES,
+      });
+      for (const apiFile of apiFiles.sort()) {
+        const relativeFile = path.relative(pagesDir, apiFile).replace(/\.[^./\\]+$/, "");
+        const routePath = pagesFileToRoutePath(relativeFile);
+        const sourceFile = loadSourceFile(project, apiFile);
+        if (!sourceFile) continue;
+        for (const handler of findPagesApiHandlers(sourceFile, maxFunctionLines)) {
+          routes.push({ routePath, handler: { ...handler, discoverer: "nextjs-pages" } });
+        }
+      }
+    }
+
+    const routeHandlers = routes.map(({ routePath, handler: { method, ...handler } }) => ({
+      method,
+      url: basePath + (routePath.path === "/" && basePath ? "" : routePath.path),
+      ...handler,
+      ...(routePath.params.length > 0 ? { params: routePath.params } : {}),
+      ...getMiddlewareField(middleware, routePath),
+    }));
+    return [...routeHandlers, ...(await findServerActions(project, config, maxFunctionLines))];
+  }
+}
+
+/**
+ * <rootDir>/<name>, or <rootDir>/src/<name> when the project keeps it under src
+ */
+function findRouterDir(rootDir: string, name: string): string | undefined {
+  return [path.join(rootDir, name), path.join(rootDir, "src", name)].find(
+    (dir) => fs.existsSync(dir) && fs.statSync(dir).isDirectory(),
+  );
+}
+
+function loadSourceFile(project: Project, filePath: string): SourceFile | undefined {
+  try {
+    return getProjectSourceFile(project, filePath) ?? addProjectSourceFile(project, filePath);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Exported method handlers of a route.ts: `export async function GET`, `export const POST = ...`,
+ * `export { handler as GET }` and `export const { GET, POST } = handlers`
+ */
+function findAppRouteHandlers(
+  sourceFile: SourceFile,
+  maxLines: number,
+): Omit<DiscoveredRouteHandler, "url">[] {
+  const exported = sourceFile.getExportedDeclarations();
+  const handlers: Omit<DiscoveredRouteHandler, "url">[] = [];
+  for (const method of APP_ROUTE_METHODS) {
+    const declaration = exported.get(method)?.[0];
+    if (!declaration) continue;
+    const codeNode = getCodeNode(declaration);
+    handlers.push({
+      method,
+      functionName: method,
+      functionFile: declaration.getSourceFile().getFilePath(),
+      functionCode: getNodeTextWithLimit(codeNode, maxLines),
+      line: codeNode.getStartLineNumber(),
+    });
+  }
+  return handlers;
+}
+
+/**
+ * The default export of a Pages Router API route, one entry per method it checks
+ * (`req.method === "POST"`, `switch (req.method)`, `["GET", "HEAD"].includes(req.method)`),
+ * plus method "ALL" when it does not check the method or other methods fall through to code
+ * after the checks (`if (req.method === "POST") {...} res.json(items)`)
+ */
+function findPagesApiHandlers(
+  sourceFile: SourceFile,
+  maxLines: number,
+): Omit<DiscoveredRouteHandler, "url">[] {
+  const declaration = sourceFile.getExportedDeclarations().get("default")?.[0];
+  if (!declaration) {
+    return [];
+  }
+  const codeNode = getCodeNode(declaration);
+  const functionName =
+    (Node.isFunctionDeclaration(declaration) || Node.isVariableDeclaration(declaration)
+      ? declaration.getName()
+      : undefined) ?? "default";
+  const functionCode = getNodeTextWithLimit(codeNode, maxLines);
+  const methods = findCheckedMethods(codeNode);
+  if (methods.length === 0 || hasFallThrough(declaration)) {
+    methods.push("ALL");
+  }
+
+  return methods.map((method) => ({
+    method,
+    functionName,
+    functionFile: declaration.getSourceFile().getFilePath(),
+    functionCode,
+    line: codeNode.getStartLineNumber(),
+  }));
+}
+
+/**
+ * HTTP methods compared against `<request>.method` in a handler (or statement), in order of appearance
+ */
+function findCheckedMethods(handler: Node): string[] {
+  const methods = new Set<string>();
+  const addLiteral = (node: Node | undefined) => {
+    if (node && (Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node))) {
+      const method = node.getLiteralValue().toUpperCase();
+      if (APP_ROUTE_METHODS.includes(method)) {
+        methods.add(method);
+      }
+    }
+  };
+
+  const visit = (node: Node) => {
+    if (Node.isBinaryExpression(node)) {
+      const operator = node.getOperatorToken().getKind();
+      // req.method === "POST", and the guard form req.method !== "POST" (reject everything else)
+      if (!METHOD_COMPARISONS.has(operator)) {
+        return;
+      }
+      if (isMethodAccess(node.getLeft())) addLiteral(node.getRight());
+      if (isMethodAccess(node.getRight())) addLiteral(node.getLeft());
+    } else if (Node.isSwitchStatement(node) && isMethodAccess(node.getExpression())) {
+      for (const clause of node.getClauses()) {
+        if (Node.isCaseClause(clause)) addLiteral(clause.getExpression());
+      }
+    } else if (Node.isCallExpression(node)) {
+      const callee = node.getExpression();
+      const [argument] = node.getArguments();
+      if (
+        Node.isPropertyAccessExpression(callee) &&
+        callee.getName() === "includes" &&
+        argument &&
+        isMethodAccess(argument)
+      ) {
+        const list = callee.getExpression();
+        if (Node.isArrayLiteralExpression(list)) {
+          list.getElements().forEach(addLiteral);
+        }
+      }
+    }
+  };
+  visit(handler);
+  handler.forEachDescendant(visit);
+  return Array.from(methods);
+}
+
+/**
+ * Code after a handler's method checks runs for the methods it did not check: statements after
+ * the last check, the final else of an if / else if chain or the default clause of a switch.
+ * Not for guards (`if (req.method !== "POST") return ...`) or a 405 response to other methods.
+ */
+function hasFallThrough(declaration: Node): boolean {
+  const fn = Node.isVariableDeclaration(declaration) ? declaration.getInitializer() : declaration;
+  const body =
+    Node.isFunctionDeclaration(fn) || Node.isArrowFunction(fn) || Node.isFunctionExpression(fn)
+      ? fn.getBody()
+      : undefined;
+  if (!body || !Node.isBlock(body)) {
+    return false;
+  }
+  const statements = body.getStatements();
+  const check = [...statements].reverse().find((statement) => findCheckedMethods(statement).length > 0);
+  if (!check) {
+    return false;
+  }
+
+  const otherMethods: Node[] = statements.slice(statements.indexOf(check) + 1);
+  if (Node.isIfStatement(check)) {
+    if (isMethodGuard(check)) {
+      return false;
+    }
+    let branch = check.getElseStatement();
+    while (branch && Node.isIfStatement(branch)) {
+      branch = branch.getElseStatement();
+    }
+    if (branch) otherMethods.push(branch);
+  } else if (Node.isSwitchStatement(check)) {
+    const defaultClause = check.getClauses().find(Node.isDefaultClause);
+    if (defaultClause) otherMethods.push(defaultClause);
+  }
+
+  return (
+    otherMethods.length > 0 &&
+    !otherMethods.some((node) =>
+      node.getDescendantsOfKind(SyntaxKind.NumericLiteral).some((literal) => literal.getLiteralValue() === 405),
+    )
+  );
+}
+
+/**
+ * if (req.method !== "POST") return ... / if (!["GET", "HEAD"].includes(req.method)) throw ...
+ */
+function isMethodGuard(statement: Node): boolean {
+  if (!Node.isIfStatement(statement) || statement.getElseStatement()) {
+    return false;
+  }
+  const condition = statement.getExpression();
+  const negated =
+    (Node.isBinaryExpression(condition) &&
+      [SyntaxKind.ExclamationEqualsEqualsToken, SyntaxKind.ExclamationEqualsToken].includes(
+        condition.getOperatorToken().getKind(),
+      )) ||
+    (Node.isPrefixUnaryExpression(condition) &&
+      condition.getOperatorToken() === SyntaxKind.ExclamationToken);
+  const then = statement.getThenStatement();
+  const last = Node.isBlock(then) ? then.getStatements().at(-1) : then;
+  return negated && (Node.isReturnStatement(last) || Node.isThrowStatement(last));
+}
+
+/** req.method, request.method, req.method?.toUpperCase() */
+function isMethodAccess(node: Node): boolean {
+  if (Node.isCallExpression(node)) {
+    const callee = node.getExpression();
+    return (
+      Node.isPropertyAccessExpression(callee) &&
+      /^to(Upper|Lower)Case$/.test(callee.getName()) &&
+      isMethodAccess(callee.getExpression())
+    );
+  }
+  return Node.isPropertyAccessExpression(node) && node.getName() === "method";
+}
+
+/**
+ * The statement to extract for an exported declaration (a variable's whole statement)
+ */
+function getCodeNode(declaration: Node): Node {
+  return declaration.getFirstAncestorByKind(SyntaxKind.VariableStatement) ?? declaration;
+}
+
+function getMiddlewareField(
+  middleware: NextMiddleware[],
+  routePath: RoutePath,
+): { middleware?: string[] } {
+  const samplePath = toSamplePath(routePath);
+  const files = middleware
+    .filter((entry) => middlewareMatches(entry, samplePath))
+    .map((entry) => entry.file);
+  return files.length > 0 ? { middleware: files } : {};
+}
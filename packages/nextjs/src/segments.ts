@@ -0,0 +1,96 @@
+/**
+ * Route paths from Next.js file system routing: App Router directories and Pages Router files
+ */
+
+import { RouteParam } from "@api-surface/types";
+
+export interface RoutePath {
+  /** Path without basePath: "/api/users/[id]" ("/" for the root) */
+  path: string;
+  params: RouteParam[];
+}
+
+/** (.)x, (..)x, (..)(..)x and (...)x: intercepting segments */
+const INTERCEPTION_RE = /^(\(\.\.\.\)|(?:\(\.\.\))+|\(\.\))(.+)$/;
+
+/**
+ * URL path of an App Router directory (relative to the app dir). Route groups `(group)` and
+ * parallel route slots `@slot` are not part of the URL; intercepting segments resolve to the
+ * path they intercept: `(.)x` on the same level, `(..)x` one route segment up, `(...)x` from the
+ * root. Returns null for private folders (`_components`) and their contents.
+ */
+export function appDirToRoutePath(relativeDir: string): RoutePath | null {
+  const segments: string[] = [];
+  for (const dirName of splitPath(relativeDir)) {
+    if (dirName.startsWith("_")) {
+      return null;
+    }
+    const interception = INTERCEPTION_RE.exec(dirName);
+    if (interception) {
+      const marker = interception[1];
+      if (marker === "(...)") {
+        segments.length = 0;
+      } else if (marker !== "(.)") {
+        segments.splice(segments.length - marker.length / 4);
+      }
+      segments.push(interception[2]);
+      continue;
+    }
+    if ((dirName.startsWith("(") && dirName.endsWith(")")) || dirName.startsWith("@")) {
+      continue;
+    }
+    segments.push(dirName);
+  }
+  return toRoutePath(segments);
+}
+
+/**
+ * URL path of a Pages Router file (relative to the pages dir, extension removed):
+ * "api/users/index" -> "/api/users", "api/posts/[...slug]" -> "/api/posts/[...slug]"
+ */
+export function pagesFileToRoutePath(relativeFile: string): RoutePath {
+  const segments = splitPath(relativeFile);
+  if (segments[segments.length - 1] === "index") {
+    segments.pop();
+  }
+  return toRoutePath(segments);
+}
+
+/**
+ * A concrete path for a route path, used to test middleware matchers:
+ * [id] and [...slug] become one segment, [[...slug]] is dropped
+ */
+export function toSamplePath(routePath: RoutePath): string {
+  const segments = splitPath(routePath.path)
+    .filter((segment) => !segment.startsWith("[[..."))
+    .map((segment) => (segment.startsWith("[") ? "x" : segment));
+  return "/" + segments.join("/");
+}
+
+function toRoutePath(segments: string[]): RoutePath {
+  const params: RouteParam[] = [];
+  for (const segment of segments) {
+    const param = parseParamSegment(segment);
+    if (param) {
+      params.push(param);
+    }
+  }
+  return { path: "/" + segments.join("/"), params };
+}
+
+function parseParamSegment(segment: string): RouteParam | null {
+  let match = /^\[\[\.\.\.([^\]]+)\]\]$/.exec(segment);
+  if (match) {
+    return { name: match[1], kind: "optional-catch-all" };
+  }
+  match = /^\[\.\.\.([^\]]+)\]$/.exec(segment);
+  if (match) {
+    return { name: match[1], kind: "catch-all" };
+  }
+  match = /^\[([^\]]+)\]$/.exec(segment);
+  return match ? { name: match[1], kind: "dynamic" } : null;
+}
+
+function splitPath(relativePath: string): string[] {
+  return relativePath.split(/[\\/]/).filter((segment) => segment && segment !== ".");
+}
@@ -0,0 +1,49 @@
+/**
+ * Server Actions - exported "use server" functions of the app, listed in the route table next to
+ * route handlers (also when no component calls them)
+ */
+
+import { Node, Project } from "ts-morph";
+import {
+  DiscoveredRouteHandler,
+  SERVER_ACTION_METHOD,
+  ScanConfig,
+  findServerActionExports,
+  getNodeTextWithLimit,
+  getServerActionUrl,
+  loadSourceFilesContaining,
+} from "@api-surface/core";
+
+/**
+ * Server actions exported by the scanned source files
+ */
+export async function findServerActions(
+  project: Project,
+  config: ScanConfig,
+  maxFunctionLines: number,
+): Promise<DiscoveredRouteHandler[]> {
+  const rootDir = config.rootDir;
+  const handlers: DiscoveredRouteHandler[] = [];
+  const sourceFiles = (await loadSourceFilesContaining(project, config, ["use server"])).sort(
+    (a, b) => a.getFilePath().localeCompare(b.getFilePath()),
+  );
+
+  for (const sourceFile of sourceFiles) {
+    for (const action of findServerActionExports(sourceFile)) {
+      const declaration = action.declaration;
+      const codeNode = Node.isVariableDeclaration(declaration)
+        ? (declaration.getVariableStatement() ?? declaration)
+        : declaration;
+      handlers.push({
+        method: SERVER_ACTION_METHOD,
+        url: getServerActionUrl(action, rootDir),
+        functionName: action.exportName,
+        functionFile: sourceFile.getFilePath(),
+        functionCode: getNodeTextWithLimit(codeNode, maxFunctionLines),
+        line: codeNode.getStartLineNumber(),
+        discoverer: "nextjs-action",
+      });
+    }
+  }
+  return handlers;
+}
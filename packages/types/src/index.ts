@@ -10,13 +10,95 @@
  */
 export type FunctionResolutionConfidence = "high" | "medium" | "low";
 
+/** Detector/library that produced an API call */
+export type ApiCallSource =
+  | "fetch"
+  | "axios"
+  | "custom"
+  | "ky"
+  | "ofetch"
+  | "got"
+  | "superagent"
+  | "redaxios"
+  | "graphql"
+  | "swr"
+  | "tanstack-query"
+  | "rtk-query"
+  | "trpc"
+  | "server-action"
+  | "websocket"
+  | "eventsource"
+  | "socketio"
+  | "xhr"
+  | "jquery"
+  | "beacon"
+  | "angular";
+
+/** Transport of an API call; absent means plain HTTP */
+export type ApiProtocol = "http" | "ws" | "sse" | "socketio";
+
+/** Socket.IO event names used on a connection */
+export interface RealtimeEvents {
+  /** socket.emit('event') */
+  sent: string[];
+  /** socket.on('event') / socket.once('event') */
+  received: string[];
+}
+
+/** A variable declared by a GraphQL operation, e.g. ($id: ID!) -> { name: "id", type: "ID!" } */
+export interface GraphQLVariable {
+  name: string;
+  type: string;
+}
+
+/** GraphQL operation metadata for calls detected from gql/graphql documents */
+export interface GraphQLOperationInfo {
+  /** Operation name (undefined for anonymous operations) */
+  operationName?: string;
+  operationType: "query" | "mutation" | "subscription";
+  /** Root fields selected by the operation (aliases resolved to field names) */
+  rootFields: string[];
+  variables: GraphQLVariable[];
+}
+
+/** Instance-level defaults of the HTTP client an API call was made through (axios.create({ ... })) */
+export interface ClientDefaults {
+  /** Default headers: header name -> literal value or source text */
+  headers?: Record<string, string>;
+  withCredentials?: boolean;
+  /** Request timeout in milliseconds */
+  timeout?: number;
+}
+
+/** Request payload shape inferred at a call site (body, headers, query) */
+export interface RequestShape {
+  /** How the body is encoded: JSON.stringify / axios data object, FormData, URLSearchParams, plain text */
+  bodyType?: "json" | "form-data" | "url-encoded" | "text" | "unknown";
+  /** Top-level body field names (object keys, FormData / URLSearchParams append names) */
+  bodyFields?: string[];
+  /** Header names set on the request (Authorization, Content-Type, ...) */
+  headers?: string[];
+  /** Query parameter names passed as URLSearchParams / axios params */
+  queryParams?: string[];
+}
+
+/** An outbound dependency of an API route handler: a third-party SDK client or an external HTTP host */
+export interface ExternalDependency {
+  /** sdk: client of a known SDK package (new Stripe(), new OpenAI()); http: fetch / axios to an absolute host */
+  kind: "sdk" | "http";
+  /** SDK name ("stripe", "openai", "aws-s3") or host ("api.github.com", "process.env.USERS_SERVICE_URL") */
+  name: string;
+  /** SDK methods ("customers.create") or requests ("POST /v1/messages") made by the handler */
+  operations: string[];
+}
+
 export interface ApiCall {
   method: string;
   url: string;
   line: number;
   column: number;
   file: string;
-  source: "fetch" | "axios" | "custom";
+  source: ApiCallSource;
   confidence?: "high" | "medium" | "low";
   /** Name of the function that contains the API call (if resolved) */
   functionName?: string;
@@ -26,6 +108,39 @@ export interface ApiCall {
   functionCode?: string | null;
   /** Confidence of function code resolution */
   functionResolutionConfidence?: FunctionResolutionConfidence;
+  /** Dynamic segment names of the route handler the URL matched (["id"] for users/[id]/route.ts) */
+  routeParams?: string[];
+  /** GraphQL operation details (source "graphql") */
+  graphql?: GraphQLOperationInfo;
+  /** Base URL of the client instance (literal, `${process.env.X}` reference or template); `url` is relative to it */
+  baseUrl?: string;
+  /** Defaults of the client instance (headers, withCredentials, timeout) */
+  clientDefaults?: ClientDefaults;
+  /** Request body, headers and query shape at this call (fetch / axios / XHR / jQuery / sendBeacon) */
+  request?: RequestShape;
+  /** Response field paths read by the consuming code ("items[].name", "total") */
+  consumedResponseFields?: string[];
+  /** Real-time transport (ws, sse, socketio); absent for HTTP calls */
+  protocol?: ApiProtocol;
+  /** Socket.IO events sent and received on the connection */
+  events?: RealtimeEvents;
+  /** Socket.IO namespace: the pathname of the connection URL (io("https://x.io/admin") -> "/admin"; url is https://x.io/socket.io) */
+  namespace?: string;
+  /** Declared response type from the call's generic argument (this.http.get<User[]>(url) -> "User[]") */
+  responseType?: string;
+  /** SDKs and external hosts called by the route handler (functionCode) and its helpers */
+  externalDependencies?: ExternalDependency[];
+  /** Workspace package the call was found in (workspace scans) */
+  package?: string;
+}
+
+/** A named path parameter of a canonical URL template: /api/users/{userId} */
+export interface PathParam {
+  name: string;
+  /** Inferred from the URL: literal numeric / UUID segments, otherwise "string" */
+  type: "string" | "number" | "uuid";
+  /** Source expression of an interpolated parameter (e.g. "user.id") */
+  expression?: string;
 }
 
 /**
@@ -33,11 +148,35 @@ export interface ApiCall {
  */
 export interface NormalizedEndpoint {
   method: string;
+  /** Canonical path template: interpolations become named params, no origin or query (/api/users/{userId}/posts) */
   url: string;
-  source: "fetch" | "axios" | "custom";
+  source: ApiCallSource;
   callSites: CallSite[];
   confidence: "high" | "medium" | "low";
   callCount: number;
+  /** GraphQL operation details; endpoints are grouped per operation name */
+  graphql?: GraphQLOperationInfo;
+  /** Origin or base URL split off the canonical path (https://api.example.com, ${process.env.API_URL}) */
+  baseUrl?: string;
+  clientDefaults?: ClientDefaults;
+  /** Named path parameters of the canonical url, in order */
+  pathParams?: PathParam[];
+  /** Query parameter names from the query string (?page=${p}&sort=asc -> ["page", "sort"]) and request params */
+  queryParams?: string[];
+  /** Request shape merged over all call sites (union of fields and headers) */
+  request?: RequestShape;
+  /** Response field paths read at any call site (consumed response shape) */
+  consumedResponseFields?: string[];
+  /** Real-time transport (ws, sse, socketio); absent for HTTP endpoints */
+  protocol?: ApiProtocol;
+  /** Socket.IO events merged over all connections to the endpoint */
+  events?: RealtimeEvents;
+  /** Declared response type of the first call site that has one (generic argument) */
+  responseType?: string;
+  /** Outbound SDKs and hosts of the route handler serving this endpoint */
+  externalDependencies?: ExternalDependency[];
+  /** Workspace packages with call sites of this endpoint (workspace scans) */
+  packages?: string[];
 }
 
 /**
@@ -48,6 +187,16 @@ export interface CallSite {
   line: number;
   column: number;
   confidence?: "high" | "medium" | "low";
+  /** URL as written at this call site (before canonicalization) */
+  rawUrl?: string;
+  /** Request shape sent from this call site */
+  request?: RequestShape;
+  /** Response field paths read by the code consuming this call */
+  consumedResponseFields?: string[];
+  /** Socket.IO namespace of the connection */
+  namespace?: string;
+  /** Workspace package of the call site (workspace scans) */
+  package?: string;
 }
 
 export interface ScanConfig {
@@ -64,12 +213,37 @@ export interface ScanConfig {
   apiRoutesDir?: string;
   /** Additional absolute file paths to include in the scan (e.g. from AI dependency discovery). Merged with normal scan results. */
   additionalIncludeFiles?: string[];
+  /** Detector plugins: npm package names or local files (relative to rootDir), optionally with factory options */
+  plugins?: PluginConfig[];
+  /** Replay results of unchanged files from the scan cache (default true) */
+  cache?: boolean;
+  /** Scan cache directory (default ".api-surface/cache", relative to rootDir) */
+  cacheDir?: string;
+  /** Worker threads for detection (default: CPU count; 1 scans in the main thread) */
+  concurrency?: number;
+  /** Scan each package of an npm / pnpm / Yarn workspace with its own tsconfig and config file (rootDir is the workspace root) */
+  workspaces?: boolean;
 }
 
+/**
+ * A plugin entry: "my-detector-package", "./detectors/acme.js" or { module, options } where
+ * options are passed to the exported factory / detector class.
+ */
+export type PluginConfig =
+  | string
+  | {
+      module: string;
+      options?: Record<string, unknown>;
+    };
+
 export interface ApiClientConfig {
   type: "fetch" | "axios" | "custom";
   name?: string; // For custom clients
   patterns?: string[]; // Import patterns to detect (e.g., ['axios', '@/lib/api'])
+  /** Custom clients: client method name -> HTTP verb (e.g. { list: "GET", create: "POST" }). Merged over the defaults. */
+  methods?: Record<string, string>;
+  /** Custom clients: index of the URL argument in method calls (default 0) */
+  urlArgIndex?: number;
 }
 
 /** A required system parameter (e.g. env var) inferred from scanned code, with optional AI-generated description. */
@@ -84,6 +258,45 @@ export interface ScanResult {
   errors: ScanError[];
   /** Required system parameters (e.g. process.env vars) inferred from API route handlers, with optional descriptions. */
   requiredSystemParams?: RequiredSystemParam[];
+  /** Scanned packages, in workspace order (workspace scans) */
+  packages?: WorkspacePackageResult[];
+  /** Backend route table from route discoverers (framework adapters), in discovery order */
+  routes?: BackendRoute[];
+}
+
+/** A dynamic segment of a route path: [id], [...slug] or [[...slug]] */
+export interface RouteParam {
+  name: string;
+  kind: "dynamic" | "catch-all" | "optional-catch-all";
+}
+
+/** A backend route handler found by a route discoverer */
+export interface BackendRoute {
+  /** HTTP method; "ALL" when the handler answers every method */
+  method: string;
+  /** Route path as the framework writes it, including basePath: "/docs/api/users/[id]" */
+  url: string;
+  functionFile: string;
+  /** Handler name (GET, POST, default export name or "default"; the handler function for server frameworks) */
+  functionName: string;
+  /** Line of the handler in functionFile */
+  line?: number;
+  /** Discoverer that found the route ("nextjs-app", "nextjs-pages", "express", "fastify", "hono", "koa") */
+  discoverer?: string;
+  /** Dynamic segments in path order */
+  params?: RouteParam[];
+  /** Middleware files whose matcher covers the route (Next.js), or middleware before the handler (server frameworks) */
+  middleware?: string[];
+}
+
+/** Scan statistics of one workspace package */
+export interface WorkspacePackageResult {
+  /** package.json name (directory when unnamed) */
+  name: string;
+  /** Package directory relative to the workspace root */
+  dir: string;
+  filesScanned: number;
+  errors: number;
 }
 
 export interface ScanError {